@@ -30,6 +30,11 @@ function StackNavigator() {
         <Stack.Screen name="profile" options={{ title: 'Profile' }} />
         <Stack.Screen name="new-document" options={{ headerShown: false }} />
         <Stack.Screen name="document-form" options={{ headerShown: false }} />
+        <Stack.Screen name="document-compare" options={{ headerShown: false }} />
+        <Stack.Screen name="admin/templates" options={{ headerShown: false }} />
+        <Stack.Screen name="admin/template-editor" options={{ headerShown: false }} />
+        <Stack.Screen name="admin/template-config" options={{ headerShown: false }} />
+        <Stack.Screen name="admin/template-designer" options={{ headerShown: false }} />
       </Stack>
   );
 }
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, ScrollView } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import {
+  Surface,
+  Appbar,
+  Card,
+  Button,
+  Text as PaperText,
+  TextInput,
+  Chip,
+  Snackbar,
+  useTheme,
+} from 'react-native-paper';
+import { ProtectedRoute } from '../../components/ProtectedRoute';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import { useResponsive } from '../../src/hooks/useResponsive';
+import { getTemplate, saveTemplate, Template } from '../../lib/supabase';
+import { parseTemplateSchema } from '../../supabase/functions/_shared/render/renderDocument';
+import {
+  validateTemplateConfig,
+  hasTemplateErrors,
+  TemplateIssue,
+} from '../../supabase/functions/_shared/render/templateLint';
+
+const SEVERITY_ORDER: Record<TemplateIssue['severity'], number> = { error: 0, warning: 1, info: 2 };
+
+// Edits metadata.templateConfig of one template as JSON and lints it against the template's json_schema
+// while typing. Saving goes through the save-template edge function, which runs the same checks.
+const TemplateConfigEditor: React.FC = () => {
+  const { templateId } = useLocalSearchParams<{ templateId: string }>();
+  const paperTheme = useTheme();
+  const responsive = useResponsive();
+  const [template, setTemplate] = useState<Template | null>(null);
+  const [configText, setConfigText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [serverIssues, setServerIssues] = useState<TemplateIssue[] | null>(null);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  useEffect(() => {
+    if (!templateId) return;
+    getTemplate(templateId).then(({ data, error }) => {
+      if (error || !data) {
+        setSnackbarMessage('Template could not be loaded');
+      } else {
+        setTemplate(data);
+        setConfigText(JSON.stringify(data.metadata?.templateConfig ?? { blocks: [] }, null, 2));
+      }
+      setLoading(false);
+    });
+  }, [templateId]);
+
+  const parsed = useMemo(() => {
+    try {
+      return { config: JSON.parse(configText), error: null as string | null };
+    } catch (e) {
+      return { config: null, error: e instanceof Error ? e.message : 'Invalid JSON' };
+    }
+  }, [configText]);
+
+  const issues = useMemo(() => {
+    if (!template || parsed.error) return [];
+    return validateTemplateConfig(parsed.config, parseTemplateSchema(template))
+      .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  }, [template, parsed]);
+
+  const canSave = !!template && !parsed.error && !hasTemplateErrors(issues) && !saving;
+
+  const handleSave = async () => {
+    if (!template || !canSave) return;
+    setSaving(true);
+    const { data, version, issues: returned, error } = await saveTemplate(
+      {
+        name: template.name,
+        description: template.description,
+        json_schema: template.json_schema,
+        metadata: { ...(template.metadata || {}), templateConfig: parsed.config },
+      },
+      template.id
+    );
+    setSaving(false);
+    setServerIssues(error ? returned : null);
+    if (error) {
+      setSnackbarMessage(error.message || 'Template could not be saved');
+    } else {
+      if (data) setTemplate(data);
+      setSnackbarMessage(version ? `Template saved as version ${version}` : 'Template saved');
+    }
+  };
+
+  const severityColor = (severity: TemplateIssue['severity']) =>
+    severity === 'error' ? paperTheme.colors.error : severity === 'warning' ? '#B45309' : paperTheme.colors.onSurfaceVariant;
+
+  if (loading) {
+    return <LoadingSpinner message="Loading template..." />;
+  }
+
+  const shownIssues = serverIssues || issues;
+
+  return (
+    <Surface style={{ flex: 1, backgroundColor: paperTheme.colors.background }}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} disabled={saving} />
+        <Appbar.Content title={template?.name || 'Template'} subtitle="Layout (templateConfig)" />
+        <Appbar.Action icon="content-save" onPress={handleSave} disabled={!canSave} />
+      </Appbar.Header>
+
+      <ScrollView style={{ flex: 1 }} contentContainerStyle={{ padding: responsive.spacing.md }}>
+        <Card style={{ marginBottom: responsive.spacing.md }}>
+          <Card.Content>
+            <TextInput
+              mode="outlined"
+              multiline
+              value={configText}
+              onChangeText={(text) => {
+                setConfigText(text);
+                setServerIssues(null);
+              }}
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={{ minHeight: 320, fontFamily: 'monospace', fontSize: 13 }}
+              error={!!parsed.error}
+            />
+            {parsed.error && (
+              <PaperText variant="bodySmall" style={{ color: paperTheme.colors.error, marginTop: responsive.spacing.xs }}>
+                {parsed.error}
+              </PaperText>
+            )}
+          </Card.Content>
+        </Card>
+
+        <Card style={{ marginBottom: responsive.spacing.md }}>
+          <Card.Title
+            title="Checks"
+            subtitle={shownIssues.length ? `${shownIssues.length} issue(s)` : 'No issues found'}
+          />
+          <Card.Content>
+            {shownIssues.map((issue, i) => (
+              <View key={`${issue.pointer}-${issue.code}-${i}`} style={{ flexDirection: 'row', alignItems: 'flex-start', marginBottom: responsive.spacing.sm }}>
+                <Chip compact textStyle={{ color: severityColor(issue.severity), fontSize: 11 }} style={{ marginRight: responsive.spacing.sm }}>
+                  {issue.severity}
+                </Chip>
+                <View style={{ flex: 1 }}>
+                  <PaperText variant="bodyMedium">{issue.message}</PaperText>
+                  <PaperText variant="bodySmall" style={{ color: paperTheme.colors.onSurfaceVariant, fontFamily: 'monospace' }}>
+                    {issue.source === 'jsonSchema' ? 'json_schema' : 'templateConfig'}
+                    {issue.pointer || '/'}
+                  </PaperText>
+                </View>
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+
+        <Button mode="contained" icon="content-save" onPress={handleSave} disabled={!canSave} loading={saving}>
+          Save template
+        </Button>
+      </ScrollView>
+
+      <Snackbar visible={!!snackbarMessage} onDismiss={() => setSnackbarMessage('')} duration={4000}>
+        {snackbarMessage}
+      </Snackbar>
+    </Surface>
+  );
+};
+
+const TemplateConfigScreen: React.FC = () => {
+  return (
+    <ProtectedRoute requireRole="admin" loadingMessage="Checking permissions...">
+      <TemplateConfigEditor />
+    </ProtectedRoute>
+  );
+};
+
+export default TemplateConfigScreen;
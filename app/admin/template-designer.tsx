@@ -0,0 +1,349 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, ScrollView, Alert } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { WebView } from 'react-native-webview';
+import {
+  Surface,
+  Appbar,
+  Card,
+  Chip,
+  IconButton,
+  SegmentedButtons,
+  Snackbar,
+  Text as PaperText,
+  TouchableRipple,
+  useTheme,
+} from 'react-native-paper';
+import { ProtectedRoute } from '../../components/ProtectedRoute';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import DraggableList from '../../components/DraggableList';
+import BlockPropertiesPanel from '../../components/BlockPropertiesPanel';
+import { useResponsive } from '../../src/hooks/useResponsive';
+import { getTemplate, saveTemplate, Template } from '../../lib/supabase';
+import { prepareTemplateData, parseTemplateSchema } from '../../supabase/functions/_shared/render/renderDocument';
+import {
+  renderDocumentFromTemplateConfig,
+  TemplateBlock,
+  TemplateConfig,
+} from '../../supabase/functions/_shared/render/templateRenderer';
+import {
+  validateTemplateConfig,
+  hasTemplateErrors,
+  TemplateIssue,
+} from '../../supabase/functions/_shared/render/templateLint';
+import { schemaToTemplateConfig } from '../../supabase/functions/_shared/render/schemaTemplate';
+import { buildSampleData } from '../../utils/templateSamples';
+import { PALETTE, DesignerBlockType, createBlock, describeBlock, moveItem } from '../../utils/templateDesigner';
+
+const PREVIEW_DELAY_MS = 400;
+
+const BLOCK_ICONS: Record<string, string> = Object.fromEntries(PALETTE.map((p) => [p.type, p.icon]));
+const BLOCK_LABELS: Record<string, string> = Object.fromEntries(PALETTE.map((p) => [p.type, p.label]));
+
+// Index of the block an issue pointer such as `/blocks/3/columns/0/path` refers to
+const blockIndexOf = (issue: TemplateIssue): number | null => {
+  const match = /^\/blocks\/(\d+)/.exec(issue.pointer);
+  return match ? Number(match[1]) : null;
+};
+
+// Drops the `undefined` left behind by switching a property off, so the saved JSON only has set keys
+const cleanConfig = (config: TemplateConfig): TemplateConfig => JSON.parse(JSON.stringify(config));
+
+// Lays out metadata.templateConfig from blocks: add them from the palette, drag to reorder, edit the selected one
+// in the properties panel and check the result in a live preview filled with sample inputs. Page settings, styles
+// and computed fields of the stored config are kept as they are.
+const TemplateDesigner: React.FC = () => {
+  const { templateId } = useLocalSearchParams<{ templateId: string }>();
+  const paperTheme = useTheme();
+  const responsive = useResponsive();
+  const [template, setTemplate] = useState<Template | null>(null);
+  const [config, setConfig] = useState<TemplateConfig>({ blocks: [] });
+  const [selected, setSelected] = useState<number | null>(null);
+  const [view, setView] = useState<'design' | 'preview' | 'json'>('design');
+  const [dragging, setDragging] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+  const sideBySide = !responsive.isPhone;
+
+  useEffect(() => {
+    if (!templateId) return;
+    getTemplate(templateId).then(({ data, error }) => {
+      if (error || !data) {
+        setSnackbarMessage('Template could not be loaded');
+      } else {
+        setTemplate(data);
+        const stored = data.metadata?.templateConfig;
+        setConfig(stored && Array.isArray(stored.blocks) ? stored : { blocks: [] });
+      }
+      setLoading(false);
+    });
+  }, [templateId]);
+
+  const schema = useMemo(() => (template ? parseTemplateSchema(template) : undefined), [template]);
+  const sampleData = useMemo(() => (template ? prepareTemplateData(template, buildSampleData(schema || {})) : {}), [template, schema]);
+  const issues = useMemo(() => validateTemplateConfig(config, schema), [config, schema]);
+  const blockIssues = useMemo(() => {
+    const counts: Record<number, TemplateIssue[]> = {};
+    for (const issue of issues) {
+      const index = blockIndexOf(issue);
+      if (index !== null) (counts[index] ||= []).push(issue);
+    }
+    return counts;
+  }, [issues]);
+
+  // Re-rendered shortly after the last edit, like the form preview
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      try {
+        setPreviewHtml(renderDocumentFromTemplateConfig(config, sampleData, { title: template?.name }));
+        setPreviewError(null);
+      } catch (e) {
+        setPreviewError(e instanceof Error ? e.message : 'Preview could not be rendered');
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [config, sampleData, template]);
+
+  const setBlocks = (blocks: TemplateBlock[]) => {
+    setConfig({ ...config, blocks });
+    setDirty(true);
+  };
+
+  const handleAdd = (type: DesignerBlockType) => {
+    const at = selected === null ? config.blocks.length : selected + 1;
+    setBlocks([...config.blocks.slice(0, at), createBlock(type, schema), ...config.blocks.slice(at)]);
+    setSelected(at);
+  };
+
+  const handleMove = (from: number, to: number) => {
+    setBlocks(moveItem(config.blocks, from, to));
+    if (selected === from) setSelected(to);
+    else if (selected !== null && from < selected && to >= selected) setSelected(selected - 1);
+    else if (selected !== null && from > selected && to <= selected) setSelected(selected + 1);
+  };
+
+  const handleRemove = (index: number) => {
+    setBlocks(config.blocks.filter((_, i) => i !== index));
+    setSelected(null);
+  };
+
+  const handleDuplicate = (index: number) => {
+    const copy = JSON.parse(JSON.stringify(config.blocks[index]));
+    setBlocks([...config.blocks.slice(0, index + 1), copy, ...config.blocks.slice(index + 1)]);
+    setSelected(index + 1);
+  };
+
+  // Replaces the blocks with the default layout for the form's fields, as a starting point to rearrange
+  const handleGenerate = () => {
+    if (!schema) return;
+    const generate = () => {
+      setBlocks(schemaToTemplateConfig(schema).blocks);
+      setSelected(null);
+    };
+    if (config.blocks.length) {
+      Alert.alert('Replace Layout', 'Generate blocks from the form fields? The current blocks are replaced.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: generate },
+      ]);
+    } else {
+      generate();
+    }
+  };
+
+  const handleSave = async () => {
+    if (!template || hasTemplateErrors(issues)) return;
+    setSaving(true);
+    const templateConfig = cleanConfig(config);
+    const { data, version, error } = await saveTemplate(
+      {
+        name: template.name,
+        description: template.description,
+        json_schema: template.json_schema,
+        metadata: { ...(template.metadata || {}), templateConfig },
+      },
+      template.id,
+      { changelog: 'Layout edited in the designer' }
+    );
+    setSaving(false);
+    if (error || !data) {
+      setSnackbarMessage(error?.message || 'Layout could not be saved');
+      return;
+    }
+    setTemplate(data);
+    setDirty(false);
+    setSnackbarMessage(`Template saved as version ${version}`);
+  };
+
+  const renderBlockRow = (block: TemplateBlock, index: number, handle: React.ReactNode) => {
+    const isSelected = selected === index;
+    const rowIssues = blockIssues[index] || [];
+    const hasError = rowIssues.some((i) => i.severity === 'error');
+    return (
+      <Card
+        mode={isSelected ? 'elevated' : 'outlined'}
+        style={{
+          marginBottom: responsive.spacing.xs,
+          borderColor: hasError ? paperTheme.colors.error : undefined,
+          backgroundColor: isSelected ? paperTheme.colors.secondaryContainer : undefined,
+        }}
+      >
+        <TouchableRipple onPress={() => setSelected(isSelected ? null : index)}>
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            {handle}
+            <IconButton icon={BLOCK_ICONS[block.type] || 'shape-outline'} size={18} style={{ margin: 0 }} />
+            <View style={{ flex: 1, paddingVertical: 8 }}>
+              <PaperText variant="labelLarge">{BLOCK_LABELS[block.type] || block.type}</PaperText>
+              <PaperText variant="bodySmall" numberOfLines={1} style={{ color: paperTheme.colors.onSurfaceVariant }}>
+                {describeBlock(block)}
+              </PaperText>
+            </View>
+            {rowIssues.length > 0 && (
+              <Chip compact textStyle={{ fontSize: 11, color: hasError ? paperTheme.colors.error : '#B45309' }}>
+                {rowIssues.length}
+              </Chip>
+            )}
+            <IconButton icon="content-copy" size={18} onPress={() => handleDuplicate(index)} accessibilityLabel="Duplicate block" />
+            <IconButton icon="delete-outline" size={18} onPress={() => handleRemove(index)} accessibilityLabel="Remove block" />
+          </View>
+        </TouchableRipple>
+        {isSelected && (
+          <Card.Content style={{ paddingBottom: responsive.spacing.md }}>
+            {rowIssues.map((issue, i) => (
+              <PaperText
+                key={i}
+                variant="bodySmall"
+                style={{ color: issue.severity === 'error' ? paperTheme.colors.error : '#B45309', marginBottom: 4 }}
+              >
+                {issue.message}
+              </PaperText>
+            ))}
+            <BlockPropertiesPanel
+              block={block}
+              schema={schema}
+              onChange={(next) => setBlocks(config.blocks.map((b, i) => (i === index ? next : b)))}
+            />
+          </Card.Content>
+        )}
+      </Card>
+    );
+  };
+
+  const palette = (
+    <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: responsive.spacing.xs, marginBottom: responsive.spacing.md }}>
+      {PALETTE.map((item) => (
+        <Chip key={item.type} icon={item.icon} onPress={() => handleAdd(item.type)}>
+          {item.label}
+        </Chip>
+      ))}
+    </View>
+  );
+
+  const design = (
+    <ScrollView
+      style={{ flex: 1 }}
+      contentContainerStyle={{ padding: responsive.spacing.md, paddingBottom: 80 }}
+      scrollEnabled={!dragging}
+      keyboardShouldPersistTaps="handled"
+    >
+      <PaperText variant="bodySmall" style={{ color: paperTheme.colors.onSurfaceVariant, marginBottom: responsive.spacing.xs }}>
+        Tap a block type to add it {selected === null ? 'at the end' : 'after the selected block'}
+      </PaperText>
+      {palette}
+      {config.blocks.length === 0 ? (
+        <PaperText variant="bodyMedium" style={{ color: paperTheme.colors.onSurfaceVariant, textAlign: 'center', marginTop: 24 }}>
+          No blocks yet
+        </PaperText>
+      ) : (
+        <DraggableList
+          items={config.blocks}
+          keyExtractor={(_, index) => String(index)}
+          renderItem={renderBlockRow}
+          onMove={handleMove}
+          onDragActiveChange={setDragging}
+        />
+      )}
+    </ScrollView>
+  );
+
+  const preview = previewError ? (
+    <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 }}>
+      <PaperText variant="bodyMedium" style={{ color: paperTheme.colors.error, textAlign: 'center' }}>
+        {previewError}
+      </PaperText>
+    </View>
+  ) : previewHtml ? (
+    <WebView originWhitelist={['*']} source={{ html: previewHtml }} style={{ flex: 1, backgroundColor: '#ffffff' }} />
+  ) : null;
+
+  const json = (
+    <ScrollView contentContainerStyle={{ padding: responsive.spacing.md }}>
+      <PaperText selectable style={{ fontFamily: 'monospace', fontSize: 12 }}>
+        {JSON.stringify(cleanConfig(config), null, 2)}
+      </PaperText>
+    </ScrollView>
+  );
+
+  if (loading) {
+    return <LoadingSpinner message="Loading template..." />;
+  }
+
+  const errorCount = issues.filter((i) => i.severity === 'error').length;
+
+  return (
+    <Surface style={{ flex: 1, backgroundColor: paperTheme.colors.background }}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} disabled={saving} />
+        <Appbar.Content
+          title={template ? `Design: ${template.name}` : 'Design'}
+          subtitle={errorCount ? `${errorCount} error(s) to fix before saving` : dirty ? 'Unsaved changes' : undefined}
+        />
+        <Appbar.Action icon="auto-fix" onPress={handleGenerate} disabled={!schema || saving} accessibilityLabel="Generate from form fields" />
+        <Appbar.Action icon="content-save" onPress={handleSave} disabled={!template || !dirty || saving || errorCount > 0} />
+      </Appbar.Header>
+
+      <SegmentedButtons
+        value={view}
+        onValueChange={(value) => setView(value as 'design' | 'preview' | 'json')}
+        buttons={[
+          { value: 'design', label: 'Design', icon: 'view-grid-plus-outline' },
+          ...(sideBySide ? [] : [{ value: 'preview', label: 'Preview', icon: 'eye-outline' }]),
+          { value: 'json', label: 'JSON', icon: 'code-json' },
+        ]}
+        style={{ margin: responsive.spacing.md, marginBottom: 0 }}
+      />
+
+      {view === 'json' ? (
+        json
+      ) : sideBySide ? (
+        <View style={{ flex: 1, flexDirection: 'row' }}>
+          <View style={{ flex: 1 }}>{design}</View>
+          <View style={{ flex: 1, margin: responsive.spacing.md, borderWidth: 1, borderColor: paperTheme.colors.outlineVariant }}>
+            {preview}
+          </View>
+        </View>
+      ) : view === 'preview' ? (
+        <View style={{ flex: 1, margin: responsive.spacing.md }}>{preview}</View>
+      ) : (
+        design
+      )}
+
+      <Snackbar visible={!!snackbarMessage} onDismiss={() => setSnackbarMessage('')} duration={4000}>
+        {snackbarMessage}
+      </Snackbar>
+    </Surface>
+  );
+};
+
+const TemplateDesignerScreen: React.FC = () => {
+  return (
+    <ProtectedRoute requireRole="admin" loadingMessage="Checking permissions...">
+      <TemplateDesigner />
+    </ProtectedRoute>
+  );
+};
+
+export default TemplateDesignerScreen;
@@ -0,0 +1,431 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, ScrollView, Alert } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import {
+  Surface,
+  Appbar,
+  Card,
+  Button,
+  Text as PaperText,
+  TextInput,
+  Chip,
+  List,
+  Snackbar,
+  useTheme,
+} from 'react-native-paper';
+import { ProtectedRoute } from '../../components/ProtectedRoute';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import JsonEditor, { parseJson } from '../../components/JsonEditor';
+import DocumentPreview from '../../components/DocumentPreview';
+import { useResponsive } from '../../src/hooks/useResponsive';
+import {
+  getTemplate,
+  getTemplateVersions,
+  publishTemplateVersion,
+  saveTemplate,
+  Template,
+  TemplateVersion,
+  TEMPLATE_CATEGORIES,
+} from '../../lib/supabase';
+import { prepareTemplateData } from '../../supabase/functions/_shared/render/renderDocument';
+import { validateAgainstSchema } from '../../supabase/functions/_shared/render/schemaValidation';
+import {
+  validateTemplateConfig,
+  validateJsonSchema,
+  hasTemplateErrors,
+  TemplateIssue,
+} from '../../supabase/functions/_shared/render/templateLint';
+import { JSONSchema, schemaToTemplateConfig } from '../../supabase/functions/_shared/render/schemaTemplate';
+import { templateConfigToSchema } from '../../supabase/functions/_shared/render/schemaInference';
+import { buildSampleData } from '../../utils/templateSamples';
+
+const SEVERITY_ORDER: Record<TemplateIssue['severity'], number> = { error: 0, warning: 1, info: 2 };
+
+// Starting point for a new template: one required field and a heading that shows it
+const NEW_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: { title: { type: 'string', title: 'Title' } },
+  required: ['title'],
+};
+const NEW_CONFIG = { blocks: [{ type: 'heading', text: '{{title}}', level: 1 }] };
+
+const pretty = (value: unknown) => JSON.stringify(value, null, 2);
+
+// Creates a template (no templateId) or edits one: details, json_schema and metadata.templateConfig as JSON with
+// the save-template checks run while typing, and a test render with sample inputs. Saving stores a new version;
+// "Save draft" keeps the published version in place until the draft is published from the version list.
+const TemplateEditor: React.FC = () => {
+  const { templateId } = useLocalSearchParams<{ templateId?: string }>();
+  const paperTheme = useTheme();
+  const responsive = useResponsive();
+  const [template, setTemplate] = useState<Template | null>(null);
+  const [loading, setLoading] = useState(!!templateId);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<string>('');
+  const [tagsText, setTagsText] = useState('');
+  const [schemaText, setSchemaText] = useState(pretty(NEW_SCHEMA));
+  const [configText, setConfigText] = useState(pretty(NEW_CONFIG));
+  const [sampleText, setSampleText] = useState(pretty(buildSampleData(NEW_SCHEMA)));
+  const [showPreview, setShowPreview] = useState(false);
+  const [changelog, setChangelog] = useState('');
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [serverIssues, setServerIssues] = useState<TemplateIssue[] | null>(null);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  const loadVersions = async (id: string) => {
+    const { data, error } = await getTemplateVersions(id);
+    if (error) console.warn('Could not load template versions:', error.message);
+    setVersions(data || []);
+  };
+
+  useEffect(() => {
+    if (!templateId) return;
+    getTemplate(templateId).then(({ data, error }) => {
+      if (error || !data) {
+        setSnackbarMessage('Template could not be loaded');
+      } else {
+        const { templateConfig, category: savedCategory, tags } = data.metadata || {};
+        setTemplate(data);
+        setName(data.name);
+        setDescription(data.description || '');
+        setCategory(savedCategory || '');
+        setTagsText(Array.isArray(tags) ? tags.join(', ') : '');
+        setSchemaText(pretty(data.json_schema));
+        setConfigText(pretty(templateConfig ?? { blocks: [] }));
+        setSampleText(pretty(buildSampleData(data.json_schema || {})));
+      }
+      setLoading(false);
+    });
+    loadVersions(templateId);
+  }, [templateId]);
+
+  const schema = useMemo(() => parseJson(schemaText), [schemaText]);
+  const config = useMemo(() => parseJson(configText), [configText]);
+  const sample = useMemo(() => parseJson(sampleText), [sampleText]);
+
+  const issues = useMemo(() => {
+    if (schema.error) return [];
+    const found = validateJsonSchema(schema.value);
+    if (!config.error) found.push(...validateTemplateConfig(config.value, schema.value));
+    return found.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  }, [schema, config]);
+
+  const metadata = useMemo(() => {
+    const { templateConfig: _config, category: _category, tags: _tags, ...rest } = template?.metadata || {};
+    const tags = tagsText
+      .split(',')
+      .map((t) => t.trim())
+      .filter(Boolean);
+    return { ...rest, ...(category ? { category } : {}), tags, templateConfig: config.value };
+  }, [template, category, tagsText, config]);
+
+  // The template as it would be saved, for the test render
+  const draftTemplate = useMemo(
+    () =>
+      ({
+        ...(template || {}),
+        name: name || 'Untitled template',
+        description,
+        json_schema: schema.value,
+        metadata,
+      }) as Template,
+    [template, name, description, schema, metadata]
+  );
+
+  const sampleErrors = useMemo(() => {
+    if (schema.error || config.error || sample.error || !showPreview) return [];
+    try {
+      return validateAgainstSchema(schema.value, prepareTemplateData(draftTemplate, sample.value || {}));
+    } catch {
+      return [];
+    }
+  }, [schema, config, sample, draftTemplate, showPreview]);
+
+  const parseErrors = !!schema.error || !!config.error;
+  const canSave = !!name.trim() && !parseErrors && !hasTemplateErrors(issues) && !saving;
+
+  const handleSave = async (publish: boolean) => {
+    if (!canSave) return;
+    setSaving(true);
+    const { data, version, issues: returned, error } = await saveTemplate(
+      { name: name.trim(), description: description.trim() || null, json_schema: schema.value, metadata },
+      template?.id,
+      { changelog: changelog.trim() || undefined, publish }
+    );
+    setSaving(false);
+    setServerIssues(error ? returned : null);
+    if (error || !data) {
+      setSnackbarMessage(error?.message || 'Template could not be saved');
+      return;
+    }
+    setChangelog('');
+    if (!template) {
+      router.replace({ pathname: '/admin/template-editor', params: { templateId: data.id } });
+      return;
+    }
+    setTemplate(data);
+    loadVersions(data.id);
+    setSnackbarMessage(
+      publish ? `Published as version ${version}` : `Saved as draft version ${version}; version ${data.version} stays published`
+    );
+  };
+
+  // Adds the fields the layout uses that the form doesn't have yet; fields already defined are left alone
+  const handleFieldsFromLayout = () => {
+    if (schema.error || config.error) return;
+    const draft = templateConfigToSchema(config.value);
+    const existing = schema.value?.properties || {};
+    const added = Object.keys(draft.properties).filter((key) => !(key in existing));
+    if (!added.length) {
+      setSnackbarMessage('The form already has every field the layout uses');
+      return;
+    }
+    setSchemaText(
+      pretty({
+        ...schema.value,
+        type: 'object',
+        properties: { ...existing, ...Object.fromEntries(added.map((key) => [key, draft.properties[key]])) },
+      })
+    );
+    setServerIssues(null);
+    setSnackbarMessage(`Added ${added.length} field(s) from the layout: ${added.join(', ')}`);
+  };
+
+  const handleLayoutFromFields = () => {
+    if (schema.error) return;
+    const generate = () => {
+      const generated = schemaToTemplateConfig(schema.value);
+      setConfigText(pretty({ ...generated, blocks: [{ type: 'heading', level: 1, text: '{{ _template_name }}' }, ...generated.blocks] }));
+      setServerIssues(null);
+    };
+    if (config.value?.blocks?.length) {
+      Alert.alert('Replace Layout', 'Generate a layout from the form fields? The current blocks are replaced.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: generate },
+      ]);
+    } else {
+      generate();
+    }
+  };
+
+  const handlePublish = async (version: number) => {
+    if (!template) return;
+    const { data, error } = await publishTemplateVersion(template.id, version);
+    if (error || !data) {
+      setSnackbarMessage(error?.message || 'Version could not be published');
+      return;
+    }
+    setTemplate(data);
+    setSnackbarMessage(`Version ${version} is now published`);
+  };
+
+  const severityColor = (severity: TemplateIssue['severity']) =>
+    severity === 'error' ? paperTheme.colors.error : severity === 'warning' ? '#B45309' : paperTheme.colors.onSurfaceVariant;
+
+  if (loading) {
+    return <LoadingSpinner message="Loading template..." />;
+  }
+
+  const shownIssues = serverIssues || issues;
+
+  return (
+    <Surface style={{ flex: 1, backgroundColor: paperTheme.colors.background }}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} disabled={saving} />
+        <Appbar.Content
+          title={template ? template.name : 'New Template'}
+          subtitle={template ? `Published version ${template.version}${template.archived_at ? ' • Archived' : ''}` : undefined}
+        />
+        <Appbar.Action icon="content-save" onPress={() => handleSave(true)} disabled={!canSave} />
+      </Appbar.Header>
+
+      <ScrollView style={{ flex: 1 }} contentContainerStyle={{ padding: responsive.spacing.md }} keyboardShouldPersistTaps="handled">
+        <Card style={{ marginBottom: responsive.spacing.md }}>
+          <Card.Title title="Details" />
+          <Card.Content style={{ gap: responsive.spacing.sm }}>
+            <TextInput mode="outlined" label="Name" value={name} onChangeText={setName} error={!name.trim()} />
+            <TextInput mode="outlined" label="Description" value={description} onChangeText={setDescription} multiline />
+            <PaperText variant="bodyMedium" style={{ color: paperTheme.colors.onSurfaceVariant }}>Category</PaperText>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: responsive.spacing.xs }}>
+              {TEMPLATE_CATEGORIES.map((c) => (
+                <Chip key={c} selected={category === c} onPress={() => setCategory(category === c ? '' : c)}>
+                  {c}
+                </Chip>
+              ))}
+            </View>
+            <TextInput
+              mode="outlined"
+              label="Tags"
+              value={tagsText}
+              onChangeText={setTagsText}
+              placeholder="contract, hr, onboarding"
+              autoCapitalize="none"
+            />
+          </Card.Content>
+        </Card>
+
+        <Card style={{ marginBottom: responsive.spacing.md }}>
+          <Card.Title title="Form fields" subtitle="json_schema" />
+          <Card.Content>
+            <JsonEditor
+              label="json_schema"
+              value={schemaText}
+              onChangeText={(text) => {
+                setSchemaText(text);
+                setServerIssues(null);
+              }}
+              error={schema.error}
+            />
+          </Card.Content>
+          <Card.Actions>
+            <Button icon="auto-fix" onPress={handleFieldsFromLayout} disabled={!!schema.error || !!config.error}>
+              Add fields used by the layout
+            </Button>
+          </Card.Actions>
+        </Card>
+
+        <Card style={{ marginBottom: responsive.spacing.md }}>
+          <Card.Title title="Layout" subtitle="metadata.templateConfig" />
+          <Card.Content>
+            <JsonEditor
+              label="templateConfig"
+              value={configText}
+              onChangeText={(text) => {
+                setConfigText(text);
+                setServerIssues(null);
+              }}
+              error={config.error}
+              minHeight={320}
+            />
+          </Card.Content>
+          <Card.Actions>
+            <Button icon="auto-fix" onPress={handleLayoutFromFields} disabled={!!schema.error}>
+              Generate from form fields
+            </Button>
+          </Card.Actions>
+        </Card>
+
+        <Card style={{ marginBottom: responsive.spacing.md }}>
+          <Card.Title
+            title="Checks"
+            subtitle={parseErrors ? 'Fix the JSON first' : shownIssues.length ? `${shownIssues.length} issue(s)` : 'No issues found'}
+          />
+          <Card.Content>
+            {shownIssues.map((issue, i) => (
+              <View key={`${issue.source}-${issue.pointer}-${issue.code}-${i}`} style={{ flexDirection: 'row', alignItems: 'flex-start', marginBottom: responsive.spacing.sm }}>
+                <Chip compact textStyle={{ color: severityColor(issue.severity), fontSize: 11 }} style={{ marginRight: responsive.spacing.sm }}>
+                  {issue.severity}
+                </Chip>
+                <View style={{ flex: 1 }}>
+                  <PaperText variant="bodyMedium">{issue.message}</PaperText>
+                  <PaperText variant="bodySmall" style={{ color: paperTheme.colors.onSurfaceVariant, fontFamily: 'monospace' }}>
+                    {issue.source === 'jsonSchema' ? 'json_schema' : 'templateConfig'}
+                    {issue.pointer || '/'}
+                  </PaperText>
+                </View>
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+
+        <Card style={{ marginBottom: responsive.spacing.md }}>
+          <Card.Title title="Test render" subtitle="Sample inputs are not saved" />
+          <Card.Content>
+            <JsonEditor label="Sample inputs" value={sampleText} onChangeText={setSampleText} error={sample.error} minHeight={160} />
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: responsive.spacing.sm, marginTop: responsive.spacing.sm }}>
+              <Button
+                mode="outlined"
+                icon="auto-fix"
+                onPress={() => setSampleText(pretty(buildSampleData(schema.value || {})))}
+                disabled={!!schema.error}
+              >
+                Fill from schema
+              </Button>
+              <Button
+                mode="contained-tonal"
+                icon={showPreview ? 'eye-off-outline' : 'eye-outline'}
+                onPress={() => setShowPreview(!showPreview)}
+                disabled={parseErrors || !!sample.error}
+              >
+                {showPreview ? 'Hide preview' : 'Test render'}
+              </Button>
+            </View>
+            {showPreview && sampleErrors.length > 0 && (
+              <View style={{ marginTop: responsive.spacing.sm }}>
+                {sampleErrors.map((e, i) => (
+                  <PaperText key={`${e.path}-${i}`} variant="bodySmall" style={{ color: '#B45309' }}>
+                    {e.message}
+                  </PaperText>
+                ))}
+              </View>
+            )}
+            {showPreview && !parseErrors && !sample.error && (
+              <View style={{ height: 480, marginTop: responsive.spacing.sm, borderWidth: 1, borderColor: paperTheme.colors.outlineVariant }}>
+                <DocumentPreview template={draftTemplate} values={sample.value || {}} />
+              </View>
+            )}
+          </Card.Content>
+        </Card>
+
+        {template && versions.length > 0 && (
+          <Card style={{ marginBottom: responsive.spacing.md }}>
+            <Card.Title title="Versions" subtitle={`${versions.length} version(s)`} />
+            {versions.map((v) => (
+              <List.Item
+                key={v.id}
+                title={`Version ${v.version}${v.version === template.version ? ' (published)' : ''}`}
+                description={[new Date(v.created_at).toLocaleString(), v.changelog].filter(Boolean).join(' • ')}
+                descriptionNumberOfLines={3}
+                right={() =>
+                  v.version === template.version ? null : (
+                    <Button compact onPress={() => handlePublish(v.version)}>
+                      Publish
+                    </Button>
+                  )
+                }
+              />
+            ))}
+          </Card>
+        )}
+
+        <Card style={{ marginBottom: responsive.spacing.md }}>
+          <Card.Content style={{ gap: responsive.spacing.sm }}>
+            <TextInput
+              mode="outlined"
+              label="What changed"
+              value={changelog}
+              onChangeText={setChangelog}
+              placeholder={template ? 'e.g. Added a termination clause' : 'Initial version'}
+            />
+            <View style={{ flexDirection: 'row', gap: responsive.spacing.sm }}>
+              {template && (
+                <Button mode="outlined" icon="content-save-outline" onPress={() => handleSave(false)} disabled={!canSave} style={{ flex: 1 }}>
+                  Save draft
+                </Button>
+              )}
+              <Button mode="contained" icon="publish" onPress={() => handleSave(true)} disabled={!canSave} loading={saving} style={{ flex: 1 }}>
+                {template ? 'Publish' : 'Create template'}
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+      </ScrollView>
+
+      <Snackbar visible={!!snackbarMessage} onDismiss={() => setSnackbarMessage('')} duration={4000}>
+        {snackbarMessage}
+      </Snackbar>
+    </Surface>
+  );
+};
+
+const TemplateEditorScreen: React.FC = () => {
+  return (
+    <ProtectedRoute requireRole="admin" loadingMessage="Checking permissions...">
+      <TemplateEditor />
+    </ProtectedRoute>
+  );
+};
+
+export default TemplateEditorScreen;
@@ -0,0 +1,270 @@
+import React, { useCallback, useState } from 'react';
+import { View, FlatList, RefreshControl, Alert } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import {
+  Surface,
+  Appbar,
+  Card,
+  Chip,
+  FAB,
+  IconButton,
+  Menu,
+  Searchbar,
+  Snackbar,
+  Switch,
+  Text as PaperText,
+  useTheme,
+} from 'react-native-paper';
+import { ProtectedRoute } from '../../components/ProtectedRoute';
+import LoadingSpinner from '../../components/LoadingSpinner';
+import { useResponsive } from '../../src/hooks/useResponsive';
+import { getAllTemplates, saveTemplate, setTemplateArchived, deleteTemplate, Template } from '../../lib/supabase';
+
+interface TemplateItemProps {
+  template: Template;
+  onDuplicate: (template: Template) => void;
+  onArchive: (template: Template) => void;
+  onDelete: (template: Template) => void;
+}
+
+function TemplateItem({ template, onDuplicate, onArchive, onDelete }: TemplateItemProps) {
+  const [menuVisible, setMenuVisible] = useState(false);
+  const paperTheme = useTheme();
+  const responsive = useResponsive();
+  const fieldCount = Object.keys(template.json_schema?.properties || {}).length;
+  const run = (action: () => void) => () => {
+    setMenuVisible(false);
+    action();
+  };
+
+  return (
+    <Card
+      mode="elevated"
+      style={{ marginBottom: responsive.spacing.sm, opacity: template.archived_at ? 0.6 : 1 }}
+      onPress={() => router.push({ pathname: '/admin/template-editor', params: { templateId: template.id } })}
+    >
+      <Card.Title
+        title={template.name}
+        subtitle={[
+          template.metadata?.category,
+          `${fieldCount} field${fieldCount === 1 ? '' : 's'}`,
+          `Version ${template.version}`,
+        ]
+          .filter(Boolean)
+          .join(' • ')}
+        right={() => (
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            {template.archived_at && (
+              <Chip compact textStyle={{ fontSize: 11 }}>
+                Archived
+              </Chip>
+            )}
+            <Menu
+              visible={menuVisible}
+              onDismiss={() => setMenuVisible(false)}
+              anchor={<IconButton icon="dots-vertical" onPress={() => setMenuVisible(true)} accessibilityLabel="More actions" />}
+            >
+              <Menu.Item
+                leadingIcon="pencil"
+                title="Edit"
+                onPress={run(() => router.push({ pathname: '/admin/template-editor', params: { templateId: template.id } }))}
+              />
+              <Menu.Item
+                leadingIcon="view-grid-plus-outline"
+                title="Design layout"
+                onPress={run(() => router.push({ pathname: '/admin/template-designer', params: { templateId: template.id } }))}
+              />
+              <Menu.Item
+                leadingIcon="code-json"
+                title="Layout JSON"
+                onPress={run(() => router.push({ pathname: '/admin/template-config', params: { templateId: template.id } }))}
+              />
+              <Menu.Item leadingIcon="content-copy" title="Duplicate" onPress={run(() => onDuplicate(template))} />
+              <Menu.Item
+                leadingIcon={template.archived_at ? 'archive-arrow-up-outline' : 'archive-outline'}
+                title={template.archived_at ? 'Restore' : 'Archive'}
+                onPress={run(() => onArchive(template))}
+              />
+              <Menu.Item
+                leadingIcon="delete"
+                title="Delete"
+                titleStyle={{ color: paperTheme.colors.error }}
+                onPress={run(() => onDelete(template))}
+              />
+            </Menu>
+          </View>
+        )}
+      />
+      {template.description ? (
+        <Card.Content>
+          <PaperText variant="bodySmall" numberOfLines={2} style={{ color: paperTheme.colors.onSurfaceVariant }}>
+            {template.description}
+          </PaperText>
+        </Card.Content>
+      ) : null}
+    </Card>
+  );
+}
+
+// All templates, archived ones included, for admins: open one in the editor, duplicate, archive or delete it.
+// Archived templates are hidden from the new-document list but keep working for documents made from them.
+const TemplateManager: React.FC = () => {
+  const paperTheme = useTheme();
+  const responsive = useResponsive();
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  const loadTemplates = useCallback(async () => {
+    const { data, error } = await getAllTemplates();
+    if (error) {
+      console.error('Error loading templates:', error);
+      setSnackbarMessage('Failed to load templates');
+    } else {
+      setTemplates(data || []);
+    }
+    setLoading(false);
+    setRefreshing(false);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTemplates();
+    }, [loadTemplates])
+  );
+
+  const handleDuplicate = async (template: Template) => {
+    const { data, error } = await saveTemplate({
+      name: `${template.name} (copy)`,
+      description: template.description,
+      json_schema: template.json_schema,
+      metadata: template.metadata,
+    });
+    if (error || !data) {
+      setSnackbarMessage(error?.message || 'Template could not be duplicated');
+      return;
+    }
+    setSnackbarMessage(`Created "${data.name}"`);
+    loadTemplates();
+  };
+
+  const handleArchive = async (template: Template) => {
+    const archive = !template.archived_at;
+    const { error } = await setTemplateArchived(template.id, archive);
+    if (error) {
+      setSnackbarMessage(error.message || 'Template could not be updated');
+      return;
+    }
+    setSnackbarMessage(archive ? `"${template.name}" archived` : `"${template.name}" restored`);
+    loadTemplates();
+  };
+
+  const handleDelete = (template: Template) => {
+    Alert.alert(
+      'Delete Template',
+      `Delete "${template.name}" and all its versions? Documents made from it keep their files but can no longer be regenerated. Archive it instead to only hide it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await deleteTemplate(template.id);
+            if (error) {
+              setSnackbarMessage(error.message || 'Template could not be deleted');
+              return;
+            }
+            setSnackbarMessage(`"${template.name}" deleted`);
+            loadTemplates();
+          },
+        },
+      ]
+    );
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const visibleTemplates = templates.filter(
+    (t) =>
+      (showArchived || !t.archived_at) &&
+      (!query ||
+        t.name.toLowerCase().includes(query) ||
+        (t.description || '').toLowerCase().includes(query) ||
+        (t.metadata?.tags || []).some((tag: string) => String(tag).toLowerCase().includes(query)))
+  );
+  const archivedCount = templates.filter((t) => t.archived_at).length;
+
+  if (loading) {
+    return <LoadingSpinner message="Loading templates..." />;
+  }
+
+  return (
+    <Surface style={{ flex: 1, backgroundColor: paperTheme.colors.background }}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="Templates" subtitle={`${templates.length - archivedCount} active, ${archivedCount} archived`} />
+      </Appbar.Header>
+
+      <View style={{ padding: responsive.spacing.md, paddingBottom: 0 }}>
+        <Searchbar
+          placeholder="Search templates..."
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          style={{ backgroundColor: paperTheme.colors.surfaceVariant }}
+        />
+        <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'flex-end', marginTop: responsive.spacing.sm }}>
+          <PaperText variant="bodySmall" style={{ marginRight: responsive.spacing.xs }}>Show archived</PaperText>
+          <Switch value={showArchived} onValueChange={setShowArchived} />
+        </View>
+      </View>
+
+      <FlatList
+        data={visibleTemplates}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <TemplateItem template={item} onDuplicate={handleDuplicate} onArchive={handleArchive} onDelete={handleDelete} />
+        )}
+        ListEmptyComponent={
+          <PaperText variant="bodyMedium" style={{ color: paperTheme.colors.onSurfaceVariant, textAlign: 'center', marginTop: 32 }}>
+            {query ? 'No templates match your search' : 'No templates yet'}
+          </PaperText>
+        }
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadTemplates();
+            }}
+            colors={[paperTheme.colors.primary]}
+            tintColor={paperTheme.colors.primary}
+          />
+        }
+        contentContainerStyle={{ padding: responsive.spacing.md, paddingBottom: 100 }}
+      />
+
+      <FAB
+        icon="plus"
+        label="New template"
+        style={{ position: 'absolute', margin: responsive.spacing.md, right: 0, bottom: 0 }}
+        onPress={() => router.push('/admin/template-editor')}
+      />
+
+      <Snackbar visible={!!snackbarMessage} onDismiss={() => setSnackbarMessage('')} duration={4000}>
+        {snackbarMessage}
+      </Snackbar>
+    </Surface>
+  );
+};
+
+const TemplateManagerScreen: React.FC = () => {
+  return (
+    <ProtectedRoute requireRole="admin" loadingMessage="Checking permissions...">
+      <TemplateManager />
+    </ProtectedRoute>
+  );
+};
+
+export default TemplateManagerScreen;
@@ -19,7 +19,7 @@ import {
   FAB,
   Menu,
 } from 'react-native-paper';
-import { useRouter } from 'expo-router';
+import { useRouter, useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import * as FileSystem from 'expo-file-system/legacy';
 import { shareAsync } from 'expo-sharing';
@@ -31,8 +31,10 @@ import { useResponsiveStyles, useResponsiveLayout } from '../src/hooks/useRespon
 import { 
   getUserDocuments, 
   deleteDocumentComplete, 
-  getDocumentDownloadUrl 
+  getDocumentDownloadUrl,
+  canRegenerateDocument,
 } from '../lib/supabase';
+import { listDrafts, discardDraft, FormDraft, formatDraftTime } from '../utils/formDrafts';
 
 // Import Document type from supabase lib
 import type { Document } from '../lib/supabase';
@@ -42,10 +44,11 @@ interface DocumentItemProps {
   onView: (document: Document) => void;
   onDownload: (document: Document) => void;
   onDelete: (documentId: string) => void;
+  onEdit: (document: Document) => void;
   onRefresh: () => void;
 }
 
-function DocumentItem({ document, onView, onDownload, onDelete, onRefresh }: DocumentItemProps) {
+function DocumentItem({ document, onView, onDownload, onDelete, onEdit, onRefresh }: DocumentItemProps) {
   const [downloading, setDownloading] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [menuVisible, setMenuVisible] = useState(false);
@@ -130,12 +133,37 @@ function DocumentItem({ document, onView, onDownload, onDelete, onRefresh }: Doc
               </Text>
             </View>
           </View>
-          <Text variant="bodySmall" style={{ 
-            color: paperTheme.colors.onSurfaceVariant,
-            textAlign: responsive.isPhone ? 'left' : 'right'
-          }}>
-            {new Date(document.created_at).toLocaleDateString()}
-          </Text>
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <Text variant="bodySmall" style={{ 
+              color: paperTheme.colors.onSurfaceVariant,
+              textAlign: responsive.isPhone ? 'left' : 'right'
+            }}>
+              {new Date(document.created_at).toLocaleDateString()}
+              {document.revision > 1 ? ` • Rev. ${document.revision}` : ''}
+            </Text>
+            <Menu
+              visible={menuVisible}
+              onDismiss={() => setMenuVisible(false)}
+              anchor={
+                <IconButton
+                  icon="dots-vertical"
+                  size={responsive.getIconSize('small')}
+                  onPress={() => setMenuVisible(true)}
+                  accessibilityLabel="More actions"
+                />
+              }
+            >
+              <Menu.Item
+                leadingIcon="file-document-edit-outline"
+                title="Edit & regenerate"
+                disabled={!canRegenerateDocument(document)}
+                onPress={() => {
+                  setMenuVisible(false);
+                  onEdit(document);
+                }}
+              />
+            </Menu>
+          </View>
         </View>
       </Card.Content>
       
@@ -201,9 +229,15 @@ function DashboardContent() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [drafts, setDrafts] = useState<FormDraft[]>([]);
   const responsive = useResponsiveStyles();
   const layout = useResponsiveLayout();
 
+  const loadDrafts = async () => {
+    if (!user) return;
+    setDrafts(await listDrafts(user.id));
+  };
+
   const loadDocuments = async () => {
     if (!user) return;
     
@@ -229,9 +263,42 @@ function DashboardContent() {
     loadDocuments();
   }, []);
 
+  useFocusEffect(
+    React.useCallback(() => {
+      loadDrafts();
+    }, [user])
+  );
+
   const handleRefresh = () => {
     setRefreshing(true);
     loadDocuments();
+    loadDrafts();
+  };
+
+  const handleResumeDraft = (draft: FormDraft) => {
+    router.push({
+      pathname: '/document-form',
+      params: { templateId: draft.templateId, templateName: draft.templateName, resumeDraft: 'true' },
+    });
+  };
+
+  const handleDiscardDraft = (draft: FormDraft) => {
+    Alert.alert(
+      'Discard Draft',
+      `Discard your unfinished "${draft.templateName}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            if (!user) return;
+            await discardDraft(user.id, draft.templateId);
+            loadDrafts();
+          },
+        },
+      ]
+    );
   };
 
 
@@ -257,6 +324,14 @@ function DashboardContent() {
     });
   };
 
+  const handleEditDocument = (document: Document) => {
+    if (!document.template_id) return;
+    router.push({
+      pathname: '/document-form',
+      params: { templateId: document.template_id, templateName: document.template_name, documentId: document.id },
+    });
+  };
+
   const handleDownloadDocument = async (document: Document) => {
     try {
       const { data: downloadUrl, error } = await getDocumentDownloadUrl(document.storage_path);
@@ -378,6 +453,17 @@ function DashboardContent() {
             width: responsive.isPhone ? '100%' : 'auto'
           }}>
             <ThemeToggle />
+            {hasRole('admin') && (
+              <Button
+                mode="contained-tonal"
+                icon="file-cog-outline"
+                onPress={() => router.push('/admin/templates')}
+                style={responsive.isPhone ? { width: '100%' } : {}}
+                compact={responsive.isPhone}
+              >
+                Manage Templates
+              </Button>
+            )}
             <Button
               mode="contained-tonal"
               onPress={handleSignOut}
@@ -402,6 +488,32 @@ function DashboardContent() {
         />
       </Surface>
 
+      {/* Drafts */}
+      {drafts.length > 0 && (
+        <View style={[responsive.containerStyle, { paddingTop: responsive.spacing.sm }]}>
+          <Text variant="titleMedium" style={{ marginBottom: responsive.spacing.xs }}>
+            Drafts
+          </Text>
+          {drafts.map((draft) => (
+            <Card key={draft.templateId} mode="outlined" style={{ marginBottom: responsive.spacing.xs }}>
+              <Card.Title
+                title={draft.templateName}
+                subtitle={`Last edited ${formatDraftTime(draft.updatedAt)}`}
+                left={(props) => <IconButton {...props} icon="file-document-edit-outline" />}
+                right={() => (
+                  <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                    <Button compact onPress={() => handleResumeDraft(draft)}>
+                      Resume
+                    </Button>
+                    <IconButton icon="close" size={18} onPress={() => handleDiscardDraft(draft)} />
+                  </View>
+                )}
+              />
+            </Card>
+          ))}
+        </View>
+      )}
+
       {/* Documents List */}
       <View style={[responsive.containerStyle, { flex: 1, paddingTop: responsive.spacing.md }]}>
         {filteredDocuments.length === 0 ? (
@@ -425,6 +537,7 @@ function DashboardContent() {
                 onView={handleViewDocument}
                 onDownload={handleDownloadDocument}
                 onDelete={handleDeleteDocument}
+                onEdit={handleEditDocument}
                 onRefresh={handleRefresh}
               />
             )}
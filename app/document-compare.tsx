@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, ScrollView } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import {
+  ActivityIndicator,
+  Appbar,
+  Card,
+  Chip,
+  SegmentedButtons,
+  Surface,
+  Switch,
+  Text,
+  useTheme as usePaperTheme,
+} from 'react-native-paper';
+import { getDocumentById, getDocumentRevisions, getTemplate, DocumentRevision } from '../lib/supabase';
+import { useResponsiveStyles } from '../src/hooks/useResponsive';
+import { diffInputs, diffHtmlText, InputChange, TextDiffLine } from '../utils/documentDiff';
+
+// Added and removed text keep the same colours in light and dark themes so they read like a printed redline
+const ADDED = { background: '#DCFCE7', text: '#166534' };
+const REMOVED = { background: '#FEE2E2', text: '#991B1B' };
+
+const KIND_LABELS: Record<InputChange['kind'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+function DocumentCompareScreen() {
+  // Revision numbers, older first
+  const { documentId, from, to } = useLocalSearchParams<{ documentId: string; from: string; to: string }>();
+  const router = useRouter();
+  const paperTheme = usePaperTheme();
+  const responsive = useResponsiveStyles();
+  const [older, setOlder] = useState<DocumentRevision | null>(null);
+  const [newer, setNewer] = useState<DocumentRevision | null>(null);
+  const [schemas, setSchemas] = useState<{ before: any; after: any }>({ before: null, after: null });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [view, setView] = useState<'inputs' | 'text'>('inputs');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const { data: revisions, error: revisionsError } = await getDocumentRevisions(documentId);
+        if (revisionsError) throw revisionsError;
+        const find = (n: string | undefined) => (revisions || []).find((r) => r.revision === Number(n)) || null;
+        const [a, b] = [find(from), find(to)];
+        if (!a || !b) {
+          setError('One of the selected revisions could not be found');
+          return;
+        }
+        setOlder(a);
+        setNewer(b);
+
+        // Field titles come from the template version each revision was generated with
+        const { data: document } = await getDocumentById(documentId);
+        if (document?.template_id) {
+          const loadSchema = async (version: number | null) =>
+            (await getTemplate(document.template_id, version)).data?.json_schema || null;
+          const after = await loadSchema(b.template_version);
+          const before = a.template_version === b.template_version ? after : await loadSchema(a.template_version);
+          setSchemas({ before, after });
+        }
+      } catch (err: any) {
+        console.error('Error loading revisions:', err);
+        setError(err.message || 'Failed to load revisions');
+      } finally {
+        setLoading(false);
+      }
+    };
+    if (documentId) load();
+  }, [documentId, from, to]);
+
+  const inputChanges = useMemo(
+    () => (older && newer ? diffInputs(older.user_inputs, newer.user_inputs, schemas.after, schemas.before) : []),
+    [older, newer, schemas]
+  );
+  const textDiff = useMemo<TextDiffLine[] | null>(
+    () => (older?.html && newer?.html && view === 'text' ? diffHtmlText(older.html, newer.html) : null),
+    [older, newer, view]
+  );
+  const changedCount = inputChanges.filter((c) => c.kind !== 'unchanged').length;
+  const visibleChanges = showUnchanged ? inputChanges : inputChanges.filter((c) => c.kind !== 'unchanged');
+
+  const renderInputs = () => {
+    if (!older?.user_inputs || !newer?.user_inputs) {
+      return (
+        <Text variant="bodyMedium" style={{ color: paperTheme.colors.onSurfaceVariant }}>
+          Inputs were not stored for revision {!older?.user_inputs ? older?.revision : newer?.revision}.
+        </Text>
+      );
+    }
+    return (
+      <>
+        <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: responsive.spacing.sm }}>
+          <Text variant="bodyMedium" style={{ color: paperTheme.colors.onSurfaceVariant }}>
+            {changedCount === 0 ? 'No fields changed' : `${changedCount} field${changedCount === 1 ? '' : 's'} changed`}
+          </Text>
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <Text variant="bodySmall" style={{ marginRight: responsive.spacing.xs }}>Show unchanged</Text>
+            <Switch value={showUnchanged} onValueChange={setShowUnchanged} />
+          </View>
+        </View>
+        {visibleChanges.map((change) => (
+          <Card key={change.path} mode="outlined" style={{ marginBottom: responsive.spacing.sm }}>
+            <Card.Content>
+              <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Text variant="titleSmall" style={{ flex: 1 }}>{change.label}</Text>
+                <Chip compact>{KIND_LABELS[change.kind]}</Chip>
+              </View>
+              {change.kind === 'unchanged' ? (
+                <Text variant="bodyMedium" style={{ marginTop: responsive.spacing.xs }}>{change.after}</Text>
+              ) : (
+                <View style={{ marginTop: responsive.spacing.xs, gap: 4 }}>
+                  {change.kind !== 'added' && (
+                    <Text
+                      variant="bodyMedium"
+                      style={{ backgroundColor: REMOVED.background, color: REMOVED.text, textDecorationLine: 'line-through', padding: 4 }}
+                    >
+                      {change.before}
+                    </Text>
+                  )}
+                  {change.kind !== 'removed' && (
+                    <Text variant="bodyMedium" style={{ backgroundColor: ADDED.background, color: ADDED.text, padding: 4 }}>
+                      {change.after}
+                    </Text>
+                  )}
+                </View>
+              )}
+            </Card.Content>
+          </Card>
+        ))}
+      </>
+    );
+  };
+
+  const renderText = () => {
+    if (!textDiff) {
+      const missing = !older?.html ? older?.revision : newer?.revision;
+      return (
+        <Text variant="bodyMedium" style={{ color: paperTheme.colors.onSurfaceVariant }}>
+          The rendered text of revision {missing} is not available; it was generated before revisions were recorded.
+        </Text>
+      );
+    }
+    return (
+      <Surface style={{ padding: responsive.spacing.md, backgroundColor: '#ffffff', borderRadius: 8 }} elevation={1}>
+        {textDiff.map((line, i) => {
+          const colors = line.type === 'added' ? ADDED : line.type === 'removed' ? REMOVED : null;
+          return (
+            <View key={i} style={{ flexDirection: 'row', backgroundColor: colors?.background, paddingVertical: 2 }}>
+              <Text style={{ width: 16, color: colors?.text || '#6B7280', fontFamily: 'monospace' }}>
+                {line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '}
+              </Text>
+              <Text style={{ flex: 1, color: colors?.text || '#111827' }}>
+                {line.segments.map((segment, k) => (
+                  <Text
+                    key={k}
+                    style={
+                      segment.type === 'same'
+                        ? undefined
+                        : {
+                            fontWeight: 'bold',
+                            textDecorationLine: segment.type === 'removed' ? 'line-through' : 'underline',
+                          }
+                    }
+                  >
+                    {segment.text}
+                  </Text>
+                ))}
+              </Text>
+            </View>
+          );
+        })}
+      </Surface>
+    );
+  };
+
+  return (
+    <Surface style={{ flex: 1, backgroundColor: paperTheme.colors.background }}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="Compare Revisions" subtitle={`Revision ${from} → Revision ${to}`} />
+      </Appbar.Header>
+
+      {loading ? (
+        <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
+          <ActivityIndicator size="large" color={paperTheme.colors.primary} />
+        </View>
+      ) : error ? (
+        <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 }}>
+          <Text variant="bodyMedium" style={{ color: paperTheme.colors.error, textAlign: 'center' }}>{error}</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={{ padding: responsive.spacing.md }}>
+          <Text variant="bodySmall" style={{ color: paperTheme.colors.onSurfaceVariant, marginBottom: responsive.spacing.sm }}>
+            {older && `Revision ${older.revision}: ${new Date(older.created_at).toLocaleString()}`}
+            {newer && `\nRevision ${newer.revision}: ${new Date(newer.created_at).toLocaleString()}`}
+          </Text>
+          <SegmentedButtons
+            value={view}
+            onValueChange={(value) => setView(value as 'inputs' | 'text')}
+            buttons={[
+              { value: 'inputs', label: 'Inputs', icon: 'form-select' },
+              { value: 'text', label: 'Text', icon: 'text-box-outline' },
+            ]}
+            style={{ marginBottom: responsive.spacing.md }}
+          />
+          {view === 'inputs' ? renderInputs() : renderText()}
+        </ScrollView>
+      )}
+    </Surface>
+  );
+}
+
+export default DocumentCompareScreen;
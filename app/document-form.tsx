@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -22,12 +22,29 @@ import {
   ActivityIndicator as PaperActivityIndicator,
   useTheme,
   Snackbar,
+  Banner,
 } from 'react-native-paper';import DynamicFormGenerator from '../components/DynamicFormGenerator';
+import DocumentPreview from '../components/DocumentPreview';
 import { useDocumentGenerator } from '../hooks/useDocumentGenerator';
+import { useFormDraft } from '../hooks/useFormDraft';
 import { useAuth } from '../hooks/useAuth';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { useResponsive } from '../src/hooks/useResponsive';
-import { getTemplate, Template as TemplateRow } from '../lib/supabase';
+import { useResponsive, useResponsiveLayout } from '../src/hooks/useResponsive';
+import {
+  getTemplate,
+  getUserParties,
+  upsertParty,
+  getDocumentById,
+  canRegenerateDocument,
+  Template as TemplateRow,
+  Party,
+  Document,
+} from '../lib/supabase';
+import type { ComputedFields } from '../supabase/functions/_shared/render/templateComputed';
+import { formatDraftTime } from '../utils/formDrafts';
+import { buildPrefillValues, mergeFormValues, loadLastValues, saveLastValues } from '../utils/formPrefill';
+import { collectParties } from '../utils/addressBook';
+import { migrateInputs } from '../utils/templateMigration';
 
 interface JSONSchema {
   type: string;
@@ -86,21 +103,41 @@ const FileTypeSelector: React.FC<FileTypeSelectorProps> = ({ selectedFileType, s
 };
 
 const DocumentFormScreen: React.FC = () => {
-  const { templateId, templateName, templateSchema } = useLocalSearchParams<{
+  // templateSchema is omitted when resuming a draft or editing a document; it is then read from the template row.
+  // With documentId the form is prefilled with that document's stored inputs and submitting writes a new revision.
+  const { templateId, templateName, templateSchema, resumeDraft, documentId } = useLocalSearchParams<{
     templateId: string;
     templateName: string;
-    templateSchema: string;
+    templateSchema?: string;
+    resumeDraft?: string;
+    documentId?: string;
   }>();
   
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const paperTheme = useTheme();
   const responsive = useResponsive();
+  const layout = useResponsiveLayout();
   const [schema, setSchema] = useState<JSONSchema | null>(null);
   const { generate, loading, error: generationError } = useDocumentGenerator();
   const [initializing, setInitializing] = useState(true);
   const [selectedFileType, setSelectedFileType] = useState<'pdf' | 'docx'>('pdf');
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
+  const [computedFields, setComputedFields] = useState<ComputedFields | undefined>(undefined);
+  // Edits of a generated document are not autosaved as a draft of the template
+  const formDraft = useFormDraft(documentId ? undefined : templateId, templateName || 'Document', resumeDraft === 'true');
+  const [editedDocument, setEditedDocument] = useState<Document | null | undefined>(documentId ? undefined : null);
+  const [newerTemplate, setNewerTemplate] = useState<TemplateRow | null>(null); // published version, when newer
+  const [upgradedValues, setUpgradedValues] = useState<Record<string, any> | undefined>(undefined);
+  const [formKey, setFormKey] = useState(0);
+  const [template, setTemplate] = useState<TemplateRow | null>(null);
+  const [previewValues, setPreviewValues] = useState<FieldValues>({});
+  const [showPreview, setShowPreview] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<{ path: string; at: number } | undefined>(undefined);
+  const [lastValues, setLastValues] = useState<Record<string, any> | null | undefined>(undefined);
+  const [parties, setParties] = useState<Party[]>([]);
+  // Tablets show the preview next to the form; phones switch between the two
+  const sideBySide = layout.getFlexDirection(true) === 'row';
 
   useEffect(() => {
     if (templateSchema) {
@@ -115,10 +152,114 @@ const DocumentFormScreen: React.FC = () => {
           [{ text: 'OK', onPress: () => router.back() }]
         );
       }
+      setInitializing(false);
     }
-    setInitializing(false);
   }, [templateSchema]);
 
+  const applyTemplate = useCallback(
+    (row: TemplateRow | null) => {
+      setTemplate(row);
+      setComputedFields(row?.metadata?.templateConfig?.computed);
+      if (!templateSchema) {
+        if (row?.json_schema) setSchema(row.json_schema);
+        setInitializing(false);
+      }
+    },
+    [templateSchema]
+  );
+
+  // Computed fields live in the template's layout config, which is not part of the route params. An edited
+  // document is regenerated with the template version it was generated from unless the user upgrades it.
+  useEffect(() => {
+    if (!templateId) {
+      setInitializing(false);
+      return;
+    }
+    if (documentId && editedDocument === undefined) return;
+    const pinnedVersion = editedDocument?.template_version;
+    getTemplate(templateId, pinnedVersion).then(async ({ data, error }) => {
+      if (error) console.error('Failed to load template:', error);
+      applyTemplate(data as TemplateRow | null);
+      if (pinnedVersion) {
+        const { data: published } = await getTemplate(templateId);
+        if (published && published.version > pinnedVersion) setNewerTemplate(published as TemplateRow);
+      }
+    });
+  }, [templateId, documentId, editedDocument, applyTemplate]);
+
+  // Previous inputs (for `x-prefill: lastValue`) and the address book
+  useEffect(() => {
+    if (!user || !templateId) {
+      setLastValues(null);
+      return;
+    }
+    loadLastValues(user.id, templateId).then(setLastValues);
+    getUserParties(user.id).then(({ data, error }) => {
+      if (error) console.warn('Could not load address book:', error.message);
+      setParties((data as Party[] | null) || []);
+    });
+  }, [user, templateId]);
+
+  useEffect(() => {
+    if (!documentId) return;
+    getDocumentById(documentId).then(({ data, error }) => {
+      if (error || !data || !canRegenerateDocument(data)) {
+        console.error('Failed to load document inputs:', error);
+        Alert.alert('Error', 'This document cannot be edited.', [{ text: 'OK', onPress: () => router.back() }]);
+        return;
+      }
+      setEditedDocument(data);
+      setSelectedFileType(data.file_type.toLowerCase() === 'docx' ? 'docx' : 'pdf');
+    });
+  }, [documentId]);
+
+  // Form defaults: `x-prefill` values, overridden by the edited document's inputs (migrated after an upgrade) or a
+  // resumed draft. Only read when the form mounts.
+  const initialValues = useMemo(
+    () =>
+      schema && lastValues !== undefined && editedDocument !== undefined
+        ? mergeFormValues(
+            buildPrefillValues(schema, { profile, lastValues }),
+            upgradedValues ?? editedDocument?.user_inputs ?? formDraft.draft?.values
+          )
+        : undefined,
+    [schema, lastValues, profile, formDraft.draft, editedDocument, upgradedValues]
+  );
+
+  // Moves the edited inputs to the published template version; the form is remounted with the migrated values
+  const handleUpgradeTemplate = () => {
+    if (!newerTemplate) return;
+    const migration = migrateInputs(previewValues, newerTemplate.json_schema);
+    const lost = [...migration.dropped, ...migration.reset];
+    setUpgradedValues(migration.values);
+    applyTemplate(newerTemplate);
+    setNewerTemplate(null);
+    setFormKey((key) => key + 1);
+    setSnackbarMessage(
+      lost.length
+        ? `Updated to template version ${newerTemplate.version}. Check these fields: ${lost.join(', ')}`
+        : `Updated to template version ${newerTemplate.version}`
+    );
+    setSnackbarVisible(true);
+  };
+
+  useEffect(() => {
+    if (initialValues) setPreviewValues(initialValues);
+  }, [initialValues]);
+
+  const handleValuesChange = useCallback(
+    (values: FieldValues) => {
+      formDraft.autosave(values);
+      setPreviewValues({ ...values });
+    },
+    [formDraft.autosave]
+  );
+
+  const handlePreviewFieldPress = (path: string) => {
+    if (!sideBySide) setShowPreview(false);
+    setFocusRequest({ path, at: Date.now() });
+  };
+
   useEffect(() => {
     if (generationError) {
       setSnackbarMessage(generationError.message || 'An unexpected error occurred.');
@@ -132,17 +273,29 @@ const DocumentFormScreen: React.FC = () => {
       return;
     }
 
-    // Fetch full template to ensure metadata.templateConfig is available
-    const { data: fullTemplate, error: tplErr } = await getTemplate(templateId);
+    // Fetch full template to ensure metadata.templateConfig is available (in the version the form was built from)
+    const { data: fullTemplate, error: tplErr } = await getTemplate(templateId, template?.version);
     if (tplErr || !fullTemplate) {
       console.error('Failed to fetch full template:', tplErr);
       Alert.alert('Error', 'Unable to load template details. Please try again.');
       return;
     }
 
-    await generate(fullTemplate as TemplateRow, formData, selectedFileType);
+    const saved = await generate(fullTemplate as TemplateRow, formData, selectedFileType, editedDocument?.id);
 
-    if (!generationError) {
+    if (saved && editedDocument) {
+      await saveLastValues(user.id, templateId, formData);
+      Alert.alert('Success', `${templateName || 'Document'} regenerated as revision ${(editedDocument.revision || 1) + 1}.`, [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } else if (saved) {
+      await formDraft.discard();
+      await saveLastValues(user.id, templateId, formData);
+      // Parties typed into `x-party` fields are added to (or updated in) the address book
+      for (const party of collectParties(schema?.properties || {}, formData, user.id)) {
+        const { error: partyError } = await upsertParty(party);
+        if (partyError) console.warn('Could not save party to address book:', partyError.message);
+      }
       Alert.alert(
         'Success',
         `${selectedFileType} document generated and saved!`,
@@ -163,7 +316,7 @@ const DocumentFormScreen: React.FC = () => {
     }
   };
 
-  if (initializing) {
+  if (initializing || formDraft.loading || editedDocument === undefined || (schema && !initialValues)) {
     return (
       <SafeAreaView style={{ flex: 1, backgroundColor: '#F9FAFB' }}>
         <LoadingSpinner />
@@ -205,8 +358,23 @@ const DocumentFormScreen: React.FC = () => {
         <Appbar.BackAction onPress={() => router.back()} disabled={loading} />
         <Appbar.Content 
           title={templateName || 'Document Form'} 
-          subtitle="Fill out the form below"
+          subtitle={
+            editedDocument
+              ? `Editing revision ${editedDocument.revision || 1}`
+              : formDraft.lastSavedAt
+                ? `Draft saved ${formatDraftTime(formDraft.lastSavedAt)}`
+                : formDraft.draft
+                  ? `Resumed draft from ${formatDraftTime(formDraft.draft.updatedAt)}`
+                  : 'Fill out the form below'
+          }
         />
+        {!sideBySide && template && (
+          <Appbar.Action
+            icon={showPreview ? 'form-select' : 'eye-outline'}
+            onPress={() => setShowPreview(!showPreview)}
+            accessibilityLabel={showPreview ? 'Show form' : 'Show preview'}
+          />
+        )}
       </Appbar.Header>
 
       {/* Loading Modal */}
@@ -225,21 +393,61 @@ const DocumentFormScreen: React.FC = () => {
       </Portal>
 
       {/* Content */}
-      <ScrollView style={{ flex: 1 }} showsVerticalScrollIndicator={false}>
-        {/* File Type Selector */}
-        <FileTypeSelector 
-          selectedFileType={selectedFileType}
-          setSelectedFileType={setSelectedFileType}
-          loading={loading}
-        />
-        
-        {/* Form */}
-        <DynamicFormGenerator
-          schema={schema}
-          onSubmit={handleFormSubmit}
-          loading={loading}
-        />
-      </ScrollView>
+      <View style={{ flex: 1, flexDirection: sideBySide ? 'row' : 'column' }}>
+        {/* The form stays mounted while the preview is shown on phones so no input is lost */}
+        <ScrollView
+          style={{ flex: 1, display: !sideBySide && showPreview ? 'none' : 'flex' }}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {newerTemplate && template && (
+            <Banner
+              visible
+              icon="update"
+              actions={[
+                { label: `Keep version ${template.version}`, onPress: () => setNewerTemplate(null) },
+                { label: 'Update', onPress: handleUpgradeTemplate },
+              ]}
+            >
+              This document was generated with version {template.version} of the template. Version{' '}
+              {newerTemplate.version} is available; updating carries your inputs over to its fields.
+            </Banner>
+          )}
+
+          {/* File Type Selector */}
+          <FileTypeSelector 
+            selectedFileType={selectedFileType}
+            setSelectedFileType={setSelectedFileType}
+            loading={loading}
+          />
+          
+          {/* Form */}
+          <DynamicFormGenerator
+            key={formKey}
+            schema={schema}
+            onSubmit={handleFormSubmit}
+            loading={loading}
+            computed={computedFields}
+            defaultValues={initialValues}
+            onValuesChange={handleValuesChange}
+            focusRequest={focusRequest}
+            parties={parties}
+          />
+        </ScrollView>
+
+        {/* Live preview */}
+        {template && (sideBySide || showPreview) && (
+          <View
+            style={{
+              flex: 1,
+              borderLeftWidth: sideBySide ? 1 : 0,
+              borderLeftColor: paperTheme.colors.outlineVariant,
+            }}
+          >
+            <DocumentPreview template={template} values={previewValues} onFieldPress={handlePreviewFieldPress} />
+          </View>
+        )}
+      </View>
 
       {/* Snackbar for error messages */}
       <Snackbar
@@ -1,23 +1,30 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import {
   View,
+  ScrollView,
   Dimensions,
   Share,
   Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ActivityIndicator, Appbar, Button, Dialog, IconButton, Portal, Snackbar, Surface, Text, useTheme as usePaperTheme } from 'react-native-paper';
-import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ActivityIndicator, Appbar, Button, Checkbox, Dialog, IconButton, List, Portal, Snackbar, Surface, Text, useTheme as usePaperTheme } from 'react-native-paper';
+import { useLocalSearchParams, useRouter, useFocusEffect } from 'expo-router';
 import { WebView } from 'react-native-webview';
 import type { WebView as WebViewType } from 'react-native-webview';
 import { WebViewNavigationEvent, WebViewErrorEvent, WebViewNavigation } from 'react-native-webview/lib/WebViewTypes';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as Linking from 'expo-linking';
 import { shareAsync, isAvailableAsync } from 'expo-sharing';
-import { getDocumentById, getDocumentDownloadUrl, deleteDocumentComplete } from '../lib/supabase';
+import {
+  getDocumentById,
+  getDocumentDownloadUrl,
+  getDocumentRevisions,
+  deleteDocumentComplete,
+  canRegenerateDocument,
+} from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import { useResponsiveStyles, useResponsiveLayout } from '../src/hooks/useResponsive';
-import type { Document } from '../lib/supabase';
+import type { Document, DocumentRevision } from '../lib/supabase';
 
 interface DocumentViewerParams extends Record<string, string | undefined> {
   documentId: string;
@@ -44,14 +51,21 @@ function DocumentViewerScreen() {
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [deleteDialogVisible, setDeleteDialogVisible] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string>('');
+  const [revisions, setRevisions] = useState<DocumentRevision[]>([]);
+  const [historyVisible, setHistoryVisible] = useState(false);
+  const [viewedRevision, setViewedRevision] = useState<number | null>(null); // null: the latest file
+  const [compareSelection, setCompareSelection] = useState<number[]>([]);
 
   const screenData = Dimensions.get('window');
 
-  useEffect(() => {
-    if (documentId) {
-      loadDocument();
-    }
-  }, [documentId]);
+  // Reloaded on focus so a revision written by "Edit & regenerate" shows up on return
+  useFocusEffect(
+    useCallback(() => {
+      if (documentId) {
+        loadDocument();
+      }
+    }, [documentId])
+  );
 
   const loadDocument = async () => {
     try {
@@ -81,6 +95,11 @@ function DocumentViewerScreen() {
 
       setPdfUri(urlData.signedUrl);
       setViewerUri(buildViewerUrl(docData.file_type, urlData.signedUrl));
+      setViewedRevision(null);
+
+      const { data: revisionData, error: revisionsError } = await getDocumentRevisions(docData.id);
+      if (revisionsError) console.warn('Failed to load document revisions:', revisionsError);
+      setRevisions(revisionData || []);
     } catch (err: any) {
       console.error('Error loading document:', err);
       setError(err.message || 'Failed to load document');
@@ -195,6 +214,46 @@ function DocumentViewerScreen() {
     }
   };
 
+  const handleEdit = () => {
+    if (!document?.template_id) return;
+    router.push({
+      pathname: '/document-form',
+      params: { templateId: document.template_id, templateName: document.template_name, documentId: document.id },
+    });
+  };
+
+  // Shows an earlier revision's file in the viewer (the latest revision is the document itself)
+  const viewRevision = async (revision: DocumentRevision) => {
+    setHistoryVisible(false);
+    const { data: urlData, error: urlError } = await getDocumentDownloadUrl(revision.storage_path);
+    if (urlError || !urlData?.signedUrl) {
+      setError(urlError?.message || 'Unable to load this revision');
+      setSnackbarVisible(true);
+      return;
+    }
+    setPdfUri(urlData.signedUrl);
+    setViewerUri(buildViewerUrl(revision.file_type, urlData.signedUrl));
+    setViewedRevision(revision.revision === document?.revision ? null : revision.revision);
+  };
+
+  const toggleCompare = (revision: number) => {
+    setCompareSelection((current) =>
+      current.includes(revision)
+        ? current.filter((r) => r !== revision)
+        : [...current, revision].slice(-2) // keep the two most recently ticked
+    );
+  };
+
+  const openComparison = () => {
+    if (!document || compareSelection.length !== 2) return;
+    const [from, to] = [...compareSelection].sort((a, b) => a - b);
+    setHistoryVisible(false);
+    router.push({
+      pathname: '/document-compare',
+      params: { documentId: document.id, from: String(from), to: String(to) },
+    });
+  };
+
   const openInBrowser = async () => {
     try {
       if (viewerUri) {
@@ -324,6 +383,20 @@ function DocumentViewerScreen() {
           >
             {downloading ? 'Downloading...' : 'Download'}
           </Button>
+
+          <Button
+            mode="outlined"
+            onPress={handleEdit}
+            disabled={!document || !canRegenerateDocument(document)}
+            icon="file-document-edit-outline"
+            style={{ 
+              flex: responsive.isPhone ? undefined : 1,
+              minWidth: responsive.isPhone ? '30%' : undefined
+            }}
+            compact={responsive.isPhone}
+          >
+            Edit & regenerate
+          </Button>
           
           <Button
             mode="outlined"
@@ -355,7 +428,16 @@ function DocumentViewerScreen() {
             style={{ color: paperTheme.colors.onSurfaceVariant }}
           >
             {document.file_type} • Created {new Date(document.created_at).toLocaleDateString()}
+            {document.revision > 1 && document.updated_at
+              ? ` • Revision ${document.revision}, updated ${new Date(document.updated_at).toLocaleDateString()}`
+              : ''}
+            {viewedRevision !== null ? ` • Viewing revision ${viewedRevision}` : ''}
           </Text>
+          {revisions.length > 1 && (
+            <Button compact icon="history" onPress={() => setHistoryVisible(true)} style={{ alignSelf: 'flex-start' }}>
+              History ({revisions.length} revisions)
+            </Button>
+          )}
         </Surface>
       )}
 
@@ -459,6 +541,47 @@ function DocumentViewerScreen() {
         </Text>
       </Snackbar>
 
+      {/* Revision history */}
+      <Portal>
+        <Dialog visible={historyVisible} onDismiss={() => setHistoryVisible(false)}>
+          <Dialog.Title>Revision History</Dialog.Title>
+          <Dialog.ScrollArea style={{ maxHeight: 360, paddingHorizontal: 0 }}>
+            <ScrollView>
+              <Text variant="bodySmall" style={{ paddingHorizontal: 24, paddingBottom: 8, color: paperTheme.colors.onSurfaceVariant }}>
+                Tap a revision to view it, or tick two to compare them.
+              </Text>
+              {revisions.map((revision) => (
+                <List.Item
+                  key={revision.id}
+                  title={`Revision ${revision.revision}${revision.revision === document?.revision ? ' (latest)' : ''}`}
+                  description={[
+                    new Date(revision.created_at).toLocaleString(),
+                    revision.file_type.toUpperCase(),
+                    revision.template_version ? `Template v${revision.template_version}` : null,
+                  ]
+                    .filter(Boolean)
+                    .join(' • ')}
+                  onPress={() => viewRevision(revision)}
+                  left={() => (
+                    <Checkbox
+                      status={compareSelection.includes(revision.revision) ? 'checked' : 'unchecked'}
+                      onPress={() => toggleCompare(revision.revision)}
+                    />
+                  )}
+                  right={(props) => (viewedRevision ?? document?.revision) === revision.revision ? <List.Icon {...props} icon="eye" /> : null}
+                />
+              ))}
+            </ScrollView>
+          </Dialog.ScrollArea>
+          <Dialog.Actions>
+            <Button onPress={() => setHistoryVisible(false)}>Close</Button>
+            <Button mode="contained" onPress={openComparison} disabled={compareSelection.length !== 2}>
+              Compare
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       {/* Delete confirmation dialog */}
       <Portal>
         <Dialog visible={deleteDialogVisible} onDismiss={() => setDeleteDialogVisible(false)}>
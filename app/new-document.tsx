@@ -18,18 +18,22 @@ import {
   Appbar,
   Snackbar,
 } from 'react-native-paper';
-import { router } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import { useResponsiveStyles, useResponsiveLayout } from '../src/hooks/useResponsive';
 import { getTemplates, Template, TEMPLATE_CATEGORIES } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { listDrafts, FormDraft, formatDraftTime } from '../utils/formDrafts';
 import { ScrollView } from 'react-native-gesture-handler';
 
 
 interface TemplateCardProps {
   template: Template;
   onSelect: (template: Template) => void;
+  draft?: FormDraft;
+  onResume: (template: Template) => void;
 }
 
-const TemplateCard: React.FC<TemplateCardProps> = ({ template, onSelect }) => {
+const TemplateCard: React.FC<TemplateCardProps> = ({ template, onSelect, draft, onResume }) => {
   const paperTheme = usePaperTheme();
   const responsive = useResponsiveStyles();
   const layout = useResponsiveLayout();
@@ -187,6 +191,17 @@ const TemplateCard: React.FC<TemplateCardProps> = ({ template, onSelect }) => {
             {new Date(template.created_at).toLocaleDateString()}
           </Text>
         </View>
+
+        {draft && (
+          <Button
+            mode="contained-tonal"
+            icon="file-restore"
+            onPress={() => onResume(template)}
+            style={{ marginTop: responsive.spacing.sm }}
+          >
+            Resume draft · edited {formatDraftTime(draft.updatedAt)}
+          </Button>
+        )}
       </Card.Content>
      </Card>
    );
@@ -202,6 +217,8 @@ const NewDocumentScreen: React.FC = () => {
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
   const categories = ['All', ...TEMPLATE_CATEGORIES];
+  const { user } = useAuth();
+  const [drafts, setDrafts] = useState<Record<string, FormDraft>>({});
   const paperTheme = usePaperTheme();
   const responsive = useResponsiveStyles();
   const layout = useResponsiveLayout();
@@ -228,10 +245,23 @@ const NewDocumentScreen: React.FC = () => {
     }
   };
 
+  const fetchDrafts = async () => {
+    if (!user) return;
+    const list = await listDrafts(user.id);
+    setDrafts(Object.fromEntries(list.map((d) => [d.templateId, d])));
+  };
+
   useEffect(() => {
     fetchTemplates();
   }, []);
 
+  // Drafts change while the form is open (autosave) and disappear after generating
+  useFocusEffect(
+    React.useCallback(() => {
+      fetchDrafts();
+    }, [user])
+  );
+
   useEffect(() => {
     let filtered = templates;
     
@@ -260,6 +290,7 @@ const NewDocumentScreen: React.FC = () => {
   const handleRefresh = () => {
     setRefreshing(true);
     fetchTemplates();
+    fetchDrafts();
   };
 
   const handleTemplateSelect = (template: Template) => {
@@ -274,8 +305,25 @@ const NewDocumentScreen: React.FC = () => {
     });
   };
 
+  const handleResumeDraft = (template: Template) => {
+    router.push({
+      pathname: '/document-form',
+      params: {
+        templateId: template.id,
+        templateName: template.name,
+        templateSchema: JSON.stringify(template.json_schema),
+        resumeDraft: 'true',
+      },
+    });
+  };
+
   const renderTemplate = ({ item }: { item: Template }) => (
-    <TemplateCard template={item} onSelect={handleTemplateSelect} />
+    <TemplateCard
+      template={item}
+      onSelect={handleTemplateSelect}
+      draft={drafts[item.id]}
+      onResume={handleResumeDraft}
+    />
   );
 
   if (loading) {
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { ScrollView } from 'react-native';
+import { Button, Dialog, List, Portal, Text as PaperText, TextInput, useTheme } from 'react-native-paper';
+import { SchemaField } from '../utils/templateDesigner';
+
+const TYPE_ICONS: Record<string, string> = {
+  string: 'format-text',
+  number: 'numeric',
+  integer: 'numeric',
+  boolean: 'checkbox-marked-outline',
+  array: 'format-list-bulleted',
+  object: 'folder-outline',
+};
+
+interface FieldPickerDialogProps {
+  visible: boolean;
+  title?: string;
+  fields: SchemaField[];
+  onPick: (path: string) => void;
+  onDismiss: () => void;
+}
+
+// The template's fields as an indented tree; picking one closes the dialog
+export const FieldPickerDialog: React.FC<FieldPickerDialogProps> = ({ visible, title = 'Choose a field', fields, onPick, onDismiss }) => {
+  const paperTheme = useTheme();
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss} style={{ maxHeight: '80%' }}>
+        <Dialog.Title>{title}</Dialog.Title>
+        <Dialog.ScrollArea>
+          <ScrollView>
+            {fields.length === 0 ? (
+              <PaperText variant="bodyMedium" style={{ color: paperTheme.colors.onSurfaceVariant, paddingVertical: 16 }}>
+                The form has no fields of this kind.
+              </PaperText>
+            ) : (
+              fields.map((field) => (
+                <List.Item
+                  key={field.path}
+                  title={field.label}
+                  description={field.path}
+                  left={(props) => <List.Icon {...props} icon={TYPE_ICONS[field.type || 'string'] || 'form-textbox'} />}
+                  style={{ paddingLeft: field.depth * 16 }}
+                  onPress={() => {
+                    onPick(field.path);
+                    onDismiss();
+                  }}
+                />
+              ))
+            )}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>Cancel</Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+interface BindPathPickerProps {
+  label: string;
+  value?: string;
+  onChange: (path: string) => void;
+  fields: SchemaField[];
+  placeholder?: string;
+}
+
+// A path typed in or picked from the template's fields; paths the schema doesn't declare (computed fields) can
+// still be typed
+const BindPathPicker: React.FC<BindPathPickerProps> = ({ label, value, onChange, fields, placeholder }) => {
+  const [picking, setPicking] = useState(false);
+  return (
+    <>
+      <TextInput
+        mode="outlined"
+        dense
+        label={label}
+        value={value || ''}
+        onChangeText={onChange}
+        placeholder={placeholder}
+        autoCapitalize="none"
+        autoCorrect={false}
+        right={<TextInput.Icon icon="file-tree-outline" onPress={() => setPicking(true)} accessibilityLabel="Choose a field" />}
+      />
+      <FieldPickerDialog visible={picking} title={label} fields={fields} onPick={onChange} onDismiss={() => setPicking(false)} />
+    </>
+  );
+};
+
+export default BindPathPicker;
@@ -0,0 +1,507 @@
+import React, { useState } from 'react';
+import { View } from 'react-native';
+import {
+  Button,
+  Chip,
+  IconButton,
+  SegmentedButtons,
+  Switch,
+  Text as PaperText,
+  TextInput,
+  useTheme,
+} from 'react-native-paper';
+import {
+  TemplateBlock,
+  CSSStyle,
+  ColumnFormat,
+  KeyValueRow,
+  LinePart,
+  TableColumn,
+} from '../supabase/functions/_shared/render/templateRenderer';
+import { JSONSchemaBranch } from '../supabase/functions/_shared/render/schemaTemplate';
+import BindPathPicker, { FieldPickerDialog } from './BindPathPicker';
+import { SchemaField, schemaFields, itemFields, boundPath, moveItem } from '../utils/templateDesigner';
+
+interface BlockPropertiesPanelProps {
+  block: TemplateBlock;
+  schema?: JSONSchemaBranch | null;
+  onChange: (block: TemplateBlock) => void;
+}
+
+const COLUMN_FORMATS: ColumnFormat[] = ['number', 'currency', 'percent', 'date'];
+
+type TextOrBind = string | { bind?: { path?: string } } | undefined;
+
+const Row: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>{children}</View>
+);
+
+const SectionLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const paperTheme = useTheme();
+  return (
+    <PaperText variant="labelLarge" style={{ color: paperTheme.colors.onSurfaceVariant, marginTop: 8 }}>
+      {children}
+    </PaperText>
+  );
+};
+
+// Text with `{{ field }}` placeholders and a button that inserts one at the end
+const TemplateTextInput: React.FC<{
+  label: string;
+  value?: string;
+  onChange: (text: string) => void;
+  fields: SchemaField[];
+  multiline?: boolean;
+}> = ({ label, value, onChange, fields, multiline }) => {
+  const [picking, setPicking] = useState(false);
+  return (
+    <>
+      <TextInput
+        mode="outlined"
+        dense
+        label={label}
+        value={value || ''}
+        onChangeText={onChange}
+        multiline={multiline}
+        right={<TextInput.Icon icon="code-braces" onPress={() => setPicking(true)} accessibilityLabel="Insert a field" />}
+      />
+      <FieldPickerDialog
+        visible={picking}
+        title="Insert a field"
+        fields={fields}
+        onPick={(path) => onChange(`${value || ''}${value && !value.endsWith(' ') ? ' ' : ''}{{ ${path} }}`)}
+        onDismiss={() => setPicking(false)}
+      />
+    </>
+  );
+};
+
+// Signature name and title: fixed text or a bound field
+const TextOrBindInput: React.FC<{
+  label: string;
+  value: TextOrBind;
+  onChange: (value: TextOrBind) => void;
+  fields: SchemaField[];
+}> = ({ label, value, onChange, fields }) => {
+  const bound = typeof value === 'object';
+  return (
+    <View style={{ gap: 4 }}>
+      <Row>
+        <PaperText variant="bodyMedium" style={{ flex: 1 }}>{label}</PaperText>
+        <SegmentedButtons
+          density="small"
+          style={{ width: 160 }}
+          value={bound ? 'bind' : 'text'}
+          onValueChange={(mode) => onChange(mode === 'bind' ? { bind: { path: '' } } : '')}
+          buttons={[
+            { value: 'text', label: 'Text' },
+            { value: 'bind', label: 'Field' },
+          ]}
+        />
+      </Row>
+      {bound ? (
+        <BindPathPicker label={`${label} field`} value={boundPath(value)} onChange={(path) => onChange({ bind: { path } })} fields={fields} />
+      ) : (
+        <TextInput mode="outlined" dense label={label} value={(value as string) || ''} onChangeText={onChange} />
+      )}
+    </View>
+  );
+};
+
+// The handful of style properties most layouts need; anything else set in JSON is kept as is
+const StyleEditor: React.FC<{ style?: CSSStyle; onChange: (style: CSSStyle | undefined) => void }> = ({ style, onChange }) => {
+  const set = (key: string, value: string | number | undefined) => {
+    const next: CSSStyle = { ...(style || {}) };
+    if (value === undefined || value === '') delete next[key];
+    else next[key] = value;
+    onChange(Object.keys(next).length ? next : undefined);
+  };
+  const bold = style?.fontWeight === 'bold' || Number(style?.fontWeight) >= 600;
+  const italic = style?.fontStyle === 'italic';
+  return (
+    <View style={{ gap: 8 }}>
+      <SectionLabel>Style</SectionLabel>
+      <SegmentedButtons
+        density="small"
+        value={String(style?.textAlign || '')}
+        onValueChange={(align) => set('textAlign', align === style?.textAlign ? undefined : align)}
+        buttons={[
+          { value: 'left', icon: 'format-align-left' },
+          { value: 'center', icon: 'format-align-center' },
+          { value: 'right', icon: 'format-align-right' },
+          { value: 'justify', icon: 'format-align-justify' },
+        ]}
+      />
+      <Row>
+        <Chip selected={bold} icon="format-bold" onPress={() => set('fontWeight', bold ? undefined : 'bold')}>
+          Bold
+        </Chip>
+        <Chip selected={italic} icon="format-italic" onPress={() => set('fontStyle', italic ? undefined : 'italic')}>
+          Italic
+        </Chip>
+      </Row>
+      <Row>
+        <TextInput
+          mode="outlined"
+          dense
+          label="Font size"
+          placeholder="12pt"
+          value={String(style?.fontSize ?? '')}
+          onChangeText={(v) => set('fontSize', v)}
+          autoCapitalize="none"
+          style={{ flex: 1 }}
+        />
+        <TextInput
+          mode="outlined"
+          dense
+          label="Colour"
+          placeholder="#111827"
+          value={String(style?.color ?? '')}
+          onChangeText={(v) => set('color', v)}
+          autoCapitalize="none"
+          style={{ flex: 1 }}
+        />
+      </Row>
+      <TextInput
+        mode="outlined"
+        dense
+        label="Margin"
+        placeholder="0 0 10pt 0"
+        value={String(style?.margin ?? '')}
+        onChangeText={(v) => set('margin', v)}
+        autoCapitalize="none"
+      />
+    </View>
+  );
+};
+
+// Buttons to reorder or remove one entry of a list property (line parts, rows, columns)
+const EntryActions: React.FC<{ index: number; count: number; onMove: (to: number) => void; onRemove: () => void }> = ({
+  index,
+  count,
+  onMove,
+  onRemove,
+}) => (
+  <Row>
+    <IconButton icon="arrow-up" size={18} disabled={index === 0} onPress={() => onMove(index - 1)} accessibilityLabel="Move up" />
+    <IconButton icon="arrow-down" size={18} disabled={index === count - 1} onPress={() => onMove(index + 1)} accessibilityLabel="Move down" />
+    <IconButton icon="close" size={18} onPress={onRemove} accessibilityLabel="Remove" />
+  </Row>
+);
+
+/** Form for the settings of one block; every edit calls `onChange` with the whole updated block. */
+const BlockPropertiesPanel: React.FC<BlockPropertiesPanelProps> = ({ block, schema, onChange }) => {
+  const paperTheme = useTheme();
+  const fields = schemaFields(schema);
+  const valueFields = fields.filter((f) => f.type !== 'object' && f.type !== 'array');
+  const arrayFields = fields.filter((f) => f.type === 'array');
+  const update = (patch: Record<string, unknown>) => onChange({ ...block, ...patch } as TemplateBlock);
+  const styleEditor = block.type !== 'spacer' ? (
+    <StyleEditor style={(block as { style?: CSSStyle }).style} onChange={(style) => update({ style })} />
+  ) : null;
+
+  switch (block.type) {
+    case 'heading':
+      return (
+        <View style={{ gap: 8 }}>
+          <TemplateTextInput label="Text" value={block.text} onChange={(text) => update({ text })} fields={valueFields} />
+          <SegmentedButtons
+            density="small"
+            value={String(block.level || 2)}
+            onValueChange={(level) => update({ level: Number(level) })}
+            buttons={['1', '2', '3', '4'].map((level) => ({ value: level, label: `H${level}` }))}
+          />
+          {styleEditor}
+        </View>
+      );
+
+    case 'paragraph': {
+      const bound = block.text == null;
+      return (
+        <View style={{ gap: 8 }}>
+          <SegmentedButtons
+            density="small"
+            value={bound ? 'bind' : 'text'}
+            onValueChange={(mode) =>
+              update(mode === 'bind' ? { text: undefined, bind: { path: '' } } : { text: '', bind: undefined })
+            }
+            buttons={[
+              { value: 'text', label: 'Text', icon: 'format-text' },
+              { value: 'bind', label: 'Field value', icon: 'code-braces' },
+            ]}
+          />
+          {bound ? (
+            <BindPathPicker label="Field" value={block.bind?.path} onChange={(path) => update({ bind: { path } })} fields={valueFields} />
+          ) : (
+            <TemplateTextInput label="Text" value={block.text} onChange={(text) => update({ text })} fields={valueFields} multiline />
+          )}
+          <Row>
+            <PaperText variant="bodyMedium" style={{ flex: 1 }}>Markdown (**bold**, lists, links)</PaperText>
+            <Switch value={!!block.markdown} onValueChange={(markdown) => update({ markdown: markdown || undefined })} />
+          </Row>
+          {styleEditor}
+        </View>
+      );
+    }
+
+    case 'line': {
+      const parts = block.parts || [];
+      const setParts = (next: LinePart[]) => update({ parts: next });
+      return (
+        <View style={{ gap: 8 }}>
+          <SectionLabel>Parts (joined with spaces)</SectionLabel>
+          {parts.map((part, i) => {
+            const path = part.bind?.path ?? part.path;
+            return (
+              <View key={i} style={{ gap: 4 }}>
+                {path !== undefined ? (
+                  <BindPathPicker
+                    label={`Part ${i + 1}: field`}
+                    value={path}
+                    onChange={(p) => setParts(parts.map((x, k) => (k === i ? { bind: { path: p } } : x)))}
+                    fields={valueFields}
+                  />
+                ) : (
+                  <TextInput
+                    mode="outlined"
+                    dense
+                    label={`Part ${i + 1}: text`}
+                    value={part.text || ''}
+                    onChangeText={(text) => setParts(parts.map((x, k) => (k === i ? { text } : x)))}
+                  />
+                )}
+                <EntryActions
+                  index={i}
+                  count={parts.length}
+                  onMove={(to) => setParts(moveItem(parts, i, to))}
+                  onRemove={() => setParts(parts.filter((_, k) => k !== i))}
+                />
+              </View>
+            );
+          })}
+          <Row>
+            <Button compact icon="plus" onPress={() => setParts([...parts, { text: '' }])}>Text</Button>
+            <Button compact icon="plus" onPress={() => setParts([...parts, { bind: { path: '' } }])}>Field</Button>
+          </Row>
+          {styleEditor}
+        </View>
+      );
+    }
+
+    case 'list': {
+      const fromData = block.items === undefined;
+      const path = block.dataPath ?? block.sourcePath;
+      return (
+        <View style={{ gap: 8 }}>
+          <SegmentedButtons
+            density="small"
+            value={fromData ? 'data' : 'static'}
+            onValueChange={(mode) =>
+              update(
+                mode === 'data'
+                  ? { items: undefined, dataPath: arrayFields[0]?.path || '' }
+                  : { items: ['First item'], dataPath: undefined, sourcePath: undefined }
+              )
+            }
+            buttons={[
+              { value: 'data', label: 'From a list field' },
+              { value: 'static', label: 'Fixed items' },
+            ]}
+          />
+          {fromData ? (
+            <BindPathPicker
+              label="List field"
+              value={path}
+              onChange={(dataPath) => update({ dataPath, sourcePath: undefined })}
+              fields={arrayFields}
+            />
+          ) : (
+            <TextInput
+              mode="outlined"
+              dense
+              multiline
+              label="Items, one per line"
+              value={(block.items || []).map((item) => (typeof item === 'string' ? item : item.text ?? '')).join('\n')}
+              onChangeText={(text) => update({ items: text.split('\n') })}
+            />
+          )}
+          <Row>
+            <PaperText variant="bodyMedium" style={{ flex: 1 }}>Numbered</PaperText>
+            <Switch value={!!block.ordered} onValueChange={(ordered) => update({ ordered: ordered || undefined })} />
+          </Row>
+          {styleEditor}
+        </View>
+      );
+    }
+
+    case 'table': {
+      const columns = block.columns || [];
+      const dataPath = block.dataPath ?? block.sourcePath;
+      const columnFields = itemFields(schema, dataPath).filter((f) => f.type !== 'object' && f.type !== 'array');
+      const setColumns = (next: TableColumn[]) => update({ columns: next });
+      const setColumn = (i: number, patch: Partial<TableColumn>) =>
+        setColumns(columns.map((c, k) => (k === i ? ({ ...c, ...patch } as TableColumn) : c)));
+      return (
+        <View style={{ gap: 8 }}>
+          <BindPathPicker
+            label="Rows from list field"
+            value={dataPath}
+            onChange={(path) => update({ dataPath: path, sourcePath: undefined })}
+            fields={arrayFields}
+          />
+          <SectionLabel>Columns</SectionLabel>
+          {columns.map((column, i) => (
+            <View
+              key={i}
+              style={{ gap: 6, padding: 8, borderRadius: 8, borderWidth: 1, borderColor: paperTheme.colors.outlineVariant }}
+            >
+              <TextInput mode="outlined" dense label="Header" value={column.header} onChangeText={(header) => setColumn(i, { header })} />
+              <BindPathPicker label="Item field" value={column.path} onChange={(path) => setColumn(i, { path })} fields={columnFields} />
+              <SegmentedButtons
+                density="small"
+                value={column.align || 'left'}
+                onValueChange={(align) => setColumn(i, { align: align === 'left' ? undefined : (align as TableColumn['align']) })}
+                buttons={[
+                  { value: 'left', icon: 'format-align-left' },
+                  { value: 'center', icon: 'format-align-center' },
+                  { value: 'right', icon: 'format-align-right' },
+                ]}
+              />
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 4 }}>
+                {COLUMN_FORMATS.map((format) => (
+                  <Chip
+                    key={format}
+                    compact
+                    selected={column.format === format}
+                    onPress={() => setColumn(i, { format: column.format === format ? undefined : format })}
+                  >
+                    {format}
+                  </Chip>
+                ))}
+              </View>
+              <EntryActions
+                index={i}
+                count={columns.length}
+                onMove={(to) => setColumns(moveItem(columns, i, to))}
+                onRemove={() => setColumns(columns.filter((_, k) => k !== i))}
+              />
+            </View>
+          ))}
+          <Button compact icon="plus" onPress={() => setColumns([...columns, { header: 'Column', path: columnFields[0]?.path || '' }])}>
+            Column
+          </Button>
+          <TextInput
+            mode="outlined"
+            dense
+            label="Text when the list is empty"
+            value={block.emptyMessage || ''}
+            onChangeText={(emptyMessage) => update({ emptyMessage: emptyMessage || undefined })}
+          />
+          {styleEditor}
+        </View>
+      );
+    }
+
+    case 'keyValueTable':
+    case 'keyValueList': {
+      const rows = block.rows || [];
+      const setRows = (next: KeyValueRow[]) => update({ rows: next });
+      return (
+        <View style={{ gap: 8 }}>
+          <SectionLabel>Rows</SectionLabel>
+          {!rows.length && (
+            <PaperText variant="bodySmall" style={{ color: paperTheme.colors.onSurfaceVariant }}>
+              {valueFields.length
+                ? 'No rows yet. Each row shows a label and the value of one field.'
+                : 'The form has no fields to show yet. Add fields to the json_schema first.'}
+            </PaperText>
+          )}
+          {rows.map((row, i) => (
+            <View key={i} style={{ gap: 4 }}>
+              <TextInput
+                mode="outlined"
+                dense
+                label="Label"
+                value={row.label}
+                onChangeText={(label) => setRows(rows.map((r, k) => (k === i ? { ...r, label } : r)))}
+              />
+              <BindPathPicker
+                label="Field"
+                value={row.bind?.path ?? row.path}
+                onChange={(path) => {
+                  // Picking a field without a label yet takes the field's title
+                  const field = valueFields.find((f) => f.path === path);
+                  setRows(rows.map((r, k) => (k === i ? { label: r.label || field?.label || '', bind: { path } } : r)));
+                }}
+                fields={valueFields}
+              />
+              <EntryActions
+                index={i}
+                count={rows.length}
+                onMove={(to) => setRows(moveItem(rows, i, to))}
+                onRemove={() => setRows(rows.filter((_, k) => k !== i))}
+              />
+            </View>
+          ))}
+          <Button
+            compact
+            icon="plus"
+            disabled={!valueFields.length}
+            onPress={() => {
+              // A new row starts on the first field no row shows yet
+              const used = new Set(rows.map((r) => r.bind?.path ?? r.path));
+              const field = valueFields.find((f) => !used.has(f.path)) || valueFields[0];
+              setRows([...rows, { label: field.label, bind: { path: field.path } }]);
+            }}
+          >
+            Row
+          </Button>
+          {styleEditor}
+        </View>
+      );
+    }
+
+    case 'spacer':
+      return (
+        <TextInput
+          mode="outlined"
+          dense
+          label="Height (px)"
+          keyboardType="numeric"
+          value={String(block.size ?? '')}
+          onChangeText={(v) => update({ size: v.trim() === '' || isNaN(Number(v)) ? undefined : Number(v) })}
+        />
+      );
+
+    case 'signature':
+      return (
+        <View style={{ gap: 8 }}>
+          <TextOrBindInput label="Name" value={block.name} onChange={(name) => update({ name })} fields={valueFields} />
+          <TextOrBindInput label="Title" value={block.title} onChange={(title) => update({ title })} fields={valueFields} />
+          <BindPathPicker
+            label="Drawn signature field"
+            value={boundPath(block.image)}
+            onChange={(path) => update({ image: path ? { bind: { path } } : undefined })}
+            fields={fields.filter((f) => f.prop['x-widget'] === 'signature')}
+          />
+          <Row>
+            <PaperText variant="bodyMedium" style={{ flex: 1 }}>"Regards," above the signature</PaperText>
+            <Switch value={!!block.showRegards} onValueChange={(showRegards) => update({ showRegards: showRegards || undefined })} />
+          </Row>
+          {styleEditor}
+        </View>
+      );
+
+    case 'divider':
+      return <View style={{ gap: 8 }}>{styleEditor}</View>;
+
+    default:
+      return (
+        <PaperText variant="bodyMedium" style={{ color: paperTheme.colors.onSurfaceVariant }}>
+          {block.type} blocks are edited in the layout JSON. They can still be moved or removed here.
+        </PaperText>
+      );
+  }
+};
+
+export default BlockPropertiesPanel;
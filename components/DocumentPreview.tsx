@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { View } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { Text as PaperText, useTheme } from 'react-native-paper';
+import { FieldValues } from 'react-hook-form';
+import { Template } from '../lib/supabase';
+import { buildPreviewHtml } from '../utils/documentPreview';
+
+const PREVIEW_DELAY_MS = 400;
+
+interface DocumentPreviewProps {
+  template: Template;
+  values: FieldValues;
+  // Called with the form field name of a tapped placeholder
+  onFieldPress?: (path: string) => void;
+}
+
+// Renders the document for the current form values, re-rendering shortly after the user stops typing
+const DocumentPreview: React.FC<DocumentPreviewProps> = ({ template, values, onFieldPress }) => {
+  const paperTheme = useTheme();
+  const [html, setHtml] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      try {
+        setHtml(buildPreviewHtml(template, values));
+        setError(null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Preview could not be rendered');
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [template, values]);
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    try {
+      const message = JSON.parse(event.nativeEvent.data);
+      if (message?.type === 'focusField' && typeof message.path === 'string') onFieldPress?.(message.path);
+    } catch {
+      // Not one of our messages
+    }
+  };
+
+  if (error) {
+    return (
+      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 }}>
+        <PaperText variant="bodyMedium" style={{ color: paperTheme.colors.error, textAlign: 'center' }}>
+          {error}
+        </PaperText>
+      </View>
+    );
+  }
+
+  if (!html) return null;
+
+  return (
+    <WebView
+      originWhitelist={['*']}
+      source={{ html }}
+      onMessage={handleMessage}
+      javaScriptEnabled={true}
+      style={{ flex: 1, backgroundColor: '#ffffff' }}
+    />
+  );
+};
+
+export default DocumentPreview;
@@ -0,0 +1,117 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, Animated, PanResponder } from 'react-native';
+import { Icon, useTheme } from 'react-native-paper';
+
+interface DraggableListProps<T> {
+  items: T[];
+  keyExtractor: (item: T, index: number) => string;
+  // `handle` is the drag grip to place in the row
+  renderItem: (item: T, index: number, handle: React.ReactNode) => React.ReactNode;
+  // `to` is the item's index after the move, as for moveItem in utils/templateDesigner
+  onMove: (from: number, to: number) => void;
+  // Lets a surrounding ScrollView stop scrolling while a row is dragged
+  onDragActiveChange?: (active: boolean) => void;
+}
+
+interface RowLayout {
+  y: number;
+  height: number;
+}
+
+// A column of rows reordered by dragging their grip. The dragged row follows the finger and a bar marks where it
+// will land; rows may have different heights.
+function DraggableList<T>({ items, keyExtractor, renderItem, onMove, onDragActiveChange }: DraggableListProps<T>) {
+  const paperTheme = useTheme();
+  const layouts = useRef<RowLayout[]>([]);
+  const dragY = useRef(new Animated.Value(0)).current;
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [target, setTarget] = useState<number | null>(null);
+  const targetRef = useRef<number | null>(null);
+  // Responders outlive renders, so they read the latest callbacks from refs
+  const callbacks = useRef({ onMove, onDragActiveChange });
+  callbacks.current = { onMove, onDragActiveChange };
+
+  // Final index of the dragged row: the number of other rows whose middle is above the dragged row's middle
+  const targetIndex = (from: number, dy: number) => {
+    const row = layouts.current[from];
+    if (!row) return from;
+    const center = row.y + row.height / 2 + dy;
+    return layouts.current.filter((l, i) => i !== from && i < items.length && l.y + l.height / 2 < center).length;
+  };
+
+  const responders = useMemo(
+    () =>
+      items.map((_, index) => {
+        const finish = () => {
+          const to = targetRef.current;
+          targetRef.current = null;
+          dragY.setValue(0);
+          setDragging(null);
+          setTarget(null);
+          callbacks.current.onDragActiveChange?.(false);
+          if (to !== null && to !== index) callbacks.current.onMove(index, to);
+        };
+        return PanResponder.create({
+          onStartShouldSetPanResponder: () => true,
+          onMoveShouldSetPanResponder: () => true,
+          onPanResponderTerminationRequest: () => false,
+          onPanResponderGrant: () => {
+            dragY.setValue(0);
+            targetRef.current = index;
+            setDragging(index);
+            setTarget(index);
+            callbacks.current.onDragActiveChange?.(true);
+          },
+          onPanResponderMove: (_event, gesture) => {
+            dragY.setValue(gesture.dy);
+            const to = targetIndex(index, gesture.dy);
+            if (to !== targetRef.current) {
+              targetRef.current = to;
+              setTarget(to);
+            }
+          },
+          onPanResponderRelease: finish,
+          onPanResponderTerminate: finish,
+        });
+      }),
+    // Rows are matched to responders by index, so they only change when rows are added or removed
+    [items.length]
+  );
+
+  const marker = (position: 'top' | 'bottom') => (
+    <View
+      pointerEvents="none"
+      style={{ position: 'absolute', left: 0, right: 0, [position]: -3, height: 3, borderRadius: 2, backgroundColor: paperTheme.colors.primary }}
+    />
+  );
+
+  return (
+    <View>
+      {items.map((item, index) => {
+        const isDragged = dragging === index;
+        const handle = (
+          <View {...responders[index]?.panHandlers} style={{ padding: 8 }} accessibilityLabel="Drag to reorder">
+            <Icon source="drag" size={22} color={paperTheme.colors.onSurfaceVariant} />
+          </View>
+        );
+        return (
+          <View
+            key={keyExtractor(item, index)}
+            onLayout={(e) => {
+              layouts.current[index] = { y: e.nativeEvent.layout.y, height: e.nativeEvent.layout.height };
+            }}
+            style={{ zIndex: isDragged ? 10 : 0 }}
+          >
+            <Animated.View style={isDragged ? { transform: [{ translateY: dragY }], opacity: 0.9 } : undefined}>
+              {renderItem(item, index, handle)}
+            </Animated.View>
+            {dragging !== null && target === index && target < dragging && marker('top')}
+            {dragging !== null && target === index && target > dragging && marker('bottom')}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+export default DraggableList;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -7,7 +7,7 @@ import {
   ScrollView,
   Alert,
 } from 'react-native';
-import { useForm, Controller, FieldValues, useFieldArray } from 'react-hook-form';
+import { useForm, Controller, FieldValues, FieldErrors, useFieldArray } from 'react-hook-form';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import {
   TextInput as PaperTextInput,
@@ -20,42 +20,146 @@ import {
   Menu,
   Divider,
   IconButton,
+  ProgressBar,
+  Switch,
+  Chip,
+  List,
 } from 'react-native-paper';
-
-interface JSONSchemaProperty {
-  type: string;
-  title?: string;
-  format?: string;
-  enum?: string[];
-  items?: JSONSchemaProperty;
-  properties?: { [key: string]: JSONSchemaProperty };
-  required?: string[];
-}
-
-interface JSONSchema {
-  type: string;
-  properties: { [key: string]: JSONSchemaProperty };
-  required?: string[];
-}
+import { applyComputedFields, ComputedFields } from '../supabase/functions/_shared/render/templateComputed';
+import { JSONSchema, JSONSchemaBranch, JSONSchemaProperty, toLabel } from '../supabase/functions/_shared/render/schemaTemplate';
+import {
+  validateAgainstSchema,
+  coerceToSchemaType,
+  resolveActiveSchema,
+  dropHiddenFields,
+  SchemaValidationError,
+} from '../supabase/functions/_shared/render/schemaValidation';
+import { pad2, resolvePath } from '../supabase/functions/_shared/render/templateExpressions';
+import { getFormSteps, stepOfField, rootField, buildReviewRows } from '../utils/formSteps';
+import SignaturePad from './SignaturePad';
+import { Party } from '../lib/supabase';
+import { matchParties, partyAssignments } from '../utils/addressBook';
 
 interface DynamicFormGeneratorProps {
   schema: JSONSchema;
   onSubmit: (data: FieldValues) => void;
   loading?: boolean;
+  // TemplateConfig.computed; results are shown live while the user types
+  computed?: ComputedFields;
+  // Values to start from, e.g. a resumed draft
+  defaultValues?: FieldValues;
+  // Called on every edit with all current values (used to autosave drafts)
+  onValuesChange?: (values: FieldValues) => void;
+  // Field to focus (switching wizard step if needed); `at` makes repeated requests for one field distinct
+  focusRequest?: { path: string; at: number };
+  // The user's address book, offered on fields marked with `x-party`
+  parties?: Party[];
 }
 
+// Address book access for fields at any depth, without passing it through every FormField
+interface AddressBook {
+  parties: Party[];
+  pick: (name: string, party: Party) => void;
+}
+const AddressBookContext = createContext<AddressBook | null>(null);
+
+// Properties of the object holding `path`: `client.name` → client's properties, `items[0].name` → an item's
+const parentProperties = (schema: JSONSchemaBranch, path: string): Record<string, JSONSchemaProperty> => {
+  let props = schema.properties || {};
+  for (const segment of path.split('.').slice(0, -1)) {
+    const [key, index] = segment.split('[');
+    const prop = index !== undefined ? props[key]?.items : props[key];
+    props = prop?.properties || {};
+  }
+  return props;
+};
+
+const formatComputedValue = (v: unknown): string =>
+  typeof v === 'number' ? v.toLocaleString(undefined, { maximumFractionDigits: 2 }) : v == null ? '' : String(v);
+
 const getError = (errors: any, name: string) => {
   if (!name || !errors) return null;
   const parts = name.replace(/\[/g, '.').replace(/\]/g, '').split('.');
   return parts.reduce((obj, part) => obj && obj[part], errors);
 };
 
+// ---------------- Widget helpers ----------------
+type PickerFormat = 'date' | 'time' | 'date-time';
+const PICKER_FORMATS: string[] = ['date', 'time', 'date-time'];
+
+// Stored values: date `YYYY-MM-DD`, time `HH:mm`, date-time `YYYY-MM-DDTHH:mm` (local time)
+const toPickerValue = (d: Date, format: PickerFormat): string => {
+  const date = `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+  const time = `${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+  return format === 'date' ? date : format === 'time' ? time : `${date}T${time}`;
+};
+
+const fromPickerValue = (value: unknown, format: PickerFormat): Date | null => {
+  if (typeof value !== 'string' || !value) return null;
+  const d =
+    format === 'time'
+      ? new Date(`${toPickerValue(new Date(), 'date')}T${value}`)
+      : new Date(format === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00` : value);
+  return isNaN(d.getTime()) ? null : d;
+};
+
+const displayPickerValue = (value: unknown, format: PickerFormat): string => {
+  const d = fromPickerValue(value, format);
+  if (!d) return typeof value === 'string' ? value : '';
+  if (format === 'date') return d.toLocaleDateString();
+  const time = d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return format === 'time' ? time : `${d.toLocaleDateString()} ${time}`;
+};
+
+// Keeps the digits of `text` laid out on a mask such as "(###) ###-####"
+const applyMask = (text: string, mask: string): string => {
+  const digits = text.replace(/\D/g, '');
+  let out = '';
+  let i = 0;
+  for (const ch of mask) {
+    if (i >= digits.length) break;
+    if (ch === '#') out += digits[i++];
+    else out += ch;
+  }
+  return out;
+};
+
+// Currency is stored as a plain decimal string ("1234.5") and shown with locale grouping when not being edited
+const toCurrencyValue = (text: string): string => {
+  const cleaned = text.replace(/[^\d.-]/g, '');
+  const [whole, ...rest] = cleaned.split('.');
+  return rest.length ? `${whole}.${rest.join('').slice(0, 2)}` : whole;
+};
+
+const displayCurrency = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  const n = Number(value);
+  return isNaN(n) ? String(value) : n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
+
+const keyboardFor = (format?: string) => {
+  switch (format) {
+    case 'email':
+      return { keyboardType: 'email-address' as const, autoCapitalize: 'none' as const, autoComplete: 'email' as const };
+    case 'uri':
+      return { keyboardType: 'url' as const, autoCapitalize: 'none' as const, autoCorrect: false };
+    case 'tel':
+      return { keyboardType: 'phone-pad' as const, autoComplete: 'tel' as const };
+    default:
+      return {};
+  }
+};
+
 interface FormFieldProps {
   name: string;
   property: JSONSchemaProperty;
   control: any;
   errors: any;
   required: boolean;
+  computed?: ComputedFields;
+  computedData?: Record<string, any>;
+  // Current (coerced) values of the whole form, used to resolve conditional fields inside array items
+  values?: Record<string, any>;
 }
 
 const FormField: React.FC<FormFieldProps> = ({
@@ -64,55 +168,117 @@ const FormField: React.FC<FormFieldProps> = ({
   control,
   errors,
   required,
+  computed,
+  computedData,
+  values,
 }) => {
   const paperTheme = useTheme();
-  const [showDatePicker, setShowDatePicker] = useState(false);
+  // Open picker step; a date-time is picked as a date, then a time
+  const [pickerMode, setPickerMode] = useState<'date' | 'time' | null>(null);
+  const [pickedDate, setPickedDate] = useState<Date | null>(null);
   const [menuVisible, setMenuVisible] = useState(false);
+  const [editingCurrency, setEditingCurrency] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [partyMenuVisible, setPartyMenuVisible] = useState(false);
+  const addressBook = useContext(AddressBookContext);
+  const partyKind = addressBook ? property['x-party'] : undefined;
   const error = getError(errors, name);
+  const label = property.title || name;
+
+  const renderCurrency = () => (
+    <Controller
+      name={name}
+      control={control}
+      rules={{
+        required: required ? `${label} is required` : false,
+        pattern: { value: /^-?\d+(\.\d+)?$/, message: 'Please enter a valid amount' },
+      }}
+      render={({ field: { onChange, onBlur, value, ref } }) => (
+        <PaperTextInput
+          ref={ref}
+          mode="outlined"
+          label={label}
+          placeholder="0.00"
+          value={editingCurrency ? (value == null ? '' : String(value)) : displayCurrency(value)}
+          onFocus={() => setEditingCurrency(true)}
+          onChangeText={(text) => onChange(toCurrencyValue(text))}
+          onBlur={() => {
+            setEditingCurrency(false);
+            onBlur();
+          }}
+          keyboardType="decimal-pad"
+          left={property['x-currency'] ? <PaperTextInput.Affix text={property['x-currency']} /> : undefined}
+          error={!!error}
+        />
+      )}
+    />
+  );
+
+  const renderPicker = (format: PickerFormat) => (
+    <Controller
+      name={name}
+      control={control}
+      rules={{ required: required ? `${label} is required` : false }}
+      render={({ field: { onChange, value, ref } }) => {
+        const open = () => setPickerMode(format === 'time' ? 'time' : 'date');
+        return (
+          <View>
+            <PaperTextInput
+              ref={() => ref({ focus: open })}
+              mode="outlined"
+              label={label}
+              value={displayPickerValue(value, format)}
+              placeholder={format === 'time' ? 'Select time' : format === 'date' ? 'Select date' : 'Select date and time'}
+              editable={false}
+              right={<PaperTextInput.Icon icon={format === 'time' ? 'clock-outline' : 'calendar'} onPress={open} />}
+              onPressIn={open}
+              error={!!error}
+            />
+            {pickerMode && (
+              <DateTimePicker
+                value={pickedDate || fromPickerValue(value, format) || new Date()}
+                mode={pickerMode}
+                display="default"
+                onChange={(event, date) => {
+                  if (event.type === 'dismissed' || !date) {
+                    setPickerMode(null);
+                    setPickedDate(null);
+                  } else if (format === 'date-time' && pickerMode === 'date') {
+                    setPickedDate(date);
+                    setPickerMode('time');
+                  } else {
+                    setPickerMode(null);
+                    setPickedDate(null);
+                    onChange(toPickerValue(date, format));
+                  }
+                }}
+              />
+            )}
+          </View>
+        );
+      }}
+    />
+  );
 
   const renderField = () => {
+    if (property['x-widget'] === 'signature') {
+      return (
+        <Controller
+          name={name}
+          control={control}
+          rules={{ required: required ? `${label} is required` : false }}
+          render={({ field: { onChange, value } }) => (
+            <SignaturePad label={label} value={value || undefined} onChange={onChange} error={!!error} />
+          )}
+        />
+      );
+    }
+    if (property.format === 'currency') return renderCurrency();
+
     switch (property.type) {
       case 'string':
-        if (property.format === 'date') {
-          return (
-            <Controller
-              name={name}
-              control={control}
-              rules={{ required: required ? `${property.title || name} is required` : false }}
-              render={({ field: { onChange, value } }) => (
-                <View>
-                  <PaperTextInput
-                    mode="outlined"
-                    label={property.title || name}
-                    value={value ? new Date(value).toLocaleDateString() : ''}
-                    placeholder="Select date"
-                    editable={false}
-                    right={
-                      <PaperTextInput.Icon 
-                        icon="calendar" 
-                        onPress={() => setShowDatePicker(true)}
-                      />
-                    }
-                    onPressIn={() => setShowDatePicker(true)}
-                    error={!!error}
-                  />
-                  {showDatePicker && (
-                    <DateTimePicker
-                      value={value ? new Date(value) : new Date()}
-                      mode="date"
-                      display="default"
-                      onChange={(event, date) => {
-                        setShowDatePicker(false);
-                        if (date) {
-                          onChange(date.toISOString().split('T')[0]);
-                        }
-                      }}
-                    />
-                  )}
-                </View>
-              )}
-            />
-          );
+        if (property.format && PICKER_FORMATS.includes(property.format)) {
+          return renderPicker(property.format as PickerFormat);
         }
         
         if (property.enum) {
@@ -121,12 +287,13 @@ const FormField: React.FC<FormFieldProps> = ({
               name={name}
               control={control}
               rules={{ required: required ? `${property.title || name} is required` : false }}
-              render={({ field: { onChange, value } }) => (
+              render={({ field: { onChange, value, ref } }) => (
                 <Menu
                   visible={menuVisible}
                   onDismiss={() => setMenuVisible(false)}
                   anchor={
                     <PaperTextInput
+                      ref={() => ref({ focus: () => setMenuVisible(true) })}
                       mode="outlined"
                       label={property.title || name}
                       value={value || ''}
@@ -164,19 +331,58 @@ const FormField: React.FC<FormFieldProps> = ({
             name={name}
             control={control}
             rules={{ required: required ? `${property.title || name} is required` : false }}
-            render={({ field: { onChange, onBlur, value } }) => (
-              <PaperTextInput
-                mode="outlined"
-                label={property.title || name}
-                placeholder={`Enter ${property.title || name}`}
-                value={value || ''}
-                onChangeText={onChange}
-                onBlur={onBlur}
-                multiline={name.includes('body') || name.includes('content')}
-                numberOfLines={name.includes('body') || name.includes('content') ? 4 : 1}
-                error={!!error}
-              />
-            )}
+            render={({ field: { onChange, onBlur, value, ref } }) => {
+              const longText =
+                property['x-widget'] === 'textarea' || property.format === 'textarea' ||
+                name.includes('body') || name.includes('content');
+              const mask = property.format === 'tel' ? property['x-mask'] : undefined;
+              const suggestions =
+                partyKind && showSuggestions
+                  ? matchParties(addressBook!.parties, partyKind, value || '').filter((p) => p.name !== value)
+                  : [];
+              return (
+                <View>
+                  <PaperTextInput
+                    ref={ref}
+                    mode="outlined"
+                    label={property.title || name}
+                    placeholder={mask ? mask.replace(/#/g, '0') : `Enter ${property.title || name}`}
+                    value={value || ''}
+                    onChangeText={(text) =>
+                      onChange(mask ? applyMask(text, mask) : property.format === 'tel' ? text.replace(/[^\d+()\s.-]/g, '') : text)
+                    }
+                    onFocus={() => setShowSuggestions(true)}
+                    onBlur={() => {
+                      setShowSuggestions(false);
+                      onBlur();
+                    }}
+                    multiline={longText}
+                    numberOfLines={longText ? 6 : 1}
+                    style={longText ? { minHeight: 140 } : undefined}
+                    maxLength={property.maxLength}
+                    right={partyKind ? <PaperTextInput.Icon icon="account-search-outline" /> : undefined}
+                    {...keyboardFor(property.format)}
+                    error={!!error}
+                  />
+                  {suggestions.length > 0 && (
+                    <Surface style={{ marginTop: 4, borderRadius: 4 }} elevation={2}>
+                      {suggestions.map((party) => (
+                        <List.Item
+                          key={party.id}
+                          title={party.name}
+                          description={[party.company, party.email].filter(Boolean).join(' · ') || undefined}
+                          left={(props) => <List.Icon {...props} icon="account-outline" />}
+                          onPress={() => {
+                            setShowSuggestions(false);
+                            addressBook!.pick(name, party);
+                          }}
+                        />
+                      ))}
+                    </Surface>
+                  )}
+                </View>
+              );
+            }}
           />
         );
         
@@ -193,8 +399,9 @@ const FormField: React.FC<FormFieldProps> = ({
                 message: property.type === 'number' ? 'Please enter a valid number' : 'Please enter a valid integer'
               }
             }}
-            render={({ field: { onChange, onBlur, value } }) => (
+            render={({ field: { onChange, onBlur, value, ref } }) => (
               <PaperTextInput
+                ref={ref}
                 mode="outlined"
                 label={property.title || name}
                 placeholder={`Enter ${property.title || name}`}
@@ -208,16 +415,82 @@ const FormField: React.FC<FormFieldProps> = ({
           />
         );
         
+      case 'boolean':
+        // Always submitted, so an untouched switch counts as "No" rather than missing
+        return (
+          <Controller
+            name={name}
+            control={control}
+            defaultValue={false}
+            render={({ field: { onChange, value } }) => (
+              <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingVertical: 4 }}>
+                <View style={{ flex: 1, marginRight: 12 }}>
+                  <PaperText variant="bodyLarge">{label}</PaperText>
+                  {property.description && (
+                    <PaperText variant="bodySmall" style={{ color: paperTheme.colors.onSurfaceVariant }}>
+                      {property.description}
+                    </PaperText>
+                  )}
+                </View>
+                <Switch value={value === true || value === 'true'} onValueChange={onChange} />
+              </View>
+            )}
+          />
+        );
+
       case 'array':
+        if (property.items?.enum) {
+          const options = property.items.enum;
+          return (
+            <Controller
+              name={name}
+              control={control}
+              defaultValue={[]}
+              rules={{
+                validate: (v) => !required || (Array.isArray(v) && v.length > 0) || `${label} is required`,
+              }}
+              render={({ field: { onChange, value } }) => {
+                const selected: string[] = Array.isArray(value) ? value : [];
+                const toggle = (option: string) =>
+                  onChange(
+                    selected.includes(option)
+                      ? selected.filter((o) => o !== option)
+                      : options.filter((o) => o === option || selected.includes(o))
+                  );
+                return (
+                  <View>
+                    <PaperText variant="bodyMedium" style={{ marginBottom: 8, color: error ? paperTheme.colors.error : paperTheme.colors.onSurfaceVariant }}>
+                      {label}
+                    </PaperText>
+                    <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+                      {options.map((option) => (
+                        <Chip
+                          key={option}
+                          selected={selected.includes(option)}
+                          showSelectedOverlay
+                          onPress={() => toggle(option)}
+                        >
+                          {option}
+                        </Chip>
+                      ))}
+                    </View>
+                  </View>
+                );
+              }}
+            />
+          );
+        }
+
         if (property.items?.type === 'string') {
           return (
             <Controller
               name={name}
               control={control}
               rules={{ required: required ? `${property.title || name} is required` : false }}
-              render={({ field: { onChange, onBlur, value } }) => (
+              render={({ field: { onChange, onBlur, value, ref } }) => (
                 <View>
                   <PaperTextInput
+                    ref={ref}
                     mode="outlined"
                     label={property.title || name}
                     placeholder={`Enter ${property.title || name} (JSON format or comma-separated)`}
@@ -259,29 +532,50 @@ const FormField: React.FC<FormFieldProps> = ({
             }
             return acc;
           }, {} as Record<string, any>);
+          // Per-item computed fields are declared as `${name}[].field`
+          const itemComputedFields = Object.keys(computed || {})
+            .filter((key) => key.startsWith(`${name}[].`))
+            .map((key) => key.slice(name.length + 3));
+          const computedItems = computedData?.[name];
+          const itemValues = resolvePath(values, name);
+          const items = property.items;
+          // Each item can take a different conditional branch
+          const itemSchemaAt = (index: number) =>
+            resolveActiveSchema(items, Array.isArray(itemValues) ? itemValues[index] : undefined);
 
           return (
             <Surface style={{ padding: 12, borderRadius: 8, backgroundColor: paperTheme.colors.surfaceVariant, marginVertical: 8 }}>
               <PaperText variant="titleMedium" style={{ marginBottom: 8 }}>{property.title || name}</PaperText>
-              {fields.map((item, index) => (
-                <Card key={item.id} style={{ marginBottom: 12, padding: 12, backgroundColor: paperTheme.colors.surface }}>
-                  <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
-                    <PaperText variant="bodyLarge" style={{fontWeight: 'bold'}}>Item {index + 1}</PaperText>
-                    <IconButton icon="delete-outline" onPress={() => remove(index)} size={20} />
-                  </View>
-                  <Divider style={{marginBottom: 12}} />
-                  {Object.entries(itemProperties).map(([propName, propInfo]) => (
-                    <FormField
-                      key={propName}
-                      name={`${name}[${index}].${propName}`}
-                      property={propInfo}
-                      control={control}
-                      errors={errors}
-                      required={property.items?.required?.includes(propName) || false}
-                    />
-                  ))}
-                </Card>
-              ))}
+              {fields.map((item, index) => {
+                const itemSchema = itemSchemaAt(index);
+                return (
+                  <Card key={item.id} style={{ marginBottom: 12, padding: 12, backgroundColor: paperTheme.colors.surface }}>
+                    <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                      <PaperText variant="bodyLarge" style={{fontWeight: 'bold'}}>Item {index + 1}</PaperText>
+                      <IconButton icon="delete-outline" onPress={() => remove(index)} size={20} />
+                    </View>
+                    <Divider style={{marginBottom: 12}} />
+                    {Object.entries(itemSchema.properties || {}).map(([propName, propInfo]) => (
+                      <FormField
+                        key={propName}
+                        name={`${name}[${index}].${propName}`}
+                        property={propInfo}
+                        control={control}
+                        errors={errors}
+                        required={itemSchema.required?.includes(propName) || false}
+                      />
+                    ))}
+                    {itemComputedFields.map((field) => (
+                      <View key={field} style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                        <PaperText variant="bodyMedium">{toLabel(field)}</PaperText>
+                        <PaperText variant="bodyMedium" style={{ fontWeight: 'bold' }}>
+                          {formatComputedValue(Array.isArray(computedItems) ? computedItems[index]?.[field] : undefined)}
+                        </PaperText>
+                      </View>
+                    ))}
+                  </Card>
+                );
+              })}
               <Button mode="contained-tonal" onPress={() => append(defaultItem)} style={{ marginTop: 8 }} icon="plus">
                 Add Item
               </Button>
@@ -290,6 +584,57 @@ const FormField: React.FC<FormFieldProps> = ({
         }
         
         return <PaperText>Unsupported array type in form.</PaperText>;
+
+      case 'object':
+        // Sub-fields are named `${name}.field`; `property` is already resolved for the current values
+        return (
+          <Surface style={{ padding: 12, borderRadius: 8, backgroundColor: paperTheme.colors.surfaceVariant, marginVertical: 8 }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8 }}>
+              <PaperText variant="titleMedium" style={{ flex: 1 }}>{property.title || name}</PaperText>
+              {partyKind && (
+                <Menu
+                  visible={partyMenuVisible}
+                  onDismiss={() => setPartyMenuVisible(false)}
+                  anchor={
+                    <Button compact icon="account-search-outline" onPress={() => setPartyMenuVisible(true)}>
+                      Address book
+                    </Button>
+                  }
+                >
+                  {matchParties(addressBook!.parties, partyKind, '', 20).map((party) => (
+                    <Menu.Item
+                      key={party.id}
+                      title={party.name}
+                      onPress={() => {
+                        setPartyMenuVisible(false);
+                        addressBook!.pick(name, party);
+                      }}
+                    />
+                  ))}
+                  {!matchParties(addressBook!.parties, partyKind, '').length && (
+                    <Menu.Item title={`No saved ${partyKind}s yet`} disabled />
+                  )}
+                </Menu>
+              )}
+            </View>
+            {property.description && (
+              <PaperText variant="bodySmall" style={{ marginBottom: 8, color: paperTheme.colors.onSurfaceVariant }}>
+                {property.description}
+              </PaperText>
+            )}
+            {Object.entries(property.properties || {}).map(([propName, propInfo]) => (
+              <FormField
+                key={propName}
+                name={`${name}.${propName}`}
+                property={propInfo}
+                control={control}
+                errors={errors}
+                required={property.required?.includes(propName) || false}
+                values={values}
+              />
+            ))}
+          </Surface>
+        );
         
       default:
         return (
@@ -297,8 +642,9 @@ const FormField: React.FC<FormFieldProps> = ({
             name={name}
             control={control}
             rules={{ required: required ? `${property.title || name} is required` : false }}
-            render={({ field: { onChange, onBlur, value } }) => (
+            render={({ field: { onChange, onBlur, value, ref } }) => (
               <PaperTextInput
+                ref={ref}
                 mode="outlined"
                 label={property.title || name}
                 placeholder={`Enter ${property.title || name}`}
@@ -316,7 +662,7 @@ const FormField: React.FC<FormFieldProps> = ({
   return (
     <View style={{ marginBottom: 16 }}>
       {renderField()}
-      {error && (
+      {typeof error?.message === 'string' && (
         <HelperText type="error" visible={!!error}>
           {error?.message as string}
         </HelperText>
@@ -329,84 +675,298 @@ const DynamicFormGenerator: React.FC<DynamicFormGeneratorProps> = ({
   schema,
   onSubmit,
   loading = false,
+  computed,
+  defaultValues,
+  onValuesChange,
+  focusRequest,
+  parties,
 }) => {
+  const paperTheme = useTheme();
   const {
     control,
     handleSubmit,
     formState: { errors },
     reset,
-  } = useForm();
+    watch,
+    setError,
+    clearErrors,
+    trigger,
+    getValues,
+    setFocus,
+    setValue,
+  } = useForm({ defaultValues });
+
+  const values = watch();
+
+  useEffect(() => {
+    if (!onValuesChange) return;
+    const subscription = watch((current) => onValuesChange(current as FieldValues));
+    return () => subscription.unsubscribe();
+  }, [watch, onValuesChange]);
+  // Fields shown right now: if/then/else, dependentSchemas and x-visibleWhen are resolved against the live values
+  const inputs = coerceToSchemaType(values, { ...schema, type: 'object' });
+  const activeSchema = resolveActiveSchema(schema, inputs);
+  const requiredFields = activeSchema.required || [];
+  const computedData = computed ? applyComputedFields(values, computed) : undefined;
+  const topLevelComputed = Object.keys(computed || {}).filter((key) => !key.includes('[]'));
+
+  // Wizard mode: one page per step plus a review page (stepIndex === steps.length) before generating
+  const steps = useMemo(() => getFormSteps(schema), [schema]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const isReview = !!steps && stepIndex === steps.length;
+  const stepFields = steps && !isReview ? steps[stepIndex].fields.filter((f) => f in activeSchema.properties) : null;
+
+  // Focus after the step holding the field has rendered, so its input is registered
+  const [pendingFocus, setPendingFocus] = useState<string | null>(null);
+  useEffect(() => {
+    if (!focusRequest) return;
+    if (steps) {
+      const target = stepOfField(steps, focusRequest.path);
+      if (target >= 0) setStepIndex(target);
+    }
+    setPendingFocus(focusRequest.path);
+  }, [focusRequest]);
+  useEffect(() => {
+    if (!pendingFocus) return;
+    setFocus(pendingFocus);
+    setPendingFocus(null);
+  }, [pendingFocus, stepIndex]);
 
-  const requiredFields = schema.required || [];
+  // Shows schema errors under their fields; returns the messages that belong to no field
+  const showSchemaErrors = (schemaErrors: SchemaValidationError[]): string[] => {
+    const placed = new Set<string>();
+    const unplaced: string[] = [];
+    for (const e of schemaErrors) {
+      // Entries of a comma-separated list have no input of their own, so they are shown on the list field
+      const field = e.path.replace(/\[\d+\]$/, '');
+      if (!field) {
+        unplaced.push(e.message);
+      } else if (!placed.has(field)) {
+        placed.add(field);
+        setError(field, { type: e.keyword, message: e.message }, { shouldFocus: placed.size === 1 });
+      }
+    }
+    return unplaced;
+  };
 
   const handleFormSubmit = (data: FieldValues) => {
-    // Validate required fields
-    const missingFields = requiredFields.filter(field => !data[field] || data[field] === '');
-    if (missingFields.length > 0) {
-      Alert.alert(
-        'Missing Required Fields',
-        `Please fill in the following required fields: ${missingFields.join(', ')}`
-      );
+    // Same checks as the generate-document edge function; each error is shown under its field
+    const submitted = coerceToSchemaType(data, { ...schema, type: 'object' });
+    const schemaErrors = validateAgainstSchema(schema, submitted);
+    if (schemaErrors.length > 0) {
+      clearErrors();
+      if (steps) {
+        const errorStep = stepOfField(steps, schemaErrors[0].path);
+        if (errorStep >= 0) setStepIndex(errorStep);
+      }
+      const unplaced = showSchemaErrors(schemaErrors);
+      if (unplaced.length > 0) Alert.alert('Invalid Form', unplaced.join('\n'));
       return;
     }
 
-    onSubmit(data);
+    // Values of fields hidden by a condition are not submitted
+    onSubmit(dropHiddenFields(schema, submitted));
+  };
+
+  // Field rules failing on submit: go back to the step holding the first invalid field
+  const handleInvalid = (fieldErrors: FieldErrors) => {
+    const first = Object.keys(fieldErrors)[0];
+    if (steps && first) {
+      const errorStep = stepOfField(steps, first);
+      if (errorStep >= 0) setStepIndex(errorStep);
+    }
+  };
+
+  const handleNext = async () => {
+    if (!steps || !stepFields) return;
+    clearErrors(stepFields);
+    const rulesPassed = stepFields.length ? await trigger(stepFields) : true;
+    const current = coerceToSchemaType(getValues(), { ...schema, type: 'object' });
+    const stepErrors = validateAgainstSchema(schema, current).filter((e) => stepFields.includes(rootField(e.path)));
+    if (!rulesPassed || stepErrors.length > 0) {
+      showSchemaErrors(stepErrors);
+      return;
+    }
+    setStepIndex(stepIndex + 1);
   };
 
+  const handleBack = () => setStepIndex(Math.max(0, stepIndex - 1));
+
   const handleReset = () => {
     Alert.alert(
       'Reset Form',
       'Are you sure you want to reset all fields?',
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Reset', style: 'destructive', onPress: () => reset() },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: () => {
+            reset();
+            setStepIndex(0);
+          },
+        },
       ]
     );
   };
 
+  // Picking a party on an `x-party` object fills its sub-fields; on a text field, it and its same-kind siblings
+  const addressBook: AddressBook | null = parties
+    ? {
+        parties,
+        pick: (name, party) => {
+          const siblings = parentProperties(activeSchema, name);
+          const prop = siblings[name.slice(name.lastIndexOf('.') + 1)];
+          const isObject = prop?.type === 'object' && !!prop.properties;
+          const targets = isObject ? prop.properties! : siblings;
+          const prefix = isObject ? `${name}.` : name.slice(0, name.lastIndexOf('.') + 1);
+          for (const [key, value] of Object.entries(partyAssignments(targets, party, !isObject))) {
+            setValue(`${prefix}${key}`, value, { shouldDirty: true });
+          }
+        },
+      }
+    : null;
+
+  const renderFields = (fieldNames: string[]) =>
+    fieldNames.map((fieldName) => (
+      <FormField
+        key={fieldName}
+        name={fieldName}
+        property={activeSchema.properties[fieldName]}
+        control={control}
+        errors={errors}
+        required={requiredFields.includes(fieldName)}
+        computed={computed}
+        computedData={computedData}
+        values={inputs}
+      />
+    ));
+
+  const renderReview = () =>
+    steps!.map((step, index) => {
+      const rows = buildReviewRows(activeSchema.properties, step.fields, inputs);
+      if (!rows.length) return null;
+      return (
+        <Card key={step.key} style={{ marginBottom: 12 }}>
+          <Card.Title
+            title={step.title}
+            right={() => (
+              <Button compact onPress={() => setStepIndex(index)} disabled={loading}>
+                Edit
+              </Button>
+            )}
+          />
+          <Card.Content>
+            {rows.map((row) => (
+              <View key={row.label} style={{ flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 4, gap: 12 }}>
+                <PaperText variant="bodyMedium" style={{ flex: 1, color: paperTheme.colors.onSurfaceVariant }}>{row.label}</PaperText>
+                <PaperText variant="bodyMedium" style={{ flex: 1, textAlign: 'right' }}>{row.value}</PaperText>
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+      );
+    });
+
+  const showComputed = topLevelComputed.length > 0 && (!steps || isReview);
+
   return (
-    <ScrollView style={{ flex: 1 }} showsVerticalScrollIndicator={false}>
-      <View style={{ padding: 16 }}>
-        {schema && schema.properties ? (
-          Object.entries(schema.properties).map(([fieldName, property]) => (
-            <FormField
-              key={fieldName}
-              name={fieldName}
-              property={property}
-              control={control}
-              errors={errors}
-              required={requiredFields.includes(fieldName)}
-            />
-          ))
-        ) : (
-          <PaperText>This template has no configurable fields.</PaperText>
-        )}
+    <AddressBookContext.Provider value={addressBook}>
+      <ScrollView style={{ flex: 1 }} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <View style={{ padding: 16 }}>
+          {steps && (
+            <View style={{ marginBottom: 16 }}>
+              <PaperText variant="labelLarge" style={{ color: paperTheme.colors.onSurfaceVariant }}>
+                Step {stepIndex + 1} of {steps.length + 1}
+              </PaperText>
+              <PaperText variant="titleLarge" style={{ marginVertical: 4 }}>
+                {isReview ? 'Review' : steps[stepIndex].title}
+              </PaperText>
+              {!isReview && steps[stepIndex].description && (
+                <PaperText variant="bodyMedium" style={{ color: paperTheme.colors.onSurfaceVariant, marginBottom: 4 }}>
+                  {steps[stepIndex].description}
+                </PaperText>
+              )}
+              <ProgressBar progress={(stepIndex + 1) / (steps.length + 1)} style={{ marginTop: 8, borderRadius: 4 }} />
+            </View>
+          )}
+
+          {!schema || !schema.properties ? (
+            <PaperText>This template has no configurable fields.</PaperText>
+          ) : isReview ? (
+            renderReview()
+          ) : (
+            renderFields(stepFields || Object.keys(activeSchema.properties))
+          )}
+
+          {showComputed && (
+            <Card style={{ marginTop: 8 }}>
+              <Card.Title title="Calculated Values" />
+              <Card.Content>
+                {topLevelComputed.map((key) => (
+                  <View key={key} style={{ flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 4 }}>
+                    <PaperText variant="bodyMedium">{toLabel(key)}</PaperText>
+                    <PaperText variant="bodyMedium" style={{ fontWeight: 'bold' }}>
+                      {formatComputedValue(computedData?.[key])}
+                    </PaperText>
+                  </View>
+                ))}
+              </Card.Content>
+            </Card>
+          )}
         
-        <Surface style={{ padding: 16, marginTop: 16, borderRadius: 8 }}>
-          <View style={{ flexDirection: 'row', gap: 12 }}>
-            <Button
-              mode="outlined"
-              onPress={handleReset}
-              disabled={loading}
-              style={{ flex: 1 }}
-              icon="refresh"
-            >
-              Reset
-            </Button>
+          <Surface style={{ padding: 16, marginTop: 16, borderRadius: 8 }}>
+            <View style={{ flexDirection: 'row', gap: 12 }}>
+              {steps && stepIndex > 0 ? (
+                <Button
+                  mode="outlined"
+                  onPress={handleBack}
+                  disabled={loading}
+                  style={{ flex: 1 }}
+                  icon="arrow-left"
+                >
+                  Back
+                </Button>
+              ) : (
+                <Button
+                  mode="outlined"
+                  onPress={handleReset}
+                  disabled={loading}
+                  style={{ flex: 1 }}
+                  icon="refresh"
+                >
+                  Reset
+                </Button>
+              )}
             
-            <Button
-                mode="contained"
-                onPress={handleSubmit(handleFormSubmit)}                disabled={loading}
-                loading={loading}
-                style={{ flex: 1 }}
-                icon="file-document"
-              >
-                {loading ? 'Generating...' : 'Generate Document'}
-              </Button>
-          </View>
-        </Surface>
-      </View>
-    </ScrollView>
+              {steps && !isReview ? (
+                <Button
+                  mode="contained"
+                  onPress={handleNext}
+                  disabled={loading}
+                  style={{ flex: 1 }}
+                  icon="arrow-right"
+                  contentStyle={{ flexDirection: 'row-reverse' }}
+                >
+                  {stepIndex === steps.length - 1 ? 'Review' : 'Next'}
+                </Button>
+              ) : (
+                <Button
+                  mode="contained"
+                  onPress={handleSubmit(handleFormSubmit, handleInvalid)}
+                  disabled={loading}
+                  loading={loading}
+                  style={{ flex: 1 }}
+                  icon="file-document"
+                >
+                  {loading ? 'Generating...' : 'Generate Document'}
+                </Button>
+              )}
+            </View>
+          </Surface>
+        </View>
+      </ScrollView>
+    </AddressBookContext.Provider>
   );
 };
 
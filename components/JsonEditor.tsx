@@ -0,0 +1,44 @@
+import React from 'react';
+import { TextInput, HelperText } from 'react-native-paper';
+
+interface JsonEditorProps {
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  error?: string | null; // parse error, shown under the editor
+  minHeight?: number;
+}
+
+// Multiline monospace input for JSON, with autocorrect and capitalisation off so keys are not altered
+const JsonEditor: React.FC<JsonEditorProps> = ({ label, value, onChangeText, error, minHeight = 240 }) => (
+  <>
+    <TextInput
+      mode="outlined"
+      label={label}
+      multiline
+      value={value}
+      onChangeText={onChangeText}
+      autoCapitalize="none"
+      autoCorrect={false}
+      spellCheck={false}
+      style={{ minHeight, fontFamily: 'monospace', fontSize: 13 }}
+      error={!!error}
+    />
+    {error ? (
+      <HelperText type="error" visible>
+        {error}
+      </HelperText>
+    ) : null}
+  </>
+);
+
+// Parsed JSON text, or the parser's message
+export const parseJson = (text: string): { value: any; error: string | null } => {
+  try {
+    return { value: JSON.parse(text), error: null };
+  } catch (e) {
+    return { value: null, error: e instanceof Error ? e.message : 'Invalid JSON' };
+  }
+};
+
+export default JsonEditor;
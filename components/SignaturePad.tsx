@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+import { View, Image } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import type { WebView as WebViewType } from 'react-native-webview';
+import { Button, Card, Modal, Portal, Text as PaperText, useTheme } from 'react-native-paper';
+
+interface SignaturePadProps {
+  label: string;
+  value?: string; // PNG data URI
+  onChange: (value: string) => void;
+  error?: boolean;
+}
+
+// A canvas drawn on with a finger; `exportPad()` posts the drawing as a PNG data URI (or `empty`)
+const PAD_HTML = `<!DOCTYPE html>
+<html>
+  <head>
+    <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no" />
+    <style>
+      html, body { margin: 0; height: 100%; overflow: hidden; background: #ffffff; }
+      canvas { width: 100%; height: 100%; touch-action: none; display: block; }
+    </style>
+  </head>
+  <body>
+    <canvas id="pad"></canvas>
+    <script>
+      var canvas = document.getElementById('pad');
+      var ctx = canvas.getContext('2d');
+      var drawing = false;
+      var dirty = false;
+      function resize() {
+        var ratio = window.devicePixelRatio || 1;
+        canvas.width = canvas.clientWidth * ratio;
+        canvas.height = canvas.clientHeight * ratio;
+        ctx.scale(ratio, ratio);
+        ctx.lineWidth = 2.5;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.strokeStyle = '#111827';
+      }
+      function point(e) {
+        var rect = canvas.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      }
+      canvas.addEventListener('pointerdown', function (e) {
+        drawing = true;
+        var p = point(e);
+        ctx.beginPath();
+        ctx.moveTo(p.x, p.y);
+      });
+      canvas.addEventListener('pointermove', function (e) {
+        if (!drawing) return;
+        var p = point(e);
+        ctx.lineTo(p.x, p.y);
+        ctx.stroke();
+        dirty = true;
+      });
+      ['pointerup', 'pointerleave', 'pointercancel'].forEach(function (type) {
+        canvas.addEventListener(type, function () { drawing = false; });
+      });
+      window.clearPad = function () {
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        dirty = false;
+      };
+      window.exportPad = function () {
+        window.ReactNativeWebView.postMessage(dirty ? canvas.toDataURL('image/png') : 'empty');
+      };
+      resize();
+    </script>
+  </body>
+</html>`;
+
+// Shows the captured signature with buttons to (re)sign or clear it; signing happens in a full-width modal
+const SignaturePad: React.FC<SignaturePadProps> = ({ label, value, onChange, error }) => {
+  const paperTheme = useTheme();
+  const padRef = useRef<WebViewType>(null);
+  const [visible, setVisible] = useState(false);
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    const data = event.nativeEvent.data;
+    if (data.startsWith('data:image/png;base64,')) onChange(data);
+    setVisible(false);
+  };
+
+  return (
+    <View>
+      <PaperText variant="bodyMedium" style={{ marginBottom: 8, color: error ? paperTheme.colors.error : paperTheme.colors.onSurfaceVariant }}>
+        {label}
+      </PaperText>
+      <View
+        style={{
+          height: 100,
+          borderWidth: 1,
+          borderRadius: 4,
+          borderColor: error ? paperTheme.colors.error : paperTheme.colors.outline,
+          backgroundColor: '#ffffff',
+          justifyContent: 'center',
+          alignItems: 'center',
+        }}
+      >
+        {value ? (
+          <Image source={{ uri: value }} style={{ width: '100%', height: '100%' }} resizeMode="contain" />
+        ) : (
+          <PaperText variant="bodySmall" style={{ color: paperTheme.colors.onSurfaceVariant }}>Not signed yet</PaperText>
+        )}
+      </View>
+      <View style={{ flexDirection: 'row', gap: 8, marginTop: 8 }}>
+        <Button mode="outlined" icon="draw" onPress={() => setVisible(true)} style={{ flex: 1 }}>
+          {value ? 'Sign again' : 'Sign'}
+        </Button>
+        {value ? (
+          <Button mode="text" onPress={() => onChange('')}>
+            Clear
+          </Button>
+        ) : null}
+      </View>
+
+      <Portal>
+        <Modal visible={visible} onDismiss={() => setVisible(false)}>
+          <Card style={{ margin: 16 }}>
+            <Card.Title title={label} subtitle="Sign inside the box" />
+            <View style={{ height: 220, marginHorizontal: 16, borderWidth: 1, borderColor: paperTheme.colors.outline }}>
+              <WebView
+                ref={padRef}
+                originWhitelist={['*']}
+                source={{ html: PAD_HTML }}
+                onMessage={handleMessage}
+                javaScriptEnabled={true}
+                scrollEnabled={false}
+              />
+            </View>
+            <Card.Actions>
+              <Button onPress={() => padRef.current?.injectJavaScript('window.clearPad(); true;')}>Clear</Button>
+              <Button onPress={() => setVisible(false)}>Cancel</Button>
+              <Button mode="contained" onPress={() => padRef.current?.injectJavaScript('window.exportPad(); true;')}>
+                Use signature
+              </Button>
+            </Card.Actions>
+          </Card>
+        </Modal>
+      </Portal>
+    </View>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FieldValues } from 'react-hook-form';
+import { useAuth } from './useAuth';
+import { FormDraft, saveDraft, loadDraft, discardDraft } from '../utils/formDrafts';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+interface FormDraftResult {
+  draft: FormDraft | null; // the draft being resumed, once loaded
+  loading: boolean;
+  lastSavedAt: string | null;
+  autosave: (values: FieldValues) => void;
+  discard: () => Promise<void>;
+}
+
+// Autosaves the inputs of one template form (debounced) and, when `resume` is set, loads the stored draft first
+export function useFormDraft(templateId: string | undefined, templateName: string, resume: boolean): FormDraftResult {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<FormDraft | null>(null);
+  const [loading, setLoading] = useState(resume);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pending = useRef<FormDraft | null>(null);
+  // Saves run one after another; discard waits for the last one so a late upsert can't bring the draft back
+  const saving = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    if (!resume || !user || !templateId) {
+      setLoading(false);
+      return;
+    }
+    loadDraft(user.id, templateId).then((loaded) => {
+      setDraft(loaded);
+      setLoading(false);
+    });
+  }, [resume, user, templateId]);
+
+  const flush = useCallback(() => {
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = null;
+    const next = pending.current;
+    pending.current = null;
+    if (next && user) {
+      saving.current = saving.current
+        .then(() => saveDraft(user.id, next))
+        .catch((error) => console.warn('Draft autosave failed:', error));
+      setLastSavedAt(next.updatedAt);
+    }
+  }, [user]);
+
+  // Save whatever is pending when the form is left before the delay has passed
+  useEffect(() => flush, [flush]);
+
+  const autosave = useCallback(
+    (values: FieldValues) => {
+      if (!templateId) return;
+      pending.current = { templateId, templateName, values, updatedAt: new Date().toISOString() };
+      if (timer.current) clearTimeout(timer.current);
+      timer.current = setTimeout(flush, AUTOSAVE_DELAY_MS);
+    },
+    [templateId, templateName, flush]
+  );
+
+  const discard = useCallback(async () => {
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = null;
+    pending.current = null;
+    await saving.current;
+    if (user && templateId) await discardDraft(user.id, templateId);
+    setLastSavedAt(null);
+  }, [user, templateId]);
+
+  return { draft, loading, lastSavedAt, autosave, discard };
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import * as SecureStore from 'expo-secure-store';
+import type { TemplateIssue } from '../supabase/functions/_shared/render/templateLint';
 
 // Get environment variables
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL!;
@@ -65,6 +66,8 @@ export interface Database {
           description: string | null;
           created_at: string;
           metadata: any;
+          version: number;
+          archived_at: string | null;
         };
         Insert: {
           name: string;
@@ -77,6 +80,7 @@ export interface Database {
           json_schema?: any;
           description?: string | null;
           metadata?: any;
+          archived_at?: string | null;
         };
       };
       documents: {
@@ -86,6 +90,11 @@ export interface Database {
           template_name: string;
           storage_path: string;
           file_type: 'PDF' | 'DOCX';          created_at: string;
+          template_id: string | null;
+          template_version: number | null;
+          user_inputs: any | null;
+          revision: number;
+          updated_at: string | null;
         };
         Insert: {
           id?: string;
@@ -93,12 +102,122 @@ export interface Database {
           template_name: string;
           storage_path: string;
           file_type: string;
+          template_id?: string | null;
+          template_version?: number | null;
+          user_inputs?: any | null;
         };
         Update: {
           template_name?: string;
           storage_path?: string;
           file_type?: string;
+          template_version?: number | null;
+          user_inputs?: any | null;
+          revision?: number;
+          updated_at?: string;
+        };
+      };
+      drafts: {
+        Row: {
+          id: string;
+          user_id: string;
+          template_id: string;
+          template_name: string;
+          form_data: any;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          template_id: string;
+          template_name: string;
+          form_data: any;
+          updated_at?: string;
+        };
+        Update: {
+          template_name?: string;
+          form_data?: any;
+          updated_at?: string;
+        };
+      };
+      parties: {
+        Row: {
+          id: string;
+          user_id: string;
+          kind: PartyKind;
+          name: string;
+          email: string | null;
+          phone: string | null;
+          address: string | null;
+          company: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          kind: PartyKind;
+          name: string;
+          email?: string | null;
+          phone?: string | null;
+          address?: string | null;
+          company?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          email?: string | null;
+          phone?: string | null;
+          address?: string | null;
+          company?: string | null;
+          updated_at?: string;
+        };
+      };
+      template_versions: {
+        Row: {
+          id: string;
+          template_id: string;
+          version: number;
+          json_schema: any;
+          metadata: any;
+          changelog: string | null;
+          created_by: string | null;
+          created_at: string;
         };
+        Insert: {
+          template_id: string;
+          version: number;
+          json_schema: any;
+          metadata?: any;
+          changelog?: string | null;
+          created_by?: string | null;
+        };
+        // Versions are immutable
+        Update: Record<string, never>;
+      };
+      document_revisions: {
+        Row: {
+          id: string;
+          document_id: string;
+          user_id: string;
+          revision: number;
+          template_version: number | null;
+          user_inputs: any | null;
+          storage_path: string;
+          file_type: string;
+          html: string | null;
+          created_at: string;
+        };
+        Insert: {
+          document_id: string;
+          user_id: string;
+          revision: number;
+          template_version?: number | null;
+          user_inputs?: any | null;
+          storage_path: string;
+          file_type: string;
+          html?: string | null;
+        };
+        // Revisions are immutable
+        Update: Record<string, never>;
       };
     };
     Enums: {
@@ -114,6 +233,11 @@ export type Enums<T extends keyof Database['public']['Enums']> = Database['publi
 export type UserProfile = Tables<'profiles'>;
 export type Template = Tables<'templates'>;
 export type Document = Tables<'documents'>;
+export type Draft = Tables<'drafts'>;
+export type Party = Tables<'parties'>;
+export type DocumentRevision = Tables<'document_revisions'>;
+export type TemplateVersion = Tables<'template_versions'>;
+export type PartyKind = 'client' | 'employee' | 'company';
 export type UserRole = 'admin' | 'user';
 
 // Form data type for document generation
@@ -277,17 +401,81 @@ export const getTemplates = async () => {
   const { data, error } = await supabase
     .from('templates')
     .select('*')
+    .is('archived_at', null)
     .order('name', { ascending: true });
   return { data: data ? data.map(withNormalizedCategory) : data, error };
 };
 
-export const getTemplate = async (templateId: string) => {
+// Admin list, archived templates included
+export const getAllTemplates = async () => {
   const { data, error } = await supabase
     .from('templates')
     .select('*')
+    .order('name', { ascending: true });
+  return { data: data ? data.map(withNormalizedCategory) : data, error };
+};
+
+export const setTemplateArchived = async (templateId: string, archived: boolean) => {
+  const { data, error } = await supabase
+    .from('templates')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
     .eq('id', templateId)
+    .select()
     .single();
-  return { data: data ? withNormalizedCategory(data as Template) : data, error };
+  return { data, error };
+};
+
+// Versions and drafts go with the template; documents keep their files and stored inputs but can no longer be
+// regenerated
+export const deleteTemplate = async (templateId: string) => {
+  const { error } = await supabase
+    .from('templates')
+    .delete()
+    .eq('id', templateId);
+  return { error };
+};
+
+// The published template, or with `version` the template as it was in that version (name and description are
+// always the current ones)
+export const getTemplate = async (templateId: string, version?: number | null) => {
+  const { data, error } = await supabase
+    .from('templates')
+    .select('*')
+    .eq('id', templateId)
+    .single();
+  if (error || !data || !version || version === (data as Template).version) {
+    return { data: data ? withNormalizedCategory(data as Template) : data, error };
+  }
+  const { data: pinned, error: versionError } = await getTemplateVersion(templateId, version);
+  if (versionError || !pinned) return { data: null, error: versionError || new Error(`Template version ${version} not found`) };
+  const template = { ...(data as Template), json_schema: pinned.json_schema, metadata: pinned.metadata, version: pinned.version };
+  return { data: withNormalizedCategory(template), error: null };
+};
+
+// Template version functions (newest first)
+export const getTemplateVersions = async (templateId: string) => {
+  const { data, error } = await supabase
+    .from('template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('version', { ascending: false });
+  return { data: data as TemplateVersion[] | null, error };
+};
+
+export const getTemplateVersion = async (templateId: string, version: number) => {
+  const { data, error } = await supabase
+    .from('template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .eq('version', version)
+    .single();
+  return { data: data as TemplateVersion | null, error };
+};
+
+// Makes an existing version the published one (also used to roll back)
+export const publishTemplateVersion = async (templateId: string, version: number) => {
+  const { data, error } = await supabase.rpc('publish_template_version', { p_template_id: templateId, p_version: version });
+  return { data: data ? withNormalizedCategory(data as Template) : null, error };
 };
 
 export const getTemplateByName = async (templateName: string) => {
@@ -299,6 +487,29 @@ export const getTemplateByName = async (templateName: string) => {
   return { data: data ? withNormalizedCategory(data as Template) : data, error };
 };
 
+// Create (without templateId) or update a template through the save-template edge function, which rejects a
+// metadata.templateConfig with lint errors. `issues` holds the lint results in both cases. Every save of a schema
+// or layout adds a template version; it is published unless `publish` is false.
+export const saveTemplate = async (
+  template: Database['public']['Tables']['templates']['Insert'],
+  templateId?: string,
+  options: { changelog?: string; publish?: boolean } = {}
+): Promise<{ data: Template | null; version: number | null; issues: TemplateIssue[]; error: any }> => {
+  const { data, error } = await supabase.functions.invoke('save-template', {
+    body: { template_id: templateId, template, changelog: options.changelog, publish: options.publish ?? true },
+  });
+  if (error) {
+    // Non-2xx responses keep their JSON body on error.context
+    const body = await error.context?.json?.().catch(() => null);
+    return { data: null, version: null, issues: body?.issues || [], error: body?.error ? { ...error, message: body.error } : error };
+  }
+  return { data: data?.template ?? null, version: data?.version ?? null, issues: data?.issues || [], error: null };
+};
+
+// Documents generated before inputs were stored (or whose template was deleted) cannot be edited
+export const canRegenerateDocument = (document: Pick<Document, 'template_id' | 'user_inputs'>): boolean =>
+  !!document.template_id && !!document.user_inputs && typeof document.user_inputs === 'object';
+
 // Document management functions
 export const getUserDocuments = async (userId: string) => {
   const { data, error } = await supabase
@@ -336,6 +547,80 @@ export const deleteDocument = async (documentId: string) => {
   return { error };
 };
 
+// Draft management functions (one draft per user and template)
+export const getUserDrafts = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('drafts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+  return { data, error };
+};
+
+export const upsertDraft = async (draft: Database['public']['Tables']['drafts']['Insert']) => {
+  const { data, error } = await supabase
+    .from('drafts')
+    .upsert(draft, { onConflict: 'user_id,template_id' })
+    .select()
+    .single();
+  return { data, error };
+};
+
+export const deleteDraft = async (userId: string, templateId: string) => {
+  const { error } = await supabase
+    .from('drafts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('template_id', templateId);
+  return { error };
+};
+
+// Address book functions
+export const getUserParties = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('parties')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+  return { data, error };
+};
+
+// Parties are keyed by user, kind and name, so saving a known party updates the details given
+export const upsertParty = async (party: Database['public']['Tables']['parties']['Insert']) => {
+  const { data, error } = await supabase
+    .from('parties')
+    .upsert(party, { onConflict: 'user_id,kind,name' })
+    .select()
+    .single();
+  return { data, error };
+};
+
+export const deleteParty = async (partyId: string) => {
+  const { error } = await supabase
+    .from('parties')
+    .delete()
+    .eq('id', partyId);
+  return { error };
+};
+
+// Document revision functions (newest first)
+export const getDocumentRevisions = async (documentId: string) => {
+  const { data, error } = await supabase
+    .from('document_revisions')
+    .select('*')
+    .eq('document_id', documentId)
+    .order('revision', { ascending: false });
+  return { data, error };
+};
+
+// An existing revision number is left untouched, so snapshotting a revision twice is harmless
+export const createDocumentRevision = async (revision: Database['public']['Tables']['document_revisions']['Insert']) => {
+  const { error } = await supabase
+    .from('document_revisions')
+    .upsert(revision, { onConflict: 'document_id,revision', ignoreDuplicates: true });
+  return { error };
+};
+
 // Document generation function
 export const generateDocument = async (
   templateId: string, 
@@ -366,6 +651,15 @@ export const generateDocument = async (
         context: error.context
       });
       
+      // Inputs rejected by the json_schema check come back with per-field errors
+      const body = await error.context?.json?.().catch(() => null);
+      if (Array.isArray(body?.errors)) {
+        return {
+          data: null,
+          error: { ...error, message: body.error, validationErrors: body.errors, userFriendly: true },
+        };
+      }
+
       // Provide more specific error messages
       if (error.message?.includes('non-2xx status code')) {
         return {
@@ -433,8 +727,10 @@ export const deleteDocumentComplete = async (documentId: string) => {
     return { error: fetchError || new Error('Document not found') };
   }
 
-  // Delete the file from storage
-  const { error: storageError } = await deleteDocumentFile(document.file_path);
+  // Delete the file from storage, along with the files of earlier revisions
+  const { data: revisions } = await getDocumentRevisions(documentId);
+  const paths = [...new Set([document.storage_path, ...(revisions || []).map((r) => r.storage_path)])];
+  const { error: storageError } = await supabase.storage.from('documents').remove(paths);
   if (storageError) {
     console.warn('Failed to delete file from storage:', storageError);
   }
@@ -0,0 +1,171 @@
+// Golden files for the shared render core. The app (useDocumentGenerator) and the generate-document edge function
+// both turn a template and form inputs into HTML with prepareTemplateData + renderTemplateDocument, build Word files
+// with buildDocxDocument and lay out server PDFs with htmlToLayoutBlocks (app PDFs print the same HTML). Each case
+// in golden/ has template.json and inputs.json plus the expected HTML, a normalized dump of the DOCX parts and the
+// PDF layout blocks. After an intended rendering change, rewrite them with `UPDATE_GOLDEN=1 npm test`.
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import { Packer } from 'docx';
+import { prepareTemplateData, renderTemplateDocument } from '../renderDocument.ts';
+import { buildDocxDocument } from '../docxDocument.ts';
+import { htmlToLayoutBlocks } from '../../../generate-document/htmlLayout.ts';
+
+process.env.TZ = 'UTC';
+
+const GOLDEN_DIR = path.join(__dirname, 'golden');
+const NOW = new Date('2026-02-01T09:30:00Z');
+const UPDATE = !!process.env.UPDATE_GOLDEN;
+
+// ---------------- DOCX structure ----------------
+interface XmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+}
+type XmlNode = XmlElement | string;
+
+const parseXml = (xml: string): XmlElement => {
+  const root: XmlElement = { tag: '#root', attrs: {}, children: [] };
+  const stack = [root];
+  for (const m of xml.matchAll(/<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g)) {
+    const top = stack[stack.length - 1];
+    if (m[5] !== undefined) {
+      top.children.push(m[5].replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&'));
+    } else if (m[1]) {
+      stack.pop();
+    } else {
+      const attrs = Object.fromEntries(Array.from(m[3].matchAll(/([\w:]+)="([^"]*)"/g), (a) => [a[1], a[2]]));
+      const el: XmlElement = { tag: m[2], attrs, children: [] };
+      top.children.push(el);
+      if (!m[4]) stack.push(el);
+    }
+  }
+  return root;
+};
+
+const child = (el: XmlElement, tag: string): XmlElement | undefined =>
+  el.children.find((c): c is XmlElement => typeof c !== 'string' && c.tag === tag);
+
+const text = (el: XmlElement): string =>
+  el.children.map((c) => (typeof c === 'string' ? c : text(c))).join('');
+
+// Formatting that decides how a document looks; ids, relationship names and other generated values are left out
+const props = (pr: XmlElement | undefined, keys: Record<string, string>): string =>
+  pr
+    ? Object.entries(keys)
+        .map(([tag, name]) => {
+          const el = child(pr, tag);
+          if (!el) return '';
+          const values = Object.entries(el.attrs)
+            .filter(([k]) => !/^(w:rsid|r:id|w14:)/.test(k))
+            .map(([k, v]) => `${k.replace(/^w:/, '')}=${v}`);
+          return values.length ? `${name}(${values.join(',')})` : name;
+        })
+        .filter(Boolean)
+        .join(' ')
+    : '';
+
+const PARAGRAPH_PROPS = { 'w:pStyle': 'style', 'w:jc': 'align', 'w:numPr': 'numbered', 'w:spacing': 'spacing', 'w:ind': 'indent', 'w:pBdr': 'border', 'w:shd': 'shading' };
+const RUN_PROPS = { 'w:b': 'bold', 'w:i': 'italic', 'w:u': 'underline', 'w:color': 'color', 'w:sz': 'size', 'w:rStyle': 'style' };
+const CELL_PROPS = { 'w:gridSpan': 'span', 'w:shd': 'shading', 'w:tcW': 'width' };
+
+const dumpXml = (el: XmlElement, depth: number, out: string[]) => {
+  const pad = '  '.repeat(depth);
+  for (const node of el.children) {
+    if (typeof node === 'string') continue;
+    switch (node.tag) {
+      case 'w:p':
+        out.push(`${pad}p ${props(child(node, 'w:pPr'), PARAGRAPH_PROPS)}`.trimEnd());
+        dumpXml(node, depth + 1, out);
+        break;
+      case 'w:r': {
+        const drawing = child(node, 'w:drawing');
+        const extent = drawing && JSON.stringify(drawing).match(/"cx":"(\d+)","cy":"(\d+)"/);
+        if (drawing) out.push(`${pad}image ${extent ? `${extent[1]}x${extent[2]}` : ''}`.trimEnd());
+        else if (child(node, 'w:fldChar') || child(node, 'w:instrText')) out.push(`${pad}field ${text(node).trim()}`.trimEnd());
+        else out.push(`${pad}r ${[props(child(node, 'w:rPr'), RUN_PROPS), JSON.stringify(text(node))].filter(Boolean).join(' ')}`);
+        break;
+      }
+      case 'w:hyperlink':
+        out.push(`${pad}link`);
+        dumpXml(node, depth + 1, out);
+        break;
+      case 'w:tbl':
+        out.push(`${pad}table columns=${child(node, 'w:tblGrid')?.children.length ?? 0}`);
+        dumpXml(node, depth + 1, out);
+        break;
+      case 'w:tr':
+        out.push(`${pad}row`);
+        dumpXml(node, depth + 1, out);
+        break;
+      case 'w:tc':
+        out.push(`${pad}cell ${props(child(node, 'w:tcPr'), CELL_PROPS)}`.trimEnd());
+        dumpXml(node, depth + 1, out);
+        break;
+      case 'w:pgSz':
+      case 'w:pgMar':
+        out.push(`${pad}${node.tag.slice(2)} ${Object.entries(node.attrs).map(([k, v]) => `${k.replace(/^w:/, '')}=${v}`).join(' ')}`);
+        break;
+      case 'w:pPr':
+      case 'w:rPr':
+      case 'w:tcPr':
+        break;
+      default:
+        dumpXml(node, depth, out);
+    }
+  }
+};
+
+const DOCX_PARTS = /^word\/(document|header\d*|footer\d*)\.xml$/;
+
+const dumpDocx = async (buffer: Buffer): Promise<string> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const out: string[] = [];
+  for (const name of Object.keys(zip.files).filter((n) => DOCX_PARTS.test(n)).sort()) {
+    out.push(`# ${name}`);
+    dumpXml(parseXml(await zip.file(name)!.async('string')), 0, out);
+  }
+  return out.join('\n') + '\n';
+};
+
+// ---------------- Cases ----------------
+const readJson = (dir: string, file: string) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+
+const expectGolden = (dir: string, file: string, actual: string) => {
+  const target = path.join(dir, file);
+  // Like jest snapshots, a missing golden file is written locally but fails on CI
+  if (UPDATE || (!fs.existsSync(target) && !process.env.CI)) {
+    fs.writeFileSync(target, actual);
+    return;
+  }
+  if (!fs.existsSync(target)) throw new Error(`Missing golden file ${path.relative(GOLDEN_DIR, target)}`);
+  expect(actual).toBe(fs.readFileSync(target, 'utf8'));
+};
+
+const cases = fs.readdirSync(GOLDEN_DIR).filter((name) => fs.statSync(path.join(GOLDEN_DIR, name)).isDirectory());
+
+describe.each(cases)('golden render: %s', (name) => {
+  const dir = path.join(GOLDEN_DIR, name);
+  const template = readJson(dir, 'template.json');
+  const inputs = readJson(dir, 'inputs.json');
+  const render = () => renderTemplateDocument(template, prepareTemplateData(template, inputs, { now: NOW, locale: 'en-US' }));
+
+  it('renders the expected HTML, the same on every run', () => {
+    const { html } = render();
+    expect(render().html).toBe(html);
+    expectGolden(dir, 'expected.html', html);
+  });
+
+  it('builds the expected DOCX structure', async () => {
+    const { html, page } = render();
+    const doc = await buildDocxDocument(html, page);
+    expectGolden(dir, 'expected.docx.txt', await dumpDocx(await Packer.toBuffer(doc)));
+  });
+
+  it('lays out the expected PDF blocks', () => {
+    const { html, page } = render();
+    const blocks = htmlToLayoutBlocks(html, { contentWidth: page.width - page.margins.left - page.margins.right });
+    expectGolden(dir, 'expected.pdf.json', JSON.stringify({ page, blocks }, null, 2) + '\n');
+  });
+});
@@ -0,0 +1,133 @@
+import { templateConfigToSchema } from '../schemaInference.ts';
+import { TemplateConfig } from '../templateRenderer.ts';
+
+const infer = (config: Partial<TemplateConfig>) => templateConfigToSchema({ blocks: [], ...config } as TemplateConfig);
+
+describe('templateConfigToSchema', () => {
+  it('turns placeholders and bind paths into titled fields, nested by path', () => {
+    const schema = infer({
+      blocks: [
+        { type: 'heading', text: 'Offer for {{ client.name }}' },
+        { type: 'paragraph', bind: { path: 'intro' } },
+        { type: 'line', parts: [{ path: 'client.city' }] },
+      ] as any,
+    });
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        client: {
+          title: 'Client',
+          type: 'object',
+          properties: { name: { title: 'Name', type: 'string' }, city: { title: 'City', type: 'string' } },
+        },
+        intro: { title: 'Intro', type: 'string', 'x-widget': 'textarea' },
+      },
+    });
+  });
+
+  it('takes types and formats from filters, with quoted | and : in arguments', () => {
+    const { properties } = infer({
+      blocks: [
+        {
+          type: 'paragraph',
+          text: `{{ amount | currency:'EUR' }} {{ due | date:'HH:mm' }} {{ note | default:'a|b' }} {{ rate | percent }} {{ tags | join }}`,
+        },
+      ] as any,
+    });
+    expect(properties.amount).toMatchObject({ type: 'number', format: 'currency' });
+    expect(properties.due).toMatchObject({ type: 'string', format: 'date' });
+    expect(properties.note).toMatchObject({ type: 'string' });
+    expect(properties.rate).toMatchObject({ type: 'number' });
+    expect(properties.tags).toMatchObject({ type: 'array', items: { type: 'string' } });
+    expect(Object.keys(properties)).toEqual(['amount', 'due', 'note', 'rate', 'tags']);
+  });
+
+  it('ignores literals, built-in names and inherited filter names', () => {
+    const { properties } = infer({
+      blocks: [{ type: 'paragraph', text: `{{ 'fixed' }} {{ 42 }} {{ _generated_at | date }} {{ total | constructor }}` }] as any,
+    });
+    expect(properties).toEqual({ total: { title: 'Total', type: 'string' } });
+  });
+
+  it('builds arrays of objects from tables, with column headers as titles and formats as types', () => {
+    const { properties } = infer({
+      blocks: [
+        {
+          type: 'table',
+          dataPath: 'items',
+          columns: [
+            { header: 'Description', path: 'description' },
+            { header: 'Price', path: 'price', format: 'currency', currency: 'EUR' },
+          ],
+        },
+      ] as any,
+    });
+    expect(properties.items).toEqual({
+      title: 'Items',
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          description: { title: 'Description', type: 'string' },
+          price: { title: 'Price', type: 'number', format: 'currency', 'x-currency': 'EUR' },
+        },
+      },
+    });
+  });
+
+  it('reads repeat blocks in the item scope and $parent in the enclosing one', () => {
+    const { properties } = infer({
+      blocks: [{ type: 'repeat', dataPath: 'parties', blocks: [{ type: 'paragraph', text: '{{ name }} for {{ $parent.project }}' }] }] as any,
+    });
+    expect(properties.parties).toMatchObject({ type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } });
+    expect(properties.project).toEqual({ title: 'Project', type: 'string' });
+  });
+
+  it('infers types and options from conditions', () => {
+    const { properties } = infer({
+      blocks: [
+        { type: 'paragraph', text: 'x', when: { path: 'has_clause', equals: true } },
+        { type: 'paragraph', text: 'y', when: { path: 'plan', in: ['basic', 'pro'] } },
+        { type: 'paragraph', text: 'z', when: { path: 'seats', greaterThan: 5 } },
+      ] as any,
+    });
+    expect(properties.has_clause).toMatchObject({ type: 'boolean' });
+    expect(properties.plan).toMatchObject({ type: 'string', enum: ['basic', 'pro'] });
+    expect(properties.seats).toMatchObject({ type: 'number' });
+  });
+
+  it('makes computed inputs numbers and leaves computed names out', () => {
+    const { properties } = infer({
+      computed: { 'items[].line_total': 'quantity * unit_price', subtotal: 'sum(items, line_total)', total: 'subtotal + shipping' },
+      blocks: [{ type: 'paragraph', text: '{{ total }} {{ subtotal }}' }] as any,
+    });
+    expect(Object.keys(properties).sort()).toEqual(['items', 'shipping']);
+    expect(properties.shipping).toMatchObject({ type: 'number' });
+    expect(properties.items).toMatchObject({
+      type: 'array',
+      items: { type: 'object', properties: { quantity: { type: 'number' }, unit_price: { type: 'number' } } },
+    });
+  });
+
+  it('skips computed expressions that do not parse', () => {
+    expect(infer({ computed: { total: 'a +' } }).properties).toEqual({});
+  });
+
+  it('marks signature images and bound images', () => {
+    const { properties } = infer({
+      blocks: [
+        { type: 'signature', image: { path: 'signature' }, title: 'Director' },
+        { type: 'image', path: 'logo' },
+      ] as any,
+    });
+    expect(properties.signature).toMatchObject({ type: 'string', 'x-widget': 'signature', title: 'Director' });
+    expect(properties.logo).toMatchObject({ type: 'string', format: 'uri' });
+  });
+
+  it('reads page regions and the watermark', () => {
+    const { properties } = infer({
+      page: { header: { blocks: [{ type: 'paragraph', text: '{{ company }}' }] }, watermark: '{{ status }}' },
+    } as any);
+    expect(Object.keys(properties)).toEqual(['company', 'status']);
+  });
+});
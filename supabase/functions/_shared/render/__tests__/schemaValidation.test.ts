@@ -0,0 +1,147 @@
+import {
+  validateAgainstSchema,
+  coerceToSchemaType,
+  resolveActiveSchema,
+  dropHiddenFields,
+  declaredProperties,
+  formatSchemaErrors,
+} from '../schemaValidation.ts';
+import { JSONSchema } from '../schemaTemplate.ts';
+
+const errorsOf = (schema: JSONSchema, data: Record<string, any>) =>
+  validateAgainstSchema(schema, data).map((e) => `${e.path} ${e.keyword}: ${e.message}`);
+
+describe('validateAgainstSchema', () => {
+  const schema: JSONSchema = {
+    type: 'object',
+    required: ['client_name', 'items'],
+    properties: {
+      client_name: { type: 'string', minLength: 2, maxLength: 5 },
+      email: { type: 'string', title: 'Client Email', format: 'email' },
+      quantity: { type: 'integer', minimum: 1, maximum: 10 },
+      status: { type: 'string', enum: ['draft', 'final'] },
+      code: { type: 'string', pattern: '^[A-Z]{3}$' },
+      items: {
+        type: 'array',
+        minItems: 1,
+        items: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } },
+      },
+      tags: { type: 'array', maxItems: 2, items: { type: 'string' } },
+    },
+  };
+
+  it('accepts valid inputs and skips blank optional fields', () => {
+    expect(errorsOf(schema, { client_name: 'Acme', email: '', items: [{ name: 'A' }] })).toEqual([]);
+  });
+
+  it('reports required fields with labels from the key', () => {
+    expect(errorsOf(schema, { client_name: ' ', items: [] })).toEqual([
+      'client_name required: Client Name is required',
+      'items required: Items is required',
+    ]);
+  });
+
+  it('checks types, lengths, ranges, options, patterns and formats', () => {
+    expect(
+      errorsOf(schema, {
+        client_name: 'A',
+        email: 'not-an-email',
+        quantity: 2.5,
+        status: 'sent',
+        code: 'abc',
+        items: [{ name: 'A' }],
+        tags: ['a', 'b', 'c'],
+      })
+    ).toEqual([
+      'client_name minLength: Client Name must be at least 2 characters',
+      'email format: Client Email must be a valid email address',
+      'quantity type: Quantity must be a whole number',
+      'status enum: Status must be one of: draft, final',
+      'code pattern: Code is not in the expected format',
+      'tags maxItems: Tags can have at most 2 items',
+    ]);
+    expect(errorsOf(schema, { client_name: 'Acme', quantity: 11, items: [{ name: 'A' }] })).toEqual([
+      'quantity maximum: Quantity must be at most 10',
+    ]);
+  });
+
+  it('uses react-hook-form paths for array items', () => {
+    expect(errorsOf(schema, { client_name: 'Acme', items: [{ name: 'A' }, { name: '' }], tags: ['a', ''] })).toEqual([
+      'items[1].name required: Items item 2 Name is required',
+      'tags[1] required: Tags item 2 is empty',
+    ]);
+  });
+
+  it('rejects inputs that are not an object and ignores schemas without properties', () => {
+    expect(errorsOf(schema, [] as any)).toEqual([' type: Inputs must be an object of field values']);
+    expect(errorsOf({ type: 'object' } as JSONSchema, { anything: 1 })).toEqual([]);
+  });
+
+  it('joins messages for display', () => {
+    expect(formatSchemaErrors(validateAgainstSchema(schema, { items: [] }))).toBe('Client Name is required; Items is required');
+  });
+});
+
+describe('conditional fields', () => {
+  const schema: JSONSchema = {
+    type: 'object',
+    properties: {
+      has_termination_clause: { type: 'boolean' },
+      country: { type: 'string' },
+      vat_id: { type: 'string', 'x-visibleWhen': { path: 'country', in: ['DE', 'FR'] } },
+    },
+    if: { properties: { has_termination_clause: { const: true } }, required: ['has_termination_clause'] },
+    then: { required: ['notice_days'], properties: { notice_days: { type: 'integer', minimum: 1 } } },
+    else: { properties: { renewal: { type: 'string' } } },
+    dependentRequired: { country: ['vat_id'] },
+  };
+
+  it('requires then-branch fields only while the if condition holds', () => {
+    expect(errorsOf(schema, { has_termination_clause: true })).toEqual(['notice_days required: Notice Days is required']);
+    expect(errorsOf(schema, { has_termination_clause: true, notice_days: 0 })).toEqual([
+      'notice_days minimum: Notice Days must be at least 1',
+    ]);
+    expect(errorsOf(schema, { has_termination_clause: false })).toEqual([]);
+    expect(errorsOf(schema, {})).toEqual([]);
+  });
+
+  it('ignores values of inactive branches', () => {
+    expect(errorsOf(schema, { has_termination_clause: false, notice_days: -5 })).toEqual([]);
+  });
+
+  it('drops x-visibleWhen fields that are hidden, including from dependentRequired', () => {
+    expect(errorsOf(schema, { country: 'DE' })).toEqual(['vat_id required: Vat Id is required']);
+    expect(errorsOf(schema, { country: 'US' })).toEqual([]);
+    expect(dropHiddenFields(schema, { country: 'US', vat_id: 'X', computed_total: 3 })).toEqual({ country: 'US', computed_total: 3 });
+  });
+
+  it('resolves the active schema for the data', () => {
+    const active = resolveActiveSchema(schema, { has_termination_clause: true, country: 'US' });
+    expect(Object.keys(active.properties || {})).toEqual(['has_termination_clause', 'country', 'notice_days']);
+    expect(active.required).toEqual(['notice_days']);
+    expect(active).not.toHaveProperty('if');
+  });
+
+  it('lists every declared property with its pointer', () => {
+    expect(Object.fromEntries(Object.entries(declaredProperties(schema)).map(([k, v]) => [k, v.pointer]))).toEqual({
+      has_termination_clause: '/properties/has_termination_clause',
+      country: '/properties/country',
+      vat_id: '/properties/vat_id',
+      notice_days: '/then/properties/notice_days',
+      renewal: '/else/properties/renewal',
+    });
+  });
+});
+
+describe('coerceToSchemaType', () => {
+  it('converts only what converts without loss', () => {
+    expect(coerceToSchemaType('12.5', { type: 'number' })).toBe(12.5);
+    expect(coerceToSchemaType('abc', { type: 'number' })).toBe('abc');
+    expect(coerceToSchemaType('true', { type: 'boolean' })).toBe(true);
+    expect(coerceToSchemaType(7, { type: 'string' })).toBe('7');
+    expect(coerceToSchemaType('', { type: 'array' })).toEqual([]);
+    expect(
+      coerceToSchemaType({ qty: '3', note: 'x' }, { type: 'object', properties: { qty: { type: 'integer' } } })
+    ).toEqual({ qty: 3, note: 'x' });
+  });
+});
@@ -0,0 +1,137 @@
+import { evaluateComputedExpression, computedExpressionPaths, applyComputedFields, cleanNumber } from '../templateComputed.ts';
+
+const evaluate = (expression: string, scope: Record<string, any> = {}) => evaluateComputedExpression(expression, scope);
+
+describe('computed expressions', () => {
+  it('follow operator precedence, parentheses and unary signs', () => {
+    expect(evaluate('2 + 3 * 4')).toBe(14);
+    expect(evaluate('(2 + 3) * 4')).toBe(20);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('-2 * -3 + +1')).toBe(7);
+    expect(evaluate('7 % 4')).toBe(3);
+  });
+
+  it('read paths and count blank or non-numeric inputs as 0', () => {
+    const scope = { qty: '3', price: '1,000.5', note: 'abc', lines: [{ n: 2 }] };
+    expect(evaluate('qty * price', scope)).toBe(3001.5);
+    expect(evaluate('missing + note + 1', scope)).toBe(1);
+    expect(evaluate('lines[0].n * 2', scope)).toBe(4);
+  });
+
+  it('return 0 for division by zero', () => {
+    expect(evaluate('5 / 0')).toBe(0);
+    expect(evaluate('5 % 0')).toBe(0);
+    expect(evaluate('total / count', { total: 10 })).toBe(0);
+  });
+
+  it('trim floating point noise', () => {
+    expect(evaluate('0.1 + 0.2')).toBe(0.3);
+    expect(cleanNumber(Infinity)).toBe(0);
+    expect(cleanNumber('text')).toBe('text');
+  });
+
+  it('aggregate arrays with an optional item expression', () => {
+    const scope = { items: [{ qty: 2, price: 5 }, { qty: 1, price: 2.5 }, { qty: 0, price: 9 }] };
+    expect(evaluate('sum(items, qty * price)', scope)).toBe(12.5);
+    expect(evaluate('count(items)', scope)).toBe(3);
+    expect(evaluate('count(items, qty)', scope)).toBe(2);
+    expect(evaluate('min(items, price)', scope)).toBe(2.5);
+    expect(evaluate('max(items, qty * price)', scope)).toBe(10);
+    expect(evaluate('sum(missing)', scope)).toBe(0);
+  });
+
+  it('compare plain values with min and max and round to decimals', () => {
+    expect(evaluate('min(4, 2, 8)')).toBe(2);
+    expect(evaluate('max(a, b)', { a: 3, b: 7 })).toBe(7);
+    expect(evaluate('round(2.345, 2)')).toBe(2.35);
+    expect(evaluate('round(2.5)')).toBe(3);
+  });
+
+  it('read the enclosing scope with $parent inside an item expression', () => {
+    expect(evaluate('sum(items, price * $parent.rate)', { rate: 2, items: [{ price: 1 }, { price: 3 }] })).toBe(8);
+  });
+
+  it('reject syntax errors and unknown functions', () => {
+    expect(() => evaluate('1 +')).toThrow(/Unexpected/);
+    expect(() => evaluate('(1 + 2')).toThrow(/Expected "\)"/);
+    expect(() => evaluate(`'open`)).toThrow(/Unterminated/);
+    expect(() => evaluate('avg(items)')).toThrow('Unknown function "avg"');
+  });
+
+  it('do not take inherited members for functions', () => {
+    expect(() => evaluate('constructor(1)')).toThrow('Unknown function "constructor"');
+    expect(() => evaluate('toString()')).toThrow('Unknown function "toString"');
+    expect(() => evaluate('hasOwnProperty(x)')).toThrow('Unknown function "hasOwnProperty"');
+  });
+});
+
+describe('computedExpressionPaths', () => {
+  it('lists plain paths and aggregate item paths', () => {
+    expect(computedExpressionPaths('subtotal * tax_rate / 100')).toEqual(['subtotal', 'tax_rate']);
+    expect(computedExpressionPaths('sum(items, quantity * unit_price) + shipping')).toEqual([
+      'items[]',
+      'items[].quantity',
+      'items[].unit_price',
+      'shipping',
+    ]);
+  });
+
+  it('resolves $parent against the enclosing array and treats two-value min as plain values', () => {
+    expect(computedExpressionPaths('sum(items, price * $parent.rate)')).toEqual(['items[]', 'items[].price', 'rate']);
+    expect(computedExpressionPaths('min(a, b)')).toEqual(['a', 'b']);
+  });
+});
+
+describe('applyComputedFields', () => {
+  let warn: jest.SpyInstance;
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => warn.mockRestore());
+
+  it('computes per-item fields first and later fields from earlier ones', () => {
+    const data = { tax_rate: 10, items: [{ quantity: 2, unit_price: 5 }, { quantity: 1, unit_price: 10 }] };
+    const out = applyComputedFields(data, {
+      'items[].line_total': 'quantity * unit_price',
+      subtotal: 'sum(items, line_total)',
+      tax: 'round(subtotal * tax_rate / 100, 2)',
+      total: 'subtotal + tax',
+    });
+    expect(out.items.map((i: any) => i.line_total)).toEqual([10, 10]);
+    expect(out).toMatchObject({ subtotal: 20, tax: 2, total: 22 });
+    expect(data).not.toHaveProperty('subtotal');
+  });
+
+  it('writes nested keys without changing the input object', () => {
+    const data = { summary: { note: 'x' }, a: 1 };
+    const out = applyComputedFields(data, { 'summary.total': 'a + 1' });
+    expect(out.summary).toEqual({ note: 'x', total: 2 });
+    expect(data.summary).toEqual({ note: 'x' });
+  });
+
+  it('evaluates each field once in declaration order, so fields that refer to each other cannot loop', () => {
+    const out = applyComputedFields({}, { a: 'b + 1', b: 'a + 1', c: 'c + 1' });
+    expect(out).toEqual({ a: 1, b: 2, c: 1 });
+  });
+
+  it('skips fields whose expression fails and keeps the rest', () => {
+    const out = applyComputedFields({ x: 2 }, { bad: 'nope(x)', good: 'x * 2' });
+    expect(out).toEqual({ x: 2, good: 4 });
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('never writes through prototype keys', () => {
+    const out = applyComputedFields({ items: [{ a: 1 }] }, {
+      '__proto__.polluted': '1',
+      'x.constructor.prototype.polluted': '1',
+      'items[].__proto__': '1',
+    });
+    expect(({} as any).polluted).toBeUndefined();
+    expect(out).toEqual({ items: [{ a: 1 }] });
+    expect(warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('leaves per-item fields alone when the array is missing or holds primitives', () => {
+    expect(applyComputedFields({ tags: ['a'] }, { 'tags[].n': '1', 'missing[].n': '1' })).toEqual({ tags: ['a'] });
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  parsePath,
+  resolvePath,
+  buildItemScope,
+  escapeHtml,
+  toNumber,
+  toDate,
+  formatDate,
+  getFilter,
+  parseExpression,
+  isLiteral,
+  evaluateExpression,
+} from '../templateExpressions.ts';
+
+const render = (expression: string, data: Record<string, any> = {}) => evaluateExpression(expression, data, 'en-US');
+
+describe('paths', () => {
+  it('parses dot, index and quoted bracket segments', () => {
+    expect(parsePath('items[0].name')).toEqual(['items', 0, 'name']);
+    expect(parsePath(`row['unit price'].value`)).toEqual(['row', 'unit price', 'value']);
+    expect(parsePath('a["b.c"]')).toEqual(['a', 'b.c']);
+  });
+
+  it('resolves missing segments to undefined instead of throwing', () => {
+    const data = { client: { name: 'Acme' }, items: [{ qty: 2 }] };
+    expect(resolvePath(data, 'client.name')).toBe('Acme');
+    expect(resolvePath(data, 'items[0].qty')).toBe(2);
+    expect(resolvePath(data, 'client.address.city')).toBeUndefined();
+    expect(resolvePath(data, '')).toBe('');
+  });
+
+  it('gives item scopes $item, $index and $parent', () => {
+    const parent = { currency: 'EUR' };
+    expect(buildItemScope({ name: 'A' }, 1, parent)).toEqual({ name: 'A', $item: { name: 'A' }, $index: 1, $parent: parent });
+    expect(buildItemScope('text', 0, parent)).toEqual({ $item: 'text', $index: 0, $parent: parent });
+  });
+});
+
+describe('value helpers', () => {
+  it('escapes HTML special characters', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+    expect(escapeHtml(null)).toBe('');
+  });
+
+  it('reads numbers with thousands separators and rejects blanks', () => {
+    expect(toNumber('1,234.5')).toBe(1234.5);
+    expect(toNumber(7)).toBe(7);
+    expect(toNumber('')).toBeNaN();
+    expect(toNumber(null)).toBeNaN();
+  });
+
+  it('parses date-only strings as local dates', () => {
+    const d = toDate('2026-02-01')!;
+    expect([d.getFullYear(), d.getMonth(), d.getDate()]).toEqual([2026, 1, 1]);
+    expect(toDate('not a date')).toBeNull();
+    expect(toDate('')).toBeNull();
+  });
+
+  it('formats date patterns with quoted literals', () => {
+    const d = new Date(2026, 1, 3, 14, 5, 9);
+    expect(formatDate(d, 'dd.MM.yyyy HH:mm:ss')).toBe('03.02.2026 14:05:09');
+    expect(formatDate(d, "d 'of' MMMM yy, h a", 'en-US')).toBe('3 of February 26, 2 PM');
+  });
+});
+
+describe('expression parsing', () => {
+  it('splits filters and arguments', () => {
+    expect(parseExpression('total | number:2 | default:0')).toEqual({
+      head: 'total',
+      filters: [
+        { name: 'number', args: ['2'] },
+        { name: 'default', args: ['0'] },
+      ],
+    });
+  });
+
+  it('keeps | and : inside quoted arguments', () => {
+    expect(parseExpression(`note | default:'a|b:c' | date:"HH:mm"`)).toEqual({
+      head: 'note',
+      filters: [
+        { name: 'default', args: [`'a|b:c'`] },
+        { name: 'date', args: ['"HH:mm"'] },
+      ],
+    });
+  });
+
+  it('tells literals from paths', () => {
+    expect(['"x"', "'x'", '12', '-1.5', 'true', 'false', 'null'].every(isLiteral)).toBe(true);
+    expect(['client.name', 'items[0]', 'trueish'].some(isLiteral)).toBe(false);
+  });
+});
+
+describe('filters', () => {
+  it('change text case and trim', () => {
+    expect(render('name | upper', { name: 'ada' })).toBe('ADA');
+    expect(render('name | lower', { name: 'ADA' })).toBe('ada');
+    expect(render('name | capitalize', { name: 'ada lovelace' })).toBe('Ada lovelace');
+    expect(render('name | title', { name: 'ADA LOVELACE' })).toBe('Ada Lovelace');
+    expect(render('name | trim', { name: '  ada ' })).toBe('ada');
+  });
+
+  it('default replaces blank values only', () => {
+    expect(render(`missing | default:'n/a'`)).toBe('n/a');
+    expect(render(`empty | default:'n/a'`, { empty: [] })).toBe('n/a');
+    expect(render(`zero | default:'n/a'`, { zero: 0 })).toBe(0);
+    expect(render(`note | default:'a|b'`)).toBe('a|b');
+  });
+
+  it('format numbers, currencies and percentages', () => {
+    expect(render('n | number', { n: 1234.5 })).toBe('1,234.5');
+    expect(render('n | number:2', { n: '1234.5' })).toBe('1,234.50');
+    expect(render(`n | currency:'EUR'`, { n: 12 })).toBe('€12.00');
+    expect(render(`n | currency:'EUR':'de-DE'`, { n: 12 })).toBe('12,00\u00a0€');
+    expect(render('n | percent', { n: 0.155 })).toBe('16%');
+    expect(render('n | percent:1', { n: 0.155 })).toBe('15.5%');
+  });
+
+  it('leave values unformatted when Intl rejects the options', () => {
+    expect(render(`n | currency:'EURO'`, { n: 12 })).toBe(12);
+    expect(render('n | number:30', { n: 12 })).toBe(12);
+    expect(render('n | number', { n: 'abc' })).toBe('abc');
+  });
+
+  it('format dates and pass through what is not a date', () => {
+    expect(render(`d | date:'dd/MM/yyyy'`, { d: '2026-02-01' })).toBe('01/02/2026');
+    expect(render(`d | date:'HH:mm'`, { d: '2026-02-01T09:30:00' })).toBe('09:30');
+    expect(render('d | date', { d: 'soon' })).toBe('soon');
+  });
+
+  it('read arrays', () => {
+    const data = { tags: ['a', 'b', 'c'] };
+    expect(render('tags | join', data)).toBe('a, b, c');
+    expect(render(`tags | join:' / '`, data)).toBe('a / b / c');
+    expect(render('tags | first', data)).toBe('a');
+    expect(render('tags | last', data)).toBe('c');
+    expect(render('tags | length', data)).toBe(3);
+    expect(render('missing | length')).toBe(0);
+  });
+
+  it('truncate long text', () => {
+    expect(render('s | truncate:5', { s: 'abcdefgh' })).toBe('abcde…');
+    expect(render(`s | truncate:5:'...'`, { s: 'abcdefgh' })).toBe('abcde...');
+    expect(render('s | truncate:20', { s: 'short' })).toBe('short');
+  });
+
+  it('ignore unknown and inherited filter names', () => {
+    expect(getFilter('constructor')).toBeUndefined();
+    expect(getFilter('toString')).toBeUndefined();
+    expect(render('name | constructor | nope | upper', { name: 'ada' })).toBe('ADA');
+  });
+
+  it('take literal heads and arguments from paths', () => {
+    expect(render(`'fixed' | upper`)).toBe('FIXED');
+    expect(render('missing | default:fallback', { fallback: 'from data' })).toBe('from data');
+  });
+});
@@ -0,0 +1,183 @@
+import { validateTemplateConfig, validateJsonSchema, hasTemplateErrors, formatTemplateIssue } from '../templateLint.ts';
+import { JSONSchema } from '../schemaTemplate.ts';
+
+const schema: JSONSchema = {
+  type: 'object',
+  properties: {
+    client: { type: 'object', properties: { name: { type: 'string' } } },
+    due_date: { type: 'string', format: 'date' },
+    logo: { type: 'string', format: 'uri' },
+    items: {
+      type: 'array',
+      items: { type: 'object', properties: { quantity: { type: 'number' }, unit_price: { type: 'number' } } },
+    },
+  },
+};
+
+const lint = (config: Record<string, any>) => validateTemplateConfig({ blocks: [], ...config }, schema);
+const codes = (config: Record<string, any>) => lint(config).map((i) => `${i.severity} ${i.code} ${i.pointer}`);
+
+describe('validateTemplateConfig', () => {
+  it('accepts a layout whose paths, placeholders and computed fields all resolve', () => {
+    const issues = lint({
+      computed: { 'items[].line_total': 'quantity * unit_price', total: 'sum(items, line_total)' },
+      blocks: [
+        { type: 'heading', level: 1, text: 'Invoice for {{ client.name | upper }}' },
+        { type: 'paragraph', text: `Due {{ due_date | date:'dd.MM.yyyy' }}, total {{ total | currency:'EUR' }}` },
+        {
+          type: 'table',
+          dataPath: 'items',
+          columns: [
+            { header: 'Qty', path: 'quantity', format: 'number' },
+            { header: 'Total', path: 'line_total', format: 'currency' },
+          ],
+        },
+        { type: 'image', path: 'logo' },
+      ],
+    });
+    expect(hasTemplateErrors(issues)).toBe(false);
+    expect(issues.filter((i) => i.severity !== 'info')).toEqual([]);
+  });
+
+  it('rejects what is not a layout object', () => {
+    expect(validateTemplateConfig('nope', schema)).toEqual([
+      { severity: 'error', source: 'templateConfig', pointer: '', code: 'invalid-config', message: 'templateConfig must be an object.' },
+    ]);
+    expect(codes({ blocks: {} })).toContain('error invalid-blocks /blocks');
+  });
+
+  it('reports unknown block types and invalid block settings with JSON pointers', () => {
+    const result = codes({
+      blocks: [{ type: 'chart' }, { type: 'heading', level: 9, text: 'x' }, { type: 'spacer', size: -1 }, { type: 'repeat' }],
+    });
+    expect(result).toEqual(
+      expect.arrayContaining([
+        'error unknown-block-type /blocks/0/type',
+        'error invalid-heading-level /blocks/1/level',
+        'error invalid-size /blocks/2/size',
+        'error missing-data-path /blocks/3',
+      ])
+    );
+  });
+
+  it('reports bind paths missing from json_schema as errors and placeholders as warnings', () => {
+    const result = codes({
+      blocks: [
+        { type: 'paragraph', bind: { path: 'client.email' } },
+        { type: 'paragraph', text: 'Hello {{ client.nickname }}' },
+      ],
+    });
+    expect(result).toEqual(expect.arrayContaining(['error unknown-path /blocks/0/bind/path', 'warning unknown-path /blocks/1/text']));
+  });
+
+  it('resolves table columns against the array items', () => {
+    const result = codes({
+      blocks: [{ type: 'table', dataPath: 'items', columns: [{ header: 'Name', path: 'name' }] }],
+    });
+    expect(result).toContain('error unknown-path /blocks/0/columns/0/path');
+  });
+
+  it('warns about unknown filters but not about quoted | and : in arguments', () => {
+    const issues = lint({ blocks: [{ type: 'paragraph', text: `{{ client.name | default:'a|b:c' | shout }}` }] });
+    expect(issues.filter((i) => i.code === 'unknown-filter').map((i) => i.message)).toEqual([
+      'Unknown filter "shout" is ignored when rendering.',
+    ]);
+  });
+
+  it('does not take inherited object members for filters', () => {
+    const issues = lint({ blocks: [{ type: 'paragraph', text: '{{ client.name | constructor }}' }] });
+    expect(issues.map((i) => i.code)).toContain('unknown-filter');
+  });
+
+  it('skips literal placeholders', () => {
+    const issues = lint({ blocks: [{ type: 'paragraph', text: `{{ 'fixed' | upper }} {{ 42 }}` }] });
+    expect(issues.filter((i) => i.code === 'unknown-path')).toEqual([]);
+  });
+
+  it('reports computed expressions that do not parse, unknown functions and unsafe names', () => {
+    const result = codes({ computed: { a: '1 +', b: 'avg(items)', c: 'constructor(1)', '__proto__.x': '1' } });
+    expect(result).toEqual(
+      expect.arrayContaining([
+        'error invalid-computed /computed/a',
+        'error invalid-computed /computed/b',
+        'error invalid-computed /computed/c',
+        'error invalid-computed /computed/__proto__.x',
+      ])
+    );
+  });
+
+  it('warns about fixed image sources the renderer skips', () => {
+    expect(codes({ blocks: [{ type: 'image', src: 'javascript:alert(1)' }] })).toContain(
+      'warning unsupported-image-source /blocks/0/src'
+    );
+    expect(codes({ blocks: [{ type: 'image' }] })).toContain('error missing-image-source /blocks/0');
+  });
+
+  it('checks page setup', () => {
+    const result = codes({ page: { size: 'B7', orientation: 'sideways', watermark: { text: 'DRAFT', opacity: 2 } } });
+    expect(result).toEqual(
+      expect.arrayContaining([
+        'error invalid-page-size /page/size',
+        'error invalid-orientation /page/orientation',
+        'error invalid-watermark /page/watermark/opacity',
+      ])
+    );
+  });
+
+  it('only notes the missing schema when there is none to check paths against', () => {
+    const issues = validateTemplateConfig({ blocks: [{ type: 'paragraph', bind: { path: 'anything' } }] }, null);
+    expect(issues.map((i) => `${i.severity} ${i.code}`)).toEqual(['info no-schema']);
+  });
+});
+
+describe('validateJsonSchema', () => {
+  const schemaCodes = (value: unknown) => validateJsonSchema(value).map((i) => `${i.severity} ${i.code} ${i.pointer}`);
+
+  it('accepts a well-formed schema', () => {
+    expect(validateJsonSchema(schema).filter((i) => i.severity !== 'info')).toEqual([]);
+  });
+
+  it('reports a root that is not an object form', () => {
+    expect(schemaCodes([])).toEqual(['error invalid-schema ']);
+    expect(schemaCodes({ type: 'array' })).toEqual(expect.arrayContaining(['error invalid-type /type', 'error missing-properties /properties']));
+  });
+
+  it('reports invalid field definitions', () => {
+    const result = schemaCodes({
+      type: 'object',
+      required: ['missing'],
+      properties: {
+        a: { type: 'text' },
+        b: { type: 'string', enum: [] },
+        c: { type: 'string', pattern: '(' },
+        d: { type: 'array' },
+      },
+    });
+    expect(result).toEqual(
+      expect.arrayContaining([
+        'warning unknown-required /required/0',
+        'error invalid-type /properties/a/type',
+        'error invalid-enum /properties/b/enum',
+        'error invalid-pattern /properties/c/pattern',
+        'warning missing-items /properties/d/items',
+      ])
+    );
+  });
+
+  it('reports wizard steps that name unknown fields', () => {
+    expect(schemaCodes({ ...schema, 'x-steps': [{ title: 'One', fields: ['client', 'nope'] }] })).toContain(
+      'error unknown-step-field /x-steps/0/fields/1'
+    );
+  });
+});
+
+describe('formatTemplateIssue', () => {
+  it('names the document and pointer', () => {
+    expect(
+      formatTemplateIssue({ severity: 'error', source: 'jsonSchema', pointer: '/properties/a/type', code: 'invalid-type', message: 'Bad.' })
+    ).toBe('error json_schema/properties/a/type: Bad.');
+    expect(formatTemplateIssue({ severity: 'warning', source: 'templateConfig', pointer: '', code: 'x', message: 'Hm.' })).toBe(
+      'warning templateConfig/: Hm.'
+    );
+  });
+});
@@ -0,0 +1,80 @@
+// Reading the inline CSS written by templateRenderer (cssToString). Shared by the HTML -> DOCX converter and
+// the edge function's HTML -> PDF layout so both interpret styles the same way.
+
+export function parseInlineStyle(style?: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const decl of (style || '').split(';')) {
+    const idx = decl.indexOf(':');
+    if (idx > 0) out[decl.slice(0, idx).trim().toLowerCase()] = decl.slice(idx + 1).trim();
+  }
+  return out;
+}
+
+export function isBoldWeight(value?: string): boolean | undefined {
+  if (!value) return undefined;
+  if (value === 'bold' || value === 'bolder') return true;
+  if (value === 'normal' || value === 'lighter') return false;
+  const n = Number(value);
+  return isNaN(n) ? undefined : n >= 600;
+}
+
+// Expands the margin shorthand; individual margin-* properties win
+export function boxSides(style: Record<string, string>, prop: 'margin' | 'padding') {
+  const parts = (style[prop] || '').split(/\s+/).filter(Boolean);
+  const [t, r = t, b = t, l = r] = parts;
+  return {
+    top: style[`${prop}-top`] ?? t,
+    right: style[`${prop}-right`] ?? r,
+    bottom: style[`${prop}-bottom`] ?? b,
+    left: style[`${prop}-left`] ?? l,
+  };
+}
+
+export const POINTS_PER: Record<string, number> = { px: 0.75, pt: 1, in: 72, cm: 28.35, mm: 2.835, rem: 12, em: 12 };
+
+// CSS length to points; rem/em are taken relative to the 12pt body text and only 0 may omit the unit
+export function toPoints(value?: string): number | undefined {
+  const m = (value || '').trim().match(/^(-?\d+(?:\.\d+)?)(px|pt|in|cm|mm|rem|em)?$/i);
+  if (!m) return undefined;
+  if (!m[2] && Number(m[1]) !== 0) return undefined;
+  return Number(m[1]) * POINTS_PER[(m[2] || 'pt').toLowerCase()];
+}
+
+// Values of the custom properties declared in the document stylesheet
+export const CSS_VARS: Record<string, string> = {
+  '--text-color': '111827',
+  '--muted-color': '6B7280',
+  '--border-color': 'E5E7EB',
+  '--bg-muted': 'F9FAFB',
+};
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000', white: 'FFFFFF', red: 'FF0000', green: '008000', blue: '0000FF', gray: '808080', grey: '808080',
+  silver: 'C0C0C0', navy: '000080', maroon: '800000', orange: 'FFA500', purple: '800080', teal: '008080',
+};
+
+// CSS color to a 6-digit hex string without '#'; undefined for transparent or unknown values
+export function toHexColor(value?: string): string | undefined {
+  const v = (value || '').trim().toLowerCase();
+  if (!v || v === 'transparent' || v === 'inherit' || v === 'none') return undefined;
+  const cssVar = v.match(/^var\(\s*(--[\w-]+)/);
+  if (cssVar) return CSS_VARS[cssVar[1]];
+  const hex = v.match(/^#([0-9a-f]{3}|[0-9a-f]{6})\b/);
+  if (hex) {
+    const h = hex[1].length === 3 ? hex[1].split('').map((c) => c + c).join('') : hex[1];
+    return h.toUpperCase();
+  }
+  const fn = v.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+  if (fn) return [fn[1], fn[2], fn[3]].map((n) => Math.min(255, Number(n)).toString(16).padStart(2, '0')).join('').toUpperCase();
+  return NAMED_COLORS[v];
+}
+
+// Width and color of a `border` / `border-top` shorthand such as "1px solid #e5e7eb"; undefined for none
+export function parseBorder(value?: string): { width: number; color?: string; style: 'solid' | 'dashed' | 'dotted' } | undefined {
+  if (!value || /^(0|none)\b/.test(value.trim())) return undefined;
+  const width = value.match(/(\d+(?:\.\d+)?)(px|pt)/);
+  return {
+    width: width ? Number(width[1]) * (width[2] === 'px' ? 0.75 : 1) : 0.75,
+    color: value.split(/\s+/).map(toHexColor).find(Boolean),
+    style: /dashed/.test(value) ? 'dashed' : /dotted/.test(value) ? 'dotted' : 'solid',
+  };
+}
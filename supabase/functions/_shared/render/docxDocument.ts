@@ -0,0 +1,161 @@
+// Builds the Word document for rendered template HTML: body content from htmlToDocx, page size and margins,
+// running header/footer with page number fields and the watermark. Writing or uploading the file is up to
+// the caller (the app's docxGenerator, or the edge function).
+import {
+  Document,
+  Paragraph,
+  TextRun,
+  Table,
+  AlignmentType,
+  Header,
+  Footer,
+  PageNumber,
+  PageOrientation,
+  Textbox,
+  ISectionOptions,
+} from 'docx';
+import { Buffer } from 'buffer';
+import { PageLayout, PageRegionLine, PAGE_TOKEN_PATTERN } from './templateRenderer.ts';
+import { htmlToDocxChildren, DOCX_NUMBERING } from './htmlToDocx.ts';
+import { fetchRemoteImage } from './remoteImages.ts';
+
+export function stripTags(html: string): string {
+  return html
+    .replace(/<\/(h\d|p|div|li|tr)>/gi, '\n')
+    .replace(/<br\s*\/?\s*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Word can't reference remote images, so download them up front and inline them as data URIs; images that
+// can't be downloaded (see fetchRemoteImage) end up as their alt text
+async function inlineRemoteImages(html: string): Promise<string> {
+  const srcs = Array.from(new Set(Array.from(html.matchAll(/<img[^>]*src=["'](https?:\/\/[^"']+)["']/gi), (m) => m[1])));
+  let out = html;
+  for (const src of srcs) {
+    try {
+      const { bytes, mimeType } = await fetchRemoteImage(src.replace(/&amp;/g, '&'));
+      const b64 = Buffer.from(bytes).toString('base64');
+      out = out.split(src).join(`data:${mimeType || 'image/png'};base64,${b64}`);
+    } catch (e) {
+      console.warn(`Could not download image for DOCX: ${src}`, e);
+    }
+  }
+  return out;
+}
+
+// Split a header/footer line on {{ $page }} / {{ $pages }} so Word fills in the numbers itself
+function regionLineToParagraph(line: PageRegionLine): Paragraph {
+  const size = Math.round(line.fontSize * 2); // half-points
+  const children: TextRun[] = [];
+  let last = 0;
+  for (const m of line.text.matchAll(new RegExp(PAGE_TOKEN_PATTERN.source, 'g'))) {
+    const idx = m.index ?? 0;
+    if (idx > last) children.push(new TextRun({ text: line.text.slice(last, idx), bold: line.bold, size }));
+    children.push(
+      new TextRun({ children: [m[1] === 'page' ? PageNumber.CURRENT : PageNumber.TOTAL_PAGES], bold: line.bold, size })
+    );
+    last = idx + m[0].length;
+  }
+  if (last < line.text.length) children.push(new TextRun({ text: line.text.slice(last), bold: line.bold, size }));
+  return new Paragraph({
+    alignment: line.align === 'left' ? AlignmentType.LEFT : line.align === 'right' ? AlignmentType.RIGHT : AlignmentType.CENTER,
+    spacing: { after: 0 },
+    children,
+  });
+}
+
+// Word draws anything anchored in the header on every page, which is how watermarks are usually built
+function watermarkTextbox(watermark: NonNullable<PageLayout['watermark']>, layout: PageLayout): Textbox {
+  const size = watermark.fontSize || Math.min(96, Math.round((layout.width * 1.1) / Math.max(watermark.text.length, 1)));
+  return new Textbox({
+    style: {
+      width: `${Math.round(layout.width)}pt`,
+      height: `${Math.round(size * 1.6)}pt`,
+      position: 'absolute',
+      positionHorizontal: 'center',
+      positionHorizontalRelative: 'margin',
+      positionVertical: 'center',
+      positionVerticalRelative: 'margin',
+      rotation: 315,
+      zIndex: -1,
+    },
+    alignment: AlignmentType.CENTER,
+    children: [
+      new TextRun({ text: watermark.text, bold: true, size: size * 2, color: watermark.color.replace('#', '') }),
+    ],
+  });
+}
+
+function buildSectionProperties(layout?: PageLayout): Pick<ISectionOptions, 'properties' | 'headers' | 'footers'> {
+  if (!layout) {
+    return { properties: { page: { margin: { top: 1440, right: 1440, bottom: 1440, left: 1440 } } } }; // 1 inch margins
+  }
+  const twips = (pt: number) => Math.round(pt * 20);
+  const headerChildren: (Paragraph | Table)[] = layout.header.map(regionLineToParagraph);
+  // Textbox is a FileChild that renders as a paragraph; the header options type only names Paragraph | Table
+  if (layout.watermark) headerChildren.push(watermarkTextbox(layout.watermark, layout) as unknown as Paragraph);
+  return {
+    properties: {
+      page: {
+        // docx swaps width/height itself for landscape, so always pass portrait dimensions
+        size: {
+          width: twips(Math.min(layout.width, layout.height)),
+          height: twips(Math.max(layout.width, layout.height)),
+          orientation: layout.orientation === 'landscape' ? PageOrientation.LANDSCAPE : PageOrientation.PORTRAIT,
+        },
+        margin: {
+          top: twips(layout.margins.top),
+          right: twips(layout.margins.right),
+          bottom: twips(layout.margins.bottom),
+          left: twips(layout.margins.left),
+        },
+      },
+    },
+    headers: headerChildren.length ? { default: new Header({ children: headerChildren }) } : undefined,
+    footers: layout.footer.length ? { default: new Footer({ children: layout.footer.map(regionLineToParagraph) }) } : undefined,
+  };
+}
+
+const DEFAULT_STYLES = {
+  default: {
+    document: {
+      run: { font: 'Calibri', size: 24 }, // 12pt
+      paragraph: { spacing: { after: 120 } }, // ~6pt after paragraphs
+    },
+  },
+};
+
+export async function buildDocxDocument(html: string, page?: PageLayout): Promise<Document> {
+  // Remove <style> blocks to prevent CSS from appearing in the output
+  const sanitizedHtml = await inlineRemoteImages(html.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, ''));
+
+  try {
+    const children = htmlToDocxChildren(sanitizedHtml, {
+      contentWidth: page ? page.width - page.margins.left - page.margins.right : undefined,
+    });
+    return new Document({
+      numbering: DOCX_NUMBERING,
+      styles: DEFAULT_STYLES,
+      sections: [
+        {
+          ...buildSectionProperties(page),
+          children: children.length > 0 ? children : [new Paragraph({ children: [new TextRun(stripTags(sanitizedHtml))] })],
+        },
+      ],
+    });
+  } catch (e) {
+    console.error('Failed to parse HTML to DOCX:', e);
+    // Fallback to plain text if parsing fails
+    return new Document({
+      styles: DEFAULT_STYLES,
+      sections: [
+        {
+          ...buildSectionProperties(page),
+          children: [new Paragraph({ children: [new TextRun(stripTags(sanitizedHtml))] })],
+        },
+      ],
+    });
+  }
+}
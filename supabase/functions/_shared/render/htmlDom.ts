@@ -0,0 +1,115 @@
+// Minimal, forgiving HTML parser for the markup produced by templateRenderer. It builds a plain element tree
+// (no browser DOM is available in React Native) that the DOCX converter walks.
+
+export interface HtmlText {
+  type: 'text';
+  text: string; // entities decoded
+}
+export interface HtmlElement {
+  type: 'element';
+  tag: string; // lower case
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'meta', 'link', 'input', 'col', 'source', 'wbr']);
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'title']);
+
+// Opening one of these implicitly closes an open element of the listed kinds (HTML's optional end tags)
+const IMPLIED_END: Record<string, string[]> = {
+  li: ['li'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  thead: ['tbody', 'tfoot'],
+  tbody: ['thead', 'tfoot'],
+  tfoot: ['thead', 'tbody'],
+  p: ['p'],
+};
+// Elements that stop the search for an implied end (a nested list's <li> must not close the outer one)
+const SCOPE_TAGS = new Set(['ul', 'ol', 'table', 'div', 'body']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', euro: '€',
+};
+
+export const decodeHtmlEntities = (s: string): string =>
+  s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, ent: string) => {
+    if (ent[0] === '#') {
+      const code = ent[1] === 'x' || ent[1] === 'X' ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return NAMED_ENTITIES[ent.toLowerCase()] ?? m;
+  });
+
+const parseAttributes = (src: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  const re = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(src))) {
+    attrs[m[1].toLowerCase()] = decodeHtmlEntities(m[2] ?? m[3] ?? m[4] ?? '');
+  }
+  return attrs;
+};
+
+export const parseHtml = (html: string): HtmlElement => {
+  const root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const tokenRe = /<!--[\s\S]*?-->|<!doctype[^>]*>|<(\/?)([a-zA-Z][\w-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|([^<]+|<)/gi;
+  let t: RegExpExecArray | null;
+  while ((t = tokenRe.exec(html))) {
+    const [token, closing, rawTag, rawAttrs, text] = t;
+    if (text !== undefined) {
+      current().children.push({ type: 'text', text: decodeHtmlEntities(text) });
+      continue;
+    }
+    if (!rawTag) continue; // comment or doctype
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      const idx = stack.map((e) => e.tag).lastIndexOf(tag);
+      if (idx > 0) stack.length = idx; // unmatched end tags are ignored
+      continue;
+    }
+    const implied = IMPLIED_END[tag];
+    if (implied) {
+      // Close up to the outermost matching element within scope (<tr> closes both the open <td> and <tr>)
+      let cut = -1;
+      for (let i = stack.length - 1; i > 0 && !SCOPE_TAGS.has(stack[i].tag); i--) {
+        if (implied.includes(stack[i].tag)) cut = i;
+      }
+      if (cut > 0) stack.length = cut;
+    }
+    const el: HtmlElement = { type: 'element', tag, attrs: parseAttributes(rawAttrs || ''), children: [] };
+    current().children.push(el);
+    if (RAW_TEXT_TAGS.has(tag)) {
+      // Keep the raw content as a single text child and skip to the matching end tag
+      const end = html.toLowerCase().indexOf(`</${tag}`, tokenRe.lastIndex);
+      const stop = end === -1 ? html.length : end;
+      el.children.push({ type: 'text', text: html.slice(tokenRe.lastIndex, stop) });
+      const close = html.indexOf('>', stop);
+      tokenRe.lastIndex = close === -1 ? html.length : close + 1;
+      continue;
+    }
+    if (!VOID_TAGS.has(tag) && !token.endsWith('/>')) stack.push(el);
+  }
+  return root;
+};
+
+export const findElement = (node: HtmlElement, tag: string): HtmlElement | undefined => {
+  for (const child of node.children) {
+    if (child.type !== 'element') continue;
+    if (child.tag === tag) return child;
+    const found = findElement(child, tag);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+export const hasClass = (el: HtmlElement, name: string): boolean =>
+  (el.attrs['class'] || '').split(/\s+/).includes(name);
+
+export const textContent = (node: HtmlNode): string =>
+  node.type === 'text' ? node.text : node.children.map(textContent).join('');
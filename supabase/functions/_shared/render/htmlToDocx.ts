@@ -0,0 +1,653 @@
+// HTML -> DOCX mapper. Walks the element tree from htmlDom.ts and carries the inline styles written by
+// templateRenderer (cssToString) over to Word: run formatting, alignment, margins, nested lists, tables with
+// shaded header rows, key-value grids, dividers and images. Defaults mirror the stylesheet in
+// renderDocumentFromTemplateConfig so a DOCX looks like its PDF.
+import {
+  Paragraph,
+  TextRun,
+  HeadingLevel,
+  Table,
+  TableRow,
+  TableCell,
+  AlignmentType,
+  WidthType,
+  ImageRun,
+  ExternalHyperlink,
+  BorderStyle,
+  ShadingType,
+  LevelFormat,
+  VerticalAlign,
+  IParagraphOptions,
+  INumberingOptions,
+  ParagraphChild,
+} from 'docx';
+import { Buffer } from 'buffer';
+import { HtmlElement, HtmlNode, parseHtml, findElement, hasClass } from './htmlDom.ts';
+import { parseInlineStyle, isBoldWeight, boxSides, toPoints, toHexColor, parseBorder, CSS_VARS } from './cssStyle.ts';
+
+type Alignment = (typeof AlignmentType)[keyof typeof AlignmentType];
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+
+export const ORDERED_LIST_REFERENCE = 'ordered-list';
+
+// Numbering definition for <ol>; each list gets its own instance so numbering restarts at 1
+export const DOCX_NUMBERING: INumberingOptions = {
+  config: [
+    {
+      reference: ORDERED_LIST_REFERENCE,
+      levels: Array.from({ length: 9 }, (_, level) => ({
+        level,
+        format: [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN][level % 3],
+        text: `%${level + 1}.`,
+        alignment: AlignmentType.START,
+        style: { paragraph: { indent: { left: 360 * (level + 1), hanging: 360 } } },
+      })),
+    },
+  ],
+};
+
+// ---------------- CSS helpers ----------------
+export function toAlignment(value?: string): Alignment | undefined {
+  switch ((value || '').toLowerCase()) {
+    case 'left': return AlignmentType.LEFT;
+    case 'right': return AlignmentType.RIGHT;
+    case 'center': return AlignmentType.CENTER;
+    case 'justify': return AlignmentType.JUSTIFIED;
+    default: return undefined;
+  }
+}
+
+// Supports percentages and absolute CSS units; returns undefined for anything else
+function toCellWidth(value?: string): { size: number; type: (typeof WidthType)[keyof typeof WidthType] } | undefined {
+  const v = (value || '').trim();
+  const pct = v.match(/^(\d+(?:\.\d+)?)%$/);
+  if (pct) return { size: Number(pct[1]), type: WidthType.PERCENTAGE };
+  const twips = /^\d+(\.\d+)?(px|pt|in|cm|mm)$/i.test(v) ? toTwips(v) : undefined;
+  return twips == null ? undefined : { size: twips, type: WidthType.DXA };
+}
+
+// CSS length to twips
+function toTwips(value?: string): number | undefined {
+  const pt = toPoints(value);
+  return pt == null ? undefined : Math.round(pt * 20);
+}
+
+// Font size in half-points
+function toHalfPoints(value?: string): number | undefined {
+  const twips = toTwips(value);
+  return twips == null ? undefined : Math.round(twips / 10);
+}
+
+// A `border` / `border-top` shorthand such as "1px solid #e5e7eb"
+function toBorder(value?: string) {
+  const border = parseBorder(value);
+  if (!border) return undefined;
+  return {
+    style: border.style === 'dashed' ? BorderStyle.DASHED : border.style === 'dotted' ? BorderStyle.DOTTED : BorderStyle.SINGLE,
+    size: Math.max(2, Math.round(border.width * 8)), // eighths of a point
+    color: border.color || CSS_VARS['--border-color'],
+  };
+}
+
+// ---------------- Images ----------------
+function decodeDataUri(dataUri: string): { mime: string; data: Uint8Array } | null {
+  try {
+    const match = dataUri.match(/^data:([^;]+);base64,(.+)$/);
+    if (!match) return null;
+    return { mime: match[1], data: Uint8Array.from(Buffer.from(match[2], 'base64')) };
+  } catch {
+    return null;
+  }
+}
+
+// Intrinsic pixel size from the PNG IHDR, GIF header or JPEG SOF marker; null for anything else
+function readImageSize(data: Uint8Array): { width: number; height: number } | null {
+  if (data.length > 24 && data[0] === 0x89 && data[1] === 0x50) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (data.length > 10 && data[0] === 0x47 && data[1] === 0x49) {
+    return { width: data[6] | (data[7] << 8), height: data[8] | (data[9] << 8) };
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    let i = 2;
+    while (i + 9 < data.length) {
+      if (data[i] !== 0xff) return null;
+      const marker = data[i + 1];
+      const len = (data[i + 2] << 8) | data[i + 3];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: (data[i + 7] << 8) | data[i + 8], height: (data[i + 5] << 8) | data[i + 6] };
+      }
+      i += 2 + len;
+    }
+  }
+  return null;
+}
+
+// Fit the requested box (or the intrinsic size) inside the text column, keeping the aspect ratio when only
+// one dimension is given. Sizes are pixels at 96dpi, the unit docx uses for image transformations.
+function imageTransformation(el: HtmlElement, style: Record<string, string>, intrinsic: { width: number; height: number } | null, maxWidth: number) {
+  const px = (v?: string) => {
+    const twips = toTwips(v && /^\d+(\.\d+)?$/.test(v) ? `${v}px` : v);
+    return twips == null ? undefined : Math.round(twips / 15);
+  };
+  let width = px(style['width']) ?? px(el.attrs['width']);
+  let height = px(style['height']) ?? px(el.attrs['height']);
+  const ratio = intrinsic && intrinsic.width > 0 ? intrinsic.height / intrinsic.width : 0.5;
+  if (width == null && height == null) {
+    width = intrinsic?.width ?? 400;
+    height = intrinsic?.height ?? 200;
+  } else if (width == null) {
+    width = Math.round((height as number) / ratio);
+  } else if (height == null) {
+    height = Math.round(width * ratio);
+  }
+  if ((width as number) > maxWidth) {
+    height = Math.round(((height as number) * maxWidth) / (width as number));
+    width = maxWidth;
+  }
+  return { width: width as number, height: height as number };
+}
+
+function imageRun(el: HtmlElement, maxWidth: number): ImageRun | TextRun {
+  const decoded = decodeDataUri(el.attrs['src'] || '');
+  // Remote images are inlined before conversion; anything left over can't be embedded
+  if (!decoded) return new TextRun(el.attrs['alt'] ? `[${el.attrs['alt']}]` : '[Image]');
+  const type: 'png' | 'jpg' | 'gif' | 'bmp' = decoded.mime.includes('png')
+    ? 'png'
+    : decoded.mime.includes('jpeg') || decoded.mime.includes('jpg')
+    ? 'jpg'
+    : decoded.mime.includes('gif')
+    ? 'gif'
+    : decoded.mime.includes('bmp')
+    ? 'bmp'
+    : 'png';
+  return new ImageRun({
+    data: Buffer.from(decoded.data),
+    type,
+    transformation: imageTransformation(el, parseInlineStyle(el.attrs['style']), readImageSize(decoded.data), maxWidth),
+  });
+}
+
+// Block images are aligned through auto margins (see the image block in templateRenderer)
+function imageAlignment(style: Record<string, string>): Alignment | undefined {
+  const { left, right } = boxSides(style, 'margin');
+  if (left === 'auto' && right === 'auto') return AlignmentType.CENTER;
+  if (left === 'auto') return AlignmentType.RIGHT;
+  return undefined;
+}
+
+// ---------------- Conversion ----------------
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  color?: string;
+  size?: number;
+  font?: string;
+  highlight?: string;
+  link?: string;
+}
+
+interface Context {
+  run: RunStyle;
+  align?: Alignment;
+  indent: number; // twips, from margin-left/padding-left of ancestors
+  maxImageWidth: number; // px
+  lists: { nextInstance: number };
+  inTable: boolean;
+}
+
+// Inline content is collected as segments first so whitespace can be collapsed across element boundaries
+type Segment =
+  | { kind: 'text'; text: string; style: RunStyle }
+  | { kind: 'break' }
+  | { kind: 'image'; el: HtmlElement };
+
+type ParagraphSpec = Mutable<IParagraphOptions>;
+type BlockSpec = { kind: 'paragraph'; options: ParagraphSpec } | { kind: 'table'; node: Table };
+
+const INLINE_TAGS = new Set([
+  'span', 'strong', 'b', 'em', 'i', 'u', 'a', 'br', 'small', 'sub', 'sup', 's', 'del', 'strike', 'code', 'mark', 'label', 'abbr', 'cite', 'q',
+]);
+const SKIPPED_TAGS = new Set(['head', 'style', 'script', 'title', 'meta', 'link', 'colgroup']);
+
+const HEADING_SIZES: Record<number, number> = { 1: 40, 2: 32, 3: 28, 4: 24, 5: 22, 6: 20 }; // half-points
+const HEADING_SPACING_BEFORE: Record<number, number> = { 1: 0, 2: 320, 3: 280, 4: 240, 5: 240, 6: 240 };
+
+const runStyleFromCss = (style: Record<string, string>, parent: RunStyle): RunStyle => {
+  const next: RunStyle = { ...parent };
+  const bold = isBoldWeight(style['font-weight']);
+  if (bold !== undefined) next.bold = bold;
+  if (style['font-style']) next.italics = /italic|oblique/.test(style['font-style']);
+  const decoration = style['text-decoration'] || style['text-decoration-line'];
+  if (decoration) {
+    next.underline = /underline/.test(decoration);
+    next.strike = /line-through/.test(decoration);
+  }
+  const color = toHexColor(style['color']);
+  if (color) next.color = color;
+  const size = toHalfPoints(style['font-size']);
+  if (size) next.size = size;
+  const family = (style['font-family'] || '').split(',')[0]?.trim().replace(/^['"]|['"]$/g, '');
+  if (family && !/^(system-ui|-apple-system|sans-serif|serif|monospace|inherit)$/i.test(family)) next.font = family;
+  const background = toHexColor(style['background-color'] || style['background']);
+  if (background) next.highlight = background;
+  return next;
+};
+
+const runStyleForTag = (tag: string, parent: RunStyle): RunStyle => {
+  switch (tag) {
+    case 'strong':
+    case 'b':
+      return { ...parent, bold: true };
+    case 'em':
+    case 'i':
+    case 'cite':
+      return { ...parent, italics: true };
+    case 'u':
+      return { ...parent, underline: true };
+    case 's':
+    case 'del':
+    case 'strike':
+      return { ...parent, strike: true };
+    case 'code':
+      return { ...parent, font: 'Consolas' };
+    case 'small':
+      return { ...parent, size: Math.round((parent.size || 24) * 0.85) };
+    default:
+      return parent;
+  }
+};
+
+const collectInline = (node: HtmlNode, style: RunStyle, out: Segment[]) => {
+  if (node.type === 'text') {
+    out.push({ kind: 'text', text: node.text, style });
+    return;
+  }
+  if (node.tag === 'br') {
+    out.push({ kind: 'break' });
+    return;
+  }
+  if (node.tag === 'img') {
+    out.push({ kind: 'image', el: node });
+    return;
+  }
+  let next = runStyleForTag(node.tag, runStyleFromCss(parseInlineStyle(node.attrs['style']), style));
+  if (node.tag === 'a' && node.attrs['href'] && /^(https?:|mailto:|tel:)/i.test(node.attrs['href'])) {
+    next = { ...next, link: node.attrs['href'], underline: true, color: next.color && next.color !== style.color ? next.color : '1D4ED8' };
+  }
+  for (const child of node.children) collectInline(child, next, out);
+};
+
+const toTextRun = (text: string, s: RunStyle): TextRun =>
+  new TextRun({
+    text,
+    bold: s.bold,
+    italics: s.italics,
+    underline: s.underline ? {} : undefined,
+    strike: s.strike,
+    color: s.color,
+    size: s.size,
+    font: s.font,
+    shading: s.highlight ? { type: ShadingType.CLEAR, color: 'auto', fill: s.highlight } : undefined,
+  });
+
+// Collapse whitespace like a browser would and turn segments into runs (hyperlinks group their runs)
+const segmentsToRuns = (segments: Segment[], ctx: Context): ParagraphChild[] => {
+  const runs: ParagraphChild[] = [];
+  const state = { pendingSpace: false, atLineStart: true, link: null as { href: string; children: TextRun[] } | null };
+  const closeLink = () => {
+    if (state.link) runs.push(new ExternalHyperlink({ link: state.link.href, children: state.link.children }));
+    state.link = null;
+  };
+  for (const seg of segments) {
+    if (seg.kind !== 'text') {
+      closeLink();
+      runs.push(seg.kind === 'break' ? new TextRun({ text: '', break: 1 }) : imageRun(seg.el, ctx.maxImageWidth));
+      state.pendingSpace = false;
+      state.atLineStart = seg.kind === 'break';
+      continue;
+    }
+    let text = seg.text.replace(/\s+/g, ' ');
+    if (text === ' ') {
+      if (!state.atLineStart) state.pendingSpace = true;
+      continue;
+    }
+    if (text.startsWith(' ')) {
+      text = text.slice(1);
+      if (!state.atLineStart) state.pendingSpace = true;
+    }
+    const trailing = text.endsWith(' ');
+    if (trailing) text = text.slice(0, -1);
+    if (state.pendingSpace) text = ' ' + text;
+    state.pendingSpace = trailing;
+    state.atLineStart = false;
+    const run = toTextRun(text, seg.style);
+    if (!seg.style.link) {
+      closeLink();
+      runs.push(run);
+      continue;
+    }
+    if (state.link?.href !== seg.style.link) {
+      closeLink();
+      state.link = { href: seg.style.link, children: [] };
+    }
+    state.link.children.push(run);
+  }
+  closeLink();
+  return runs;
+};
+
+const hasVisibleContent = (segments: Segment[]) =>
+  segments.some((s) => s.kind !== 'text' || s.text.trim() !== '');
+
+// Paragraph-level CSS: alignment, vertical margins as spacing, left margin/padding as indent, line height
+const paragraphOptionsFromCss = (style: Record<string, string>, ctx: Context): ParagraphSpec => {
+  const margin = boxSides(style, 'margin');
+  const padding = boxSides(style, 'padding');
+  const before = toTwips(margin.top);
+  const after = toTwips(margin.bottom);
+  const lineHeight = style['line-height'];
+  const line = lineHeight && /^\d+(\.\d+)?$/.test(lineHeight) ? Math.round(Number(lineHeight) * 240) : undefined;
+  const indent = ctx.indent + Math.max(0, toTwips(margin.left) ?? 0) + Math.max(0, toTwips(padding.left) ?? 0);
+  const spec: ParagraphSpec = {
+    alignment: toAlignment(style['text-align']) ?? ctx.align,
+    spacing: {
+      ...(before != null ? { before: Math.max(0, before) } : {}),
+      ...(after != null ? { after: Math.max(0, after) } : {}),
+      ...(line ? { line } : {}),
+    },
+  };
+  if (indent) spec.indent = { left: indent };
+  const borderTop = toBorder(style['border-top'] || style['border']);
+  const borderBottom = toBorder(style['border-bottom'] || style['border']);
+  if (borderTop || borderBottom) {
+    spec.border = {
+      ...(borderTop ? { top: { ...borderTop, space: 4 } } : {}),
+      ...(borderBottom ? { bottom: { ...borderBottom, space: 4 } } : {}),
+    };
+  }
+  return spec;
+};
+
+const childContext = (style: Record<string, string>, ctx: Context): Context => {
+  const margin = boxSides(style, 'margin');
+  const padding = boxSides(style, 'padding');
+  const indent = Math.max(0, toTwips(margin.left) ?? 0) + Math.max(0, toTwips(padding.left) ?? 0);
+  return {
+    ...ctx,
+    // A block background shades the paragraph or cell, not each run inside it
+    run: { ...runStyleFromCss(style, ctx.run), highlight: ctx.run.highlight },
+    align: toAlignment(style['text-align']) ?? ctx.align,
+    indent: ctx.indent + indent,
+  };
+};
+
+// Mixed content: inline runs are gathered into paragraphs, block children are converted in place
+const convertChildren = (nodes: HtmlNode[], ctx: Context, paragraphBase: ParagraphSpec = {}): BlockSpec[] => {
+  const out: BlockSpec[] = [];
+  let inline: Segment[] = [];
+  const flush = () => {
+    if (hasVisibleContent(inline)) {
+      out.push({ kind: 'paragraph', options: { alignment: ctx.align, ...paragraphBase, children: segmentsToRuns(inline, ctx) } });
+    }
+    inline = [];
+  };
+  for (const node of nodes) {
+    if (node.type === 'text' || INLINE_TAGS.has(node.tag)) {
+      collectInline(node, ctx.run, inline);
+      continue;
+    }
+    flush();
+    out.push(...convertBlock(node, ctx));
+  }
+  flush();
+  return out;
+};
+
+const setSpacing = (spec: BlockSpec | undefined, key: 'before' | 'after', value: number | undefined) => {
+  if (!spec || spec.kind !== 'paragraph' || value == null) return;
+  spec.options.spacing = { ...(spec.options.spacing || {}), [key]: Math.max(0, value) };
+};
+
+const convertList = (el: HtmlElement, ctx: Context, level: number): BlockSpec[] => {
+  const ordered = el.tag === 'ol';
+  const instance = ordered ? ctx.lists.nextInstance++ : 0;
+  const listStyle = parseInlineStyle(el.attrs['style']);
+  const listCtx = { ...childContext(listStyle, ctx), indent: ctx.indent };
+  const out: BlockSpec[] = [];
+  for (const li of el.children) {
+    if (li.type !== 'element') continue;
+    if (li.tag === 'ul' || li.tag === 'ol') {
+      out.push(...convertList(li, listCtx, level + 1));
+      continue;
+    }
+    if (li.tag !== 'li') continue;
+    const liStyle = parseInlineStyle(li.attrs['style']);
+    const itemCtx = childContext(liStyle, listCtx);
+    const marker: ParagraphSpec = ordered
+      ? { numbering: { reference: ORDERED_LIST_REFERENCE, level: Math.min(level, 8), instance } }
+      : { bullet: { level: Math.min(level, 8) } };
+    const margin = boxSides(liStyle, 'margin');
+    const spacing = { before: toTwips(margin.top) ?? 80, after: toTwips(margin.bottom) ?? 80 };
+    // The first paragraph of the item carries the bullet; nested lists follow at the next level
+    const nested = li.children.filter((c) => c.type === 'element' && (c.tag === 'ul' || c.tag === 'ol')) as HtmlElement[];
+    const content = li.children.filter((c) => !(c.type === 'element' && (c.tag === 'ul' || c.tag === 'ol')));
+    const blocks = convertChildren(content, itemCtx, { spacing });
+    const first = blocks.find((b) => b.kind === 'paragraph');
+    if (first && first.kind === 'paragraph') Object.assign(first.options, marker);
+    else blocks.unshift({ kind: 'paragraph', options: { ...marker, spacing, children: [] } });
+    out.push(...blocks);
+    for (const sub of nested) out.push(...convertList(sub, listCtx, level + 1));
+  }
+  if (!ctx.inTable && out.length) setSpacing(out[out.length - 1], 'after', 200);
+  return out;
+};
+
+const DEFAULT_BORDER = { style: BorderStyle.SINGLE, size: 4, color: CSS_VARS['--border-color'] };
+const NO_BORDER = { style: BorderStyle.NONE, size: 0, color: 'auto' };
+
+const materialize = (specs: BlockSpec[]): (Paragraph | Table)[] =>
+  specs.map((s) => (s.kind === 'table' ? s.node : new Paragraph(s.options)));
+
+const cellChildren = (nodes: HtmlNode[], ctx: Context): (Paragraph | Table)[] => {
+  const specs = convertChildren(nodes, ctx, { spacing: { before: 0, after: 0 } });
+  // Word requires at least one paragraph in every cell
+  return specs.length ? materialize(specs) : [new Paragraph({ children: [] })];
+};
+
+const convertTable = (el: HtmlElement, ctx: Context): BlockSpec[] => {
+  const tableStyle = parseInlineStyle(el.attrs['style']);
+  const tableCtx: Context = { ...childContext(tableStyle, ctx), indent: 0, inTable: true };
+  const rows: TableRow[] = [];
+  const collectRows = (node: HtmlElement, section: string) => {
+    for (const child of node.children) {
+      if (child.type !== 'element') continue;
+      if (['thead', 'tbody', 'tfoot'].includes(child.tag)) collectRows(child, child.tag);
+      else if (child.tag === 'tr') rows.push(convertRow(child, section, tableCtx));
+    }
+  };
+  collectRows(el, 'tbody');
+  if (!rows.length) return [];
+  const border = toBorder(tableStyle['border']) || DEFAULT_BORDER;
+  return [
+    {
+      kind: 'table',
+      node: new Table({
+        width: toCellWidth(tableStyle['width']) || { size: 100, type: WidthType.PERCENTAGE },
+        rows,
+        borders: {
+          top: border,
+          bottom: border,
+          left: border,
+          right: border,
+          insideHorizontal: border,
+          insideVertical: border,
+        },
+        margins: { top: 120, bottom: 120, left: 160, right: 160 }, // 6pt 8pt like the PDF
+      }),
+    },
+    // Tables are followed by a little space, as with the 10pt margin in the PDF stylesheet
+    { kind: 'paragraph', options: { spacing: { before: 0, after: 0 }, children: [] } },
+  ];
+};
+
+const convertRow = (tr: HtmlElement, section: string, ctx: Context): TableRow => {
+  const rowStyle = parseInlineStyle(tr.attrs['style']);
+  const rowCtx = childContext(rowStyle, ctx);
+  const cells: TableCell[] = [];
+  for (const cell of tr.children) {
+    if (cell.type !== 'element' || (cell.tag !== 'td' && cell.tag !== 'th')) continue;
+    const style = parseInlineStyle(cell.attrs['style']);
+    const isHeader = cell.tag === 'th';
+    const baseRun = isHeader && style['font-weight'] == null ? { ...rowCtx.run, bold: true } : rowCtx.run;
+    const cellCtx = childContext(style, { ...rowCtx, run: baseRun, indent: 0 });
+    const fill =
+      toHexColor(style['background-color'] || style['background']) ||
+      toHexColor(rowStyle['background-color'] || rowStyle['background']) ||
+      (isHeader && section === 'thead' ? CSS_VARS['--bg-muted'] : undefined);
+    const colSpan = Number(cell.attrs['colspan']) || undefined;
+    cells.push(
+      new TableCell({
+        width: toCellWidth(style['width']),
+        columnSpan: colSpan && colSpan > 1 ? colSpan : undefined,
+        verticalAlign: VerticalAlign.TOP,
+        shading: fill ? { type: ShadingType.CLEAR, color: 'auto', fill } : undefined,
+        children: cellChildren(cell.children, cellCtx),
+      })
+    );
+  }
+  return new TableRow({ tableHeader: section === 'thead', children: cells });
+};
+
+// .kv-list is a CSS grid of label/value pairs; Word gets a borderless two-column table
+const convertKeyValueList = (el: HtmlElement, ctx: Context): BlockSpec[] => {
+  const listCtx = { ...childContext(parseInlineStyle(el.attrs['style']), ctx), indent: 0, inTable: true };
+  const rows: TableRow[] = [];
+  const cellFor = (node: HtmlElement | undefined, extra: RunStyle, width: number) => {
+    const style = parseInlineStyle(node?.attrs['style']);
+    const cellCtx = childContext(style, { ...listCtx, run: { ...listCtx.run, ...extra } });
+    return new TableCell({
+      width: { size: width, type: WidthType.DXA },
+      borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER },
+      children: cellChildren(node?.children || [], cellCtx),
+    });
+  };
+  for (const row of el.children) {
+    if (row.type !== 'element') continue;
+    const label = row.children.find((c) => c.type === 'element' && hasClass(c, 'kv-label')) as HtmlElement | undefined;
+    const value = row.children.find((c) => c.type === 'element' && hasClass(c, 'kv-value')) as HtmlElement | undefined;
+    if (!label && !value) continue;
+    rows.push(
+      new TableRow({
+        children: [
+          cellFor(label, { bold: true, color: CSS_VARS['--muted-color'] }, 2520), // 1.75in label column
+          cellFor(value, {}, 6840),
+        ],
+      })
+    );
+  }
+  if (!rows.length) return [];
+  return [
+    {
+      kind: 'table',
+      node: new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        columnWidths: [2520, 6840],
+        borders: {
+          top: NO_BORDER,
+          bottom: NO_BORDER,
+          left: NO_BORDER,
+          right: NO_BORDER,
+          insideHorizontal: NO_BORDER,
+          insideVertical: NO_BORDER,
+        },
+        margins: { top: 60, bottom: 60, left: 0, right: 240 },
+        rows,
+      }),
+    },
+  ];
+};
+
+const convertBlock = (el: HtmlElement, ctx: Context): BlockSpec[] => {
+  if (SKIPPED_TAGS.has(el.tag)) return [];
+  const style = parseInlineStyle(el.attrs['style']);
+  const heading = el.tag.match(/^h([1-6])$/);
+  if (heading) {
+    const level = Number(heading[1]);
+    const headingCtx = childContext(style, { ...ctx, run: { ...ctx.run, bold: true, size: HEADING_SIZES[level] } });
+    const base = paragraphOptionsFromCss(style, ctx);
+    const blocks = convertChildren(el.children, headingCtx, {
+      ...base,
+      heading: HeadingLevel[`HEADING_${level}` as keyof typeof HeadingLevel],
+      keepNext: true,
+      spacing: { before: HEADING_SPACING_BEFORE[level], after: 240, ...base.spacing },
+    });
+    return blocks;
+  }
+  switch (el.tag) {
+    case 'p': {
+      const base = paragraphOptionsFromCss(style, ctx);
+      return convertChildren(el.children, childContext(style, ctx), {
+        ...base,
+        spacing: { after: ctx.inTable ? 0 : 200, ...base.spacing },
+      });
+    }
+    case 'ul':
+    case 'ol':
+      return convertList(el, ctx, 0);
+    case 'table':
+      return convertTable(el, ctx);
+    case 'hr': {
+      const border = toBorder(style['border-top']) || DEFAULT_BORDER;
+      return [{ kind: 'paragraph', options: { spacing: { before: 240, after: 240 }, border: { bottom: { ...border, space: 1 } }, children: [] } }];
+    }
+    case 'img': {
+      return [
+        {
+          kind: 'paragraph',
+          options: {
+            alignment: imageAlignment(style) ?? ctx.align,
+            children: [imageRun(el, ctx.maxImageWidth)],
+          },
+        },
+      ];
+    }
+    case 'br':
+      return [{ kind: 'paragraph', options: { children: [] } }];
+  }
+  if (hasClass(el, 'kv-list')) return convertKeyValueList(el, ctx);
+
+  // Generic container (div, body, section, ...): an empty box with a height is a spacer
+  if (!el.children.some((c) => c.type === 'element' || c.text.trim())) {
+    const height = toTwips(style['height']);
+    return height ? [{ kind: 'paragraph', options: { spacing: { before: 0, after: height, line: 240 }, children: [] } }] : [];
+  }
+  const innerCtx = childContext(style, ctx);
+  const margin = boxSides(style, 'margin');
+  const base = paragraphOptionsFromCss(style, ctx);
+  const blocks = convertChildren(el.children, innerCtx, { ...base, spacing: { after: 0, ...base.spacing } });
+  // Container margins land on its first and last paragraphs
+  setSpacing(blocks[0], 'before', toTwips(margin.top));
+  setSpacing(blocks[blocks.length - 1], 'after', toTwips(margin.bottom));
+  return blocks;
+};
+
+export interface HtmlToDocxOptions {
+  contentWidth?: number; // pt; limits image width (defaults to 6.5in)
+}
+
+export function htmlToDocxChildren(html: string, options?: HtmlToDocxOptions): (Paragraph | Table)[] {
+  const root = parseHtml(html);
+  const body = findElement(root, 'body') || root;
+  const ctx: Context = {
+    run: {},
+    indent: 0,
+    maxImageWidth: Math.round(((options?.contentWidth ?? 468) * 96) / 72),
+    lists: { nextInstance: 1 },
+    inTable: false,
+  };
+  return materialize(convertChildren(body.children, ctx));
+}
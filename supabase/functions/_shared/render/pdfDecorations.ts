@@ -0,0 +1,80 @@
+// Running header/footer lines and the watermark on PDF pages, stamped once the total page count is known. Used
+// by the edge function's layout engine and by the app, which stamps them onto the pages printed by expo-print.
+import { PDFDocument, PDFFont, RGB, rgb, degrees } from 'pdf-lib';
+import { PageLayout, PageRegionLine, fillPageTokens } from './templateRenderer.ts';
+
+export interface DecorationFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+export const hexToRgb = (hex?: string, fallback: RGB = rgb(0, 0, 0)): RGB => {
+  const h = (hex || '').replace('#', '');
+  const full = h.length === 3 ? h.split('').map((c) => c + c).join('') : h;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return fallback;
+  return rgb(parseInt(full.slice(0, 2), 16) / 255, parseInt(full.slice(2, 4), 16) / 255, parseInt(full.slice(4, 6), 16) / 255);
+};
+
+/** Text with the characters the font can't encode replaced by `?` (standard fonts only cover WinAnsi). */
+export const encodableText = (font: PDFFont, text: string): string => {
+  try {
+    font.encodeText(text);
+    return text;
+  } catch {
+    return Array.from(text)
+      .map((ch) => {
+        try {
+          font.encodeText(ch);
+          return ch;
+        } catch {
+          return '?';
+        }
+      })
+      .join('');
+  }
+};
+
+export function drawPageDecorations(
+  pdfDoc: PDFDocument,
+  layout: Pick<PageLayout, 'margins' | 'header' | 'footer' | 'watermark'>,
+  fonts: DecorationFonts
+) {
+  const pages = pdfDoc.getPages();
+  pages.forEach((page, idx) => {
+    const { width, height } = page.getSize();
+    if (layout.watermark) {
+      const text = encodableText(fonts.bold, layout.watermark.text);
+      const angle = Math.atan2(height, width);
+      const size = layout.watermark.fontSize ||
+        Math.min(120, (Math.sqrt(width * width + height * height) * 0.7) / Math.max(fonts.bold.widthOfTextAtSize(text, 1), 1));
+      const textWidth = fonts.bold.widthOfTextAtSize(text, size);
+      page.drawText(text, {
+        x: width / 2 - (textWidth / 2) * Math.cos(angle) + (size / 3) * Math.sin(angle),
+        y: height / 2 - (textWidth / 2) * Math.sin(angle) - (size / 3) * Math.cos(angle),
+        size,
+        font: fonts.bold,
+        color: hexToRgb(layout.watermark.color, rgb(0.6, 0.6, 0.6)),
+        opacity: layout.watermark.opacity,
+        rotate: degrees((angle * 180) / Math.PI),
+      });
+    }
+    // The lines of a region are stacked around its center, each one centered in a line height of 1.3
+    const drawRegion = (lines: PageRegionLine[], centerY: number) => {
+      let y = centerY + lines.reduce((a, l) => a + l.fontSize * 1.3, 0) / 2;
+      for (const line of lines) {
+        const f = line.bold ? fonts.bold : fonts.regular;
+        const text = encodableText(f, fillPageTokens(line.text, idx + 1, pages.length));
+        const textWidth = f.widthOfTextAtSize(text, line.fontSize);
+        const x = line.align === 'left'
+          ? layout.margins.left
+          : line.align === 'right'
+          ? width - layout.margins.right - textWidth
+          : (width - textWidth) / 2;
+        y -= line.fontSize * 1.3;
+        page.drawText(text, { x, y: y + line.fontSize * 0.15, size: line.fontSize, font: f, color: rgb(0.3, 0.3, 0.3) });
+      }
+    };
+    drawRegion(layout.header, height - layout.margins.top / 2);
+    drawRegion(layout.footer, layout.margins.bottom / 2);
+  });
+}
@@ -0,0 +1,81 @@
+// Downloads of remote images referenced by a template (DOCX inlining, the edge PDF layout). The URLs come from
+// user input and are fetched by the server, so only public https hosts are followed, with a time and size limit.
+export const IMAGE_FETCH_TIMEOUT_MS = 10_000;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export interface RemoteImage {
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+// Loopback, private, link-local (cloud metadata) and unqualified hosts
+const PRIVATE_HOST = /^(localhost|.*\.local|.*\.internal|127\.|10\.|192\.168\.|169\.254\.|172\.(1[6-9]|2\d|3[01])\.|0\.|\[|[^.]+$)/i;
+
+export const isAllowedImageUrl = (url: string): boolean => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  return parsed.protocol === 'https:' && !PRIVATE_HOST.test(parsed.hostname);
+};
+
+const readLimited = async (res: Response, limit: number): Promise<Uint8Array> => {
+  const declared = Number(res.headers.get('content-length'));
+  if (declared > limit) throw new Error(`Image is larger than ${limit} bytes`);
+  // React Native's fetch has no body stream; the declared length above is the only early check there
+  if (!res.body) {
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    if (bytes.length > limit) throw new Error(`Image is larger than ${limit} bytes`);
+    return bytes;
+  }
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw new Error(`Image is larger than ${limit} bytes`);
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+/** Download an image, or throw if the URL is not allowed, the request fails or the limits are exceeded. */
+export const fetchRemoteImage = async (url: string): Promise<RemoteImage> => {
+  if (!isAllowedImageUrl(url)) throw new Error('Only images on public https hosts are downloaded');
+  // AbortSignal.timeout is missing from React Native, so the timer is set by hand
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), IMAGE_FETCH_TIMEOUT_MS);
+  try {
+    // Redirects are followed by hand so every hop goes through the same host check
+    let current = url;
+    for (let hops = 0; hops < 5; hops++) {
+      const res = await fetch(current, { signal: controller.signal, redirect: 'manual' });
+      const location = res.status >= 300 && res.status < 400 ? res.headers.get('location') : null;
+      if (location) {
+        current = new URL(location, current).toString();
+        if (!isAllowedImageUrl(current)) throw new Error('Redirected to a host that is not allowed');
+        continue;
+      }
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const mimeType = (res.headers.get('content-type') || '').split(';')[0].trim();
+      if (mimeType && !mimeType.startsWith('image/')) throw new Error(`Not an image (${mimeType})`);
+      return { bytes: await readLimited(res, MAX_IMAGE_BYTES), mimeType };
+    }
+    throw new Error('Too many redirects');
+  } finally {
+    clearTimeout(timer);
+  }
+};
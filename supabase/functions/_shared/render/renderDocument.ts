@@ -0,0 +1,96 @@
+// Single entry point from a stored template plus form inputs to rendered HTML and page setup. The app and the
+// generate-document edge function both go through here, so the same template and data produce the same HTML
+// (and, through htmlToDocx / the edge PDF layout, the same document structure) on every platform.
+import {
+  TemplateConfig,
+  PageLayout,
+  normalizeDataForRendering,
+  renderDocumentFromTemplateConfig,
+  resolvePageLayout,
+} from './templateRenderer.ts';
+import { JSONSchema, schemaToTemplateConfig } from './schemaTemplate.ts';
+import { coerceToSchemaType, dropHiddenFields } from './schemaValidation.ts';
+
+// The columns of a `templates` row the renderer needs
+export interface RenderableTemplate {
+  name?: string;
+  type?: string;
+  json_schema?: JSONSchema | string | null;
+  metadata?: { templateConfig?: TemplateConfig; [key: string]: any } | null;
+}
+
+export interface RenderedDocument {
+  html: string;
+  page: PageLayout;
+  config: TemplateConfig;
+  warnings: string[]; // what the data made the renderer leave out
+}
+
+// json_schema may be stored as a JSON string or an object
+export const parseTemplateSchema = (template: RenderableTemplate): JSONSchema | undefined => {
+  const raw = template.json_schema;
+  if (!raw) return undefined;
+  if (typeof raw !== 'string') return raw;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('Error parsing template schema:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Normalize raw inputs for rendering: stringified arrays/objects are parsed, fields (including nested ones) are
+ * coerced to their schema type, fields hidden by conditional schema branches are dropped, and `_template_name` /
+ * `_generated_at` are added for use in templates.
+ */
+export const prepareTemplateData = (
+  template: RenderableTemplate,
+  inputs: Record<string, any>,
+  options?: { now?: Date; locale?: string }
+): Record<string, any> => {
+  const schema = parseTemplateSchema(template);
+  let data = normalizeDataForRendering(inputs || {}) as Record<string, any>;
+  if (schema) data = dropHiddenFields(schema, coerceToSchemaType(data, { ...schema, type: 'object' }));
+  data._template_name = template.name || template.type || 'Document';
+  data._generated_at = (options?.now || new Date()).toLocaleString(options?.locale);
+  return data;
+};
+
+// Templates without a stored layout list every schema field under a title and the generation date
+const defaultTemplateConfig = (schema: JSONSchema): TemplateConfig => {
+  const config = schemaToTemplateConfig(schema);
+  return {
+    ...config,
+    blocks: [
+      { type: 'heading', level: 1, text: '{{ _template_name }}' },
+      { type: 'paragraph', text: 'Generated on: {{ _generated_at }}', style: { color: '#6b7280', fontSize: '10pt' } },
+      ...config.blocks,
+    ],
+  };
+};
+
+export const resolveTemplateConfig = (template: RenderableTemplate): TemplateConfig => {
+  const config = template.metadata?.templateConfig;
+  if (config && typeof config === 'object') return config;
+  const schema = parseTemplateSchema(template);
+  if (schema?.properties && Object.keys(schema.properties).length) return defaultTemplateConfig(schema);
+  throw new Error('Template has neither metadata.templateConfig nor a json_schema to build a layout from.');
+};
+
+/** Render a template with data from prepareTemplateData. */
+export const renderTemplateDocument = (
+  template: RenderableTemplate,
+  data: Record<string, any>,
+  options?: { locale?: string }
+): RenderedDocument => {
+  const config = resolveTemplateConfig(template);
+  const locale = options?.locale;
+  const warnings: string[] = [];
+  return {
+    html: renderDocumentFromTemplateConfig(config, data, { title: template.name || template.type || 'Document', locale, warnings }),
+    page: resolvePageLayout(config, data, { locale }),
+    config,
+    warnings,
+  };
+};
@@ -0,0 +1,263 @@
+// ---------------- TemplateConfig → draft json_schema ----------------
+// The reverse of schemaToTemplateConfig: every field a layout reads (bind paths, dataPaths, table columns,
+// `{{ placeholders }}`, conditions and computed expressions) becomes a form field. Arrays are recognised from
+// table, list and repeat blocks; types and formats come from column formats, placeholder filters and conditions.
+// The result is a starting point for the admin editor, not a finished form: nothing is marked required.
+import { TemplateBlock, TemplateConfig, BlockCondition, TableColumn } from './templateRenderer.ts';
+import { JSONSchema, JSONSchemaProperty, toLabel } from './schemaTemplate.ts';
+import { parsePath, parseExpression, isLiteral, MUSTACHE_PATTERN } from './templateExpressions.ts';
+import { computedExpressionPaths } from './templateComputed.ts';
+
+interface FieldHint {
+  kind?: 'value' | 'object' | 'array';
+  type?: 'string' | 'number' | 'boolean';
+  format?: string;
+  title?: string;
+  widget?: 'textarea' | 'signature';
+  currency?: string;
+  enum?: string[];
+}
+
+interface DraftField extends FieldHint {
+  children: Record<string, DraftField>;
+  items?: DraftField;
+}
+
+interface Scope {
+  field: DraftField; // the object (or array item) paths are resolved against
+  ignore: Set<string>; // computed names at this level, which are not inputs
+  parent?: Scope;
+}
+
+// Names the renderer provides itself (prepareTemplateData, page regions)
+const BUILT_IN_FIELDS = new Set(['_template_name', '_generated_at']);
+
+const FILTER_HINTS: Record<string, FieldHint> = {
+  number: { type: 'number' },
+  percent: { type: 'number' },
+  currency: { type: 'number', format: 'currency' },
+  date: { format: 'date' },
+  join: { kind: 'array' },
+  first: { kind: 'array' },
+  last: { kind: 'array' },
+};
+
+const COLUMN_HINTS: Record<string, FieldHint> = {
+  number: { type: 'number' },
+  percent: { type: 'number' },
+  currency: { type: 'number', format: 'currency' },
+  date: { format: 'date' },
+};
+
+const getFilterHint = (name: string): FieldHint | undefined =>
+  Object.prototype.hasOwnProperty.call(FILTER_HINTS, name) ? FILTER_HINTS[name] : undefined;
+
+const newField = (): DraftField => ({ children: {} });
+
+// Hints only fill what earlier uses left open; a field used as an array or object stays one
+const mark = (field: DraftField, hint: FieldHint) => {
+  if (hint.kind === 'array') field.kind = 'array';
+  else if (!field.kind) field.kind = hint.kind || 'value';
+  field.type ??= hint.type;
+  field.format ??= hint.format;
+  field.title ??= hint.title;
+  field.widget ??= hint.widget;
+  field.currency ??= hint.currency;
+  if (hint.enum) field.enum = [...new Set([...(field.enum || []), ...hint.enum])];
+};
+
+const step = (field: DraftField, segment: string | number): DraftField | null => {
+  if (typeof segment === 'number') {
+    field.kind = 'array';
+    return (field.items ||= newField());
+  }
+  // `items.length` and the like read a property of the array, not an input
+  if (field.kind === 'array') return null;
+  field.kind = 'object';
+  return (field.children[segment] ||= newField());
+};
+
+const addPath = (scope: Scope, path: unknown, hint: FieldHint = {}): DraftField | null => {
+  if (typeof path !== 'string' || !path.trim()) return null;
+  let segments = parsePath(path.trim());
+  while (segments[0] === '$parent' && scope.parent) {
+    scope = scope.parent;
+    segments = segments.slice(1);
+  }
+  // `$item` is the array item itself, e.g. in a list of strings
+  if (segments[0] === '$item') segments = segments.slice(1);
+  const first = segments[0];
+  if (first === undefined) {
+    if (scope.parent) mark(scope.field, hint);
+    return scope.parent ? scope.field : null;
+  }
+  if (typeof first === 'string' && (first.startsWith('$') || BUILT_IN_FIELDS.has(first) || scope.ignore.has(first))) return null;
+  let field = scope.field;
+  for (const segment of segments) {
+    const next = step(field, segment);
+    if (!next) return null;
+    field = next;
+  }
+  mark(field, hint);
+  return field;
+};
+
+/** Draft json_schema with the fields a TemplateConfig reads. */
+export const templateConfigToSchema = (config: TemplateConfig): JSONSchema => {
+  const root: Scope = { field: newField(), ignore: new Set() };
+  root.field.kind = 'object';
+  // Computed names per array path (`items[].line_total`) or at the top level
+  const itemComputed = new Map<string, Set<string>>();
+  for (const key of Object.keys(config.computed || {})) {
+    const perItem = key.match(/^(.+)\[\]\.([\w$]+)$/);
+    if (perItem) {
+      const names = itemComputed.get(perItem[1]) || new Set<string>();
+      names.add(perItem[2]);
+      itemComputed.set(perItem[1], names);
+    } else {
+      root.ignore.add(String(parsePath(key)[0]));
+    }
+  }
+
+  const itemScope = (scope: Scope, path: unknown): Scope => {
+    const array = addPath(scope, path, { kind: 'array' });
+    const ignore = itemComputed.get(String(path).trim()) || new Set<string>();
+    return { field: array ? (array.items ||= newField()) : newField(), ignore, parent: scope };
+  };
+
+  const addText = (scope: Scope, text: unknown) => {
+    if (typeof text !== 'string') return;
+    for (const match of text.matchAll(MUSTACHE_PATTERN)) {
+      const { head, filters } = parseExpression(match[1]);
+      if (isLiteral(head)) continue;
+      const hint = filters.map((f) => getFilterHint(f.name)).find(Boolean);
+      addPath(scope, head, hint);
+    }
+  };
+
+  const addConditions = (scope: Scope, conditions: BlockCondition | BlockCondition[] | undefined) => {
+    for (const c of Array.isArray(conditions) ? conditions : conditions ? [conditions] : []) {
+      const values = [c.equals, c.notEquals, ...(c.in || [])].filter((v) => v !== undefined && v !== null);
+      const hint: FieldHint = {};
+      if (c.greaterThan !== undefined || values.some((v) => typeof v === 'number')) hint.type = 'number';
+      else if (values.some((v) => typeof v === 'boolean')) hint.type = 'boolean';
+      else if (values.length) hint.enum = values.map(String);
+      addPath(scope, c.path, hint);
+    }
+  };
+
+  // bind.path wins over path, as in the renderer
+  const boundPath = (x: any): unknown => (x && typeof x === 'object' ? x.bind?.path ?? x.path : undefined);
+
+  const addColumn = (scope: Scope, column: TableColumn) =>
+    addPath(scope, column.path, {
+      ...(column.format ? COLUMN_HINTS[column.format] : {}),
+      title: column.header || undefined,
+      currency: column.format === 'currency' ? column.currency : undefined,
+    });
+
+  const addBlocks = (scope: Scope, blocks: TemplateBlock[] | undefined) => {
+    for (const block of Array.isArray(blocks) ? blocks : []) {
+      addConditions(scope, block.when);
+      addConditions(scope, block.unless);
+      switch (block.type) {
+        case 'heading':
+          addText(scope, block.text);
+          break;
+        case 'paragraph':
+          if (block.text != null) addText(scope, block.text);
+          else addPath(scope, boundPath(block), { widget: 'textarea' });
+          break;
+        case 'line':
+          (block.parts || []).forEach((part) => addPath(scope, boundPath(part)));
+          break;
+        case 'list': {
+          const source = block.dataPath ?? block.sourcePath;
+          if (source !== undefined) addPath(scope, source, { kind: 'array' });
+          (block.items || []).forEach((item) => (typeof item === 'string' ? addText(scope, item) : addPath(scope, boundPath(item))));
+          break;
+        }
+        case 'table': {
+          const source = block.dataPath ?? block.sourcePath;
+          const rows = source !== undefined ? itemScope(scope, source) : scope;
+          (block.columns || []).forEach((column) => addColumn(rows, column));
+          for (const row of block.footer || []) {
+            addText(scope, row.label);
+            for (const cell of row.cells || []) {
+              if (cell.aggregate) continue;
+              if (boundPath(cell) !== undefined) addPath(scope, boundPath(cell), { type: 'number' });
+              else addText(scope, cell.text);
+            }
+          }
+          addText(scope, block.emptyMessage);
+          break;
+        }
+        case 'keyValueTable':
+        case 'keyValueList':
+          (block.rows || []).forEach((row) => addPath(scope, boundPath(row), { title: row.label || undefined }));
+          break;
+        case 'signature':
+          addPath(scope, boundPath(block.name));
+          addPath(scope, boundPath(block.title));
+          addPath(scope, boundPath(block.image), { widget: 'signature', title: typeof block.title === 'string' ? block.title || undefined : undefined });
+          break;
+        case 'image':
+          if (boundPath(block) !== undefined) addPath(scope, boundPath(block), { format: 'uri' });
+          else addText(scope, block.src);
+          addText(scope, block.alt);
+          break;
+        case 'repeat':
+          addBlocks(itemScope(scope, block.dataPath ?? block.sourcePath), block.blocks);
+          break;
+      }
+    }
+  };
+
+  addBlocks(root, config.blocks);
+  addBlocks(root, config.page?.header?.blocks);
+  addBlocks(root, config.page?.footer?.blocks);
+  const watermark = config.page?.watermark;
+  addText(root, typeof watermark === 'string' ? watermark : watermark?.text);
+
+  // Inputs of computed fields are numbers; per-item expressions read the item
+  for (const [key, expression] of Object.entries(config.computed || {})) {
+    const perItem = key.match(/^(.+)\[\]\.([\w$]+)$/);
+    const scope = perItem ? itemScope(root, perItem[1]) : root;
+    let paths: string[];
+    try {
+      paths = computedExpressionPaths(expression);
+    } catch {
+      continue; // the linter reports expressions that don't parse
+    }
+    for (const path of paths) {
+      const parts = path.split('[]');
+      let inner = scope;
+      for (const part of parts.slice(0, -1)) inner = itemScope(inner, part.replace(/^\./, ''));
+      const last = parts[parts.length - 1].replace(/^\./, '');
+      if (last) addPath(inner, last, { type: 'number' });
+    }
+  }
+
+  return { type: 'object', properties: toProperties(root.field) };
+};
+
+const toProperties = (field: DraftField): Record<string, JSONSchemaProperty> =>
+  Object.fromEntries(Object.entries(field.children).map(([key, child]) => [key, toProperty(child, toLabel(key))]));
+
+const toProperty = (field: DraftField, title?: string): JSONSchemaProperty => {
+  const titled = (prop: JSONSchemaProperty): JSONSchemaProperty => (title ? { title: field.title || title, ...prop } : prop);
+  if (field.kind === 'array') {
+    return titled({ type: 'array', items: toProperty(field.items || newField()) });
+  }
+  if (field.kind === 'object') {
+    return titled({ type: 'object', properties: toProperties(field) });
+  }
+  // Dates, long text and signatures are text fields whatever a filter suggested
+  const text = field.format === 'date' || field.format === 'uri' || !!field.widget;
+  const prop: JSONSchemaProperty = { type: text ? 'string' : field.type || 'string' };
+  if (field.format) prop.format = field.format;
+  if (field.widget) prop['x-widget'] = field.widget;
+  if (field.currency) prop['x-currency'] = field.currency;
+  if (field.enum?.length && prop.type === 'string') prop.enum = field.enum;
+  return titled(prop);
+};
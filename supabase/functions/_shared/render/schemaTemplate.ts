@@ -0,0 +1,197 @@
+// JSON Schema types for template inputs (the subset schemaValidation.ts checks), plus the block layout generated
+// from a schema when a template has no metadata.templateConfig of its own.
+import {
+  TemplateBlock,
+  TemplateConfig,
+  BlockCondition,
+  HeadingBlock,
+  KeyValueRow,
+  TableColumn,
+} from './templateRenderer.ts';
+
+// Conditional parts of a schema, applied by resolveActiveSchema in schemaValidation.ts. Properties declared only
+// inside a then/else/dependentSchemas branch are shown and validated while that branch is active.
+export interface JSONSchemaBranch {
+  properties?: { [key: string]: JSONSchemaProperty };
+  required?: string[];
+  if?: JSONSchemaBranch;
+  then?: JSONSchemaBranch;
+  else?: JSONSchemaBranch;
+  allOf?: JSONSchemaBranch[];
+  dependentRequired?: { [key: string]: string[] };
+  dependentSchemas?: { [key: string]: JSONSchemaBranch };
+}
+
+export interface JSONSchemaProperty extends JSONSchemaBranch {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'; // omitted in `if` conditions
+  title?: string;
+  description?: string;
+  format?: string; // date, time, date-time, email, uri, tel, currency, textarea
+  enum?: string[];
+  const?: string | number | boolean | null;
+  items?: JSONSchemaProperty;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  // Shows the field only while the condition holds for its sibling fields; same format as a block's `when`
+  'x-visibleWhen'?: BlockCondition | BlockCondition[];
+  // Form input to use instead of the one implied by type/format; a signature is stored as a PNG data URI
+  'x-widget'?: 'textarea' | 'signature';
+  // Input mask for tel fields, `#` standing for a digit, e.g. "(###) ###-####"
+  'x-mask'?: string;
+  // ISO currency code shown next to currency fields, e.g. "USD"
+  'x-currency'?: string;
+  // Initial value: `profile.<column>` (e.g. profile.full_name), `lastValue` (this user's previous entry for the
+  // field in this template) or `today`
+  'x-prefill'?: string;
+  // Address book kind to autocomplete from. On an object, sub-fields are filled by name (name, email, phone,
+  // address, company); on a text field, it and its siblings of the same kind are filled using `x-partyField`.
+  'x-party'?: 'client' | 'employee' | 'company';
+  'x-partyField'?: 'name' | 'email' | 'phone' | 'address' | 'company';
+  // Former name(s) of the field in earlier template versions, so inputs saved with those versions carry over
+  'x-renamedFrom'?: string | string[];
+}
+
+// A page of the DynamicFormGenerator wizard, listing top-level field names
+export interface JSONSchemaStep {
+  title: string;
+  description?: string;
+  fields: string[];
+}
+
+export interface JSONSchema extends JSONSchemaBranch {
+  type: 'object' | string;
+  properties: { [key: string]: JSONSchemaProperty };
+  'x-steps'?: JSONSchemaStep[];
+}
+
+// ---------------- Schema → TemplateConfig auto-generation (block-style) ----------------
+// Fields keep their form order (or the order of `x-steps`, one section per step): runs of plain values become a
+// key-value list, long text a paragraph, lists of objects a table with typed columns, other lists a bullet list and
+// groups a sub-section. Fields declared only in conditional branches are shown while they have a value, and drawn
+// signatures close the document. See schemaInference.ts for the reverse direction.
+/** Label for a field key without a title: `due_date` → "Due Date". */
+export const toLabel = (s: string) => s.replace(/[_-]+/g, ' ').replace(/\b\w/g, (m) => m.toUpperCase());
+const isPrimitive = (t?: string) => t === 'string' || t === 'number' || t === 'integer' || t === 'boolean';
+const isLongText = (prop: JSONSchemaProperty) => prop.format === 'textarea' || prop['x-widget'] === 'textarea';
+
+// Properties of the then/else/allOf/dependentSchemas branches that the base level doesn't declare
+const branchProperties = (s: JSONSchemaBranch): Record<string, JSONSchemaProperty> => {
+  const out: Record<string, JSONSchemaProperty> = {};
+  const visit = (branch: JSONSchemaBranch | undefined) => {
+    if (!branch) return;
+    for (const [key, prop] of Object.entries(branch.properties || {})) {
+      if (!(key in (s.properties || {})) && !(key in out)) out[key] = prop;
+    }
+    visit(branch.then);
+    visit(branch.else);
+    (branch.allOf || []).forEach(visit);
+    Object.values(branch.dependentSchemas || {}).forEach(visit);
+  };
+  visit({ then: s.then, else: s.else, allOf: s.allOf, dependentSchemas: s.dependentSchemas });
+  return out;
+};
+
+const tableColumn = (key: string, prop: JSONSchemaProperty): TableColumn => {
+  const column: TableColumn = { header: prop.title || toLabel(key), path: key };
+  if (prop.format === 'currency') {
+    Object.assign(column, { format: 'currency', align: 'right' }, prop['x-currency'] ? { currency: prop['x-currency'] } : {});
+  } else if (prop.type === 'number' || prop.type === 'integer') {
+    Object.assign(column, { format: 'number', align: 'right' });
+  } else if (prop.format === 'date') {
+    column.format = 'date';
+  }
+  return column;
+};
+
+export const schemaToTemplateConfig = (schema: JSONSchema): TemplateConfig => {
+  const makePath = (parent: string, key: string) => (parent ? `${parent}.${key}` : key);
+  const signatures: TemplateBlock[] = [];
+
+  const buildBlocks = (properties: Record<string, JSONSchemaProperty>, parentPath: string, depth: number): TemplateBlock[] => {
+    const blocks: TemplateBlock[] = [];
+    const level = Math.min(3 + depth, 6) as HeadingBlock['level'];
+    let rows: KeyValueRow[] = [];
+    const flushRows = () => {
+      if (rows.length) blocks.push({ type: 'keyValueList', rows });
+      rows = [];
+    };
+    for (const [key, prop] of Object.entries(properties)) {
+      const path = makePath(parentPath, key);
+      const label = prop.title || toLabel(key);
+      if (prop['x-widget'] === 'signature') {
+        signatures.push({ type: 'signature', image: { bind: { path } }, title: label });
+      } else if (isLongText(prop)) {
+        flushRows();
+        blocks.push({ type: 'heading', text: label, level }, { type: 'paragraph', bind: { path } });
+      } else if (isPrimitive(prop.type)) {
+        rows.push({ label, bind: { path } });
+      } else if (prop.type === 'array') {
+        flushRows();
+        blocks.push({ type: 'heading', text: label, level });
+        const items = prop.items;
+        if (items && items.type === 'object' && items.properties) {
+          const columns = Object.entries(items.properties)
+            .filter(([, colProp]) => isPrimitive(colProp.type) && colProp['x-widget'] !== 'signature')
+            .map(([colKey, colProp]) => tableColumn(colKey, colProp));
+          blocks.push({ type: 'table', columns, dataPath: path, emptyMessage: 'None' });
+        } else {
+          blocks.push({ type: 'list', dataPath: path });
+        }
+      } else if (prop.type === 'object' && prop.properties) {
+        flushRows();
+        blocks.push({ type: 'heading', text: label, level }, ...buildLevel(prop, path, depth + 1));
+      }
+    }
+    flushRows();
+    return blocks;
+  };
+
+  // Fields of conditional branches, only rendered while they are filled in
+  const conditionalBlocks = (s: JSONSchemaBranch, parentPath: string, depth: number): TemplateBlock[] =>
+    Object.entries(branchProperties(s)).flatMap(([key, prop]) =>
+      buildBlocks({ [key]: prop }, parentPath, depth).map((block) => ({ ...block, when: { path: makePath(parentPath, key) } }))
+    );
+
+  const buildLevel = (s: JSONSchemaBranch, parentPath: string, depth: number): TemplateBlock[] => [
+    ...buildBlocks(s.properties || {}, parentPath, depth),
+    ...conditionalBlocks(s, parentPath, depth),
+  ];
+
+  const pick = (keys: string[]) =>
+    Object.fromEntries(keys.filter((k) => schema.properties?.[k]).map((k) => [k, schema.properties[k]]));
+  const steps = schema['x-steps'] || [];
+  let blocks: TemplateBlock[];
+  if (steps.length) {
+    const stepped = new Set(steps.flatMap((step) => step.fields));
+    const rest = Object.keys(schema.properties || {}).filter((k) => !stepped.has(k));
+    blocks = [
+      ...steps.flatMap((step) => [{ type: 'heading', text: step.title, level: 2 } as TemplateBlock, ...buildBlocks(pick(step.fields), '', 0)]),
+      ...buildBlocks(pick(rest), '', 0),
+      ...conditionalBlocks(schema, '', 0),
+    ];
+  } else {
+    blocks = buildLevel(schema, '', 0);
+  }
+
+  return {
+    title: undefined,
+    styles: {
+      table: { borderCollapse: 'collapse', width: '100%' },
+      th: { fontWeight: '600', background: '#f9fafb', border: '1px solid #e5e7eb', padding: '8px' },
+      td: { border: '1px solid #e5e7eb', padding: '8px' },
+      paragraph: { margin: '0 0 12px' },
+      heading: { margin: '12px 0 6px', fontWeight: '600' },
+      // defaults for keyValueList
+      kvList: { display: 'grid', rowGap: '8px' },
+      kvRow: { display: 'grid', gridTemplateColumns: '220px 1fr', columnGap: '12px', alignItems: 'start' },
+      kvLabel: { fontWeight: '600', color: '#374151' },
+      kvValue: { color: '#111827' },
+    },
+    blocks: [...blocks, ...signatures],
+  };
+};
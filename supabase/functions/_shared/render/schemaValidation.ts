@@ -0,0 +1,324 @@
+// Validation of form inputs against a template's json_schema. The app checks inputs with it before submitting and
+// the generate-document edge function enforces it again, so both reject the same data with the same messages.
+//
+// Error paths use the react-hook-form field names of DynamicFormGenerator: `client.email`, `items[2].quantity`.
+import { JSONSchema, JSONSchemaBranch, JSONSchemaProperty, toLabel } from './schemaTemplate.ts';
+import { shouldRenderBlock } from './templateRenderer.ts';
+
+export type SchemaKeyword =
+  | 'required'
+  | 'type'
+  | 'enum'
+  | 'const'
+  | 'format'
+  | 'pattern'
+  | 'minLength'
+  | 'maxLength'
+  | 'minimum'
+  | 'maximum'
+  | 'minItems'
+  | 'maxItems';
+
+export interface SchemaValidationError {
+  path: string; // '' for the input object itself
+  keyword: SchemaKeyword;
+  message: string;
+}
+
+const isEmpty = (v: unknown): boolean => v === undefined || v === null || (typeof v === 'string' && v.trim() === '');
+const isPlainObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const childPath = (parent: string, key: string | number): string =>
+  typeof key === 'number' ? `${parent}[${key}]` : parent ? `${parent}.${key}` : key;
+
+// ---------------- Coercion ----------------
+// Only lossless conversions: form inputs arrive as strings, but "abc" is never turned into 0
+export const coerceToSchemaType = (value: any, prop: JSONSchemaProperty | undefined): any => {
+  if (value == null || !prop) return value;
+  switch (prop.type) {
+    case 'number':
+    case 'integer':
+      return typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value.trim()) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'array': {
+      const arr = Array.isArray(value) ? value : value === '' ? [] : [value];
+      return prop.items ? arr.map((item) => coerceToSchemaType(item, prop.items)) : arr;
+    }
+    case 'object': {
+      if (!isPlainObject(value)) return value;
+      const out: Record<string, any> = { ...value };
+      for (const [key, declared] of Object.entries(declaredProperties(prop))) {
+        if (key in out) out[key] = coerceToSchemaType(out[key], declared.prop);
+      }
+      return out;
+    }
+    case 'string':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+    default:
+      return value;
+  }
+};
+
+// ---------------- Formats ----------------
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URI = /^[a-z][a-z0-9+.-]*:[^\s]+$/i;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const TEL = /^\+?[\d\s().-]+$/;
+
+const FORMATS: Record<string, { test: (v: string) => boolean; message: string }> = {
+  email: { test: (v) => EMAIL.test(v), message: 'must be a valid email address' },
+  uri: { test: (v) => URI.test(v), message: 'must be a valid URL, e.g. https://example.com' },
+  'date-time': { test: (v) => DATE_TIME.test(v) && !isNaN(Date.parse(v)), message: 'must be a valid date and time' },
+  date: { test: (v) => !isNaN(new Date(v).getTime()), message: 'must be a valid date' },
+  time: { test: (v) => TIME.test(v), message: 'must be a valid time, e.g. 14:30' },
+  tel: { test: (v) => TEL.test(v) && v.replace(/\D/g, '').length >= 5, message: 'must be a valid phone number' },
+};
+
+const typeMatches = (value: unknown, type: JSONSchemaProperty['type']): boolean => {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    default:
+      return true;
+  }
+};
+
+const TYPE_NAMES: Record<string, string> = {
+  string: 'text',
+  number: 'a number',
+  integer: 'a whole number',
+  boolean: 'true or false',
+  array: 'a list',
+  object: 'a group of fields',
+};
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+// ---------------- Conditional fields ----------------
+const escapePointer = (key: string) => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+// Every property one level of a schema can have: the base properties plus those of all then/else/allOf/
+// dependentSchemas branches. A property redeclared in a branch keeps the base declaration's keywords.
+export const declaredProperties = (
+  schema: JSONSchemaBranch,
+  pointer = ''
+): Record<string, { prop: JSONSchemaProperty; pointer: string }> => {
+  const out: Record<string, { prop: JSONSchemaProperty; pointer: string }> = {};
+  const visit = (branch: JSONSchemaBranch | undefined, at: string) => {
+    if (!isPlainObject(branch)) return;
+    for (const [key, prop] of Object.entries(branch.properties || {})) {
+      out[key] = out[key]
+        ? { prop: { ...prop, ...out[key].prop }, pointer: out[key].pointer }
+        : { prop, pointer: `${at}/properties/${escapePointer(key)}` };
+    }
+    visit(branch.then, `${at}/then`);
+    visit(branch.else, `${at}/else`);
+    (branch.allOf || []).forEach((sub, i) => visit(sub, `${at}/allOf/${i}`));
+    for (const [key, sub] of Object.entries(branch.dependentSchemas || {})) visit(sub, `${at}/dependentSchemas/${escapePointer(key)}`);
+  };
+  visit(schema, pointer);
+  return out;
+};
+
+// `if` follows JSON Schema: a property listed in `if.properties` but absent from the data matches unless it is
+// also in `if.required`, so conditions on a checkbox are usually written as
+//   { "if": { "properties": { "has_termination_clause": { "const": true } }, "required": ["has_termination_clause"] } }
+const matchesBranch = (branch: JSONSchemaBranch, data: Record<string, any>): boolean => {
+  const errors: SchemaValidationError[] = [];
+  validateObject(data, branch, '', errors);
+  return errors.length === 0;
+};
+
+// The properties and required list of one object level for the given data: active branches are merged in and
+// properties whose x-visibleWhen fails are removed. Nested objects are left unresolved.
+const resolveLevel = <T extends JSONSchemaBranch>(schema: T, data: Record<string, any>): T => {
+  const properties: Record<string, JSONSchemaProperty> = {};
+  const required: string[] = [];
+  const apply = (branch: JSONSchemaBranch | undefined) => {
+    if (!isPlainObject(branch)) return;
+    for (const [key, prop] of Object.entries(branch.properties || {})) {
+      properties[key] = properties[key] ? { ...properties[key], ...prop } : prop;
+    }
+    required.push(...(branch.required || []));
+    if (branch.if) apply(matchesBranch(branch.if, data) ? branch.then : branch.else);
+    (branch.allOf || []).forEach(apply);
+    for (const [key, fields] of Object.entries(branch.dependentRequired || {})) {
+      if (!isEmpty(data[key])) required.push(...fields);
+    }
+    for (const [key, sub] of Object.entries(branch.dependentSchemas || {})) {
+      if (!isEmpty(data[key])) apply(sub);
+    }
+  };
+  apply(schema);
+  for (const [key, prop] of Object.entries(properties)) {
+    const visibleWhen = prop['x-visibleWhen'];
+    if (visibleWhen && !shouldRenderBlock({ when: visibleWhen }, data)) delete properties[key];
+  }
+  // Fields declared somewhere but inactive are not required; required names without a declaration still are
+  const declared = declaredProperties(schema);
+  const { if: _if, then: _then, else: _else, allOf: _allOf, dependentRequired: _dr, dependentSchemas: _ds, ...rest } = schema;
+  return {
+    ...rest,
+    properties,
+    required: [...new Set(required)].filter((key) => key in properties || !(key in declared)),
+  } as T;
+};
+
+/**
+ * The schema as it applies to `data`: if/then/else, allOf, dependentRequired and dependentSchemas are resolved
+ * and hidden x-visibleWhen fields removed, at every object level. Array items are not resolved here because each
+ * item can take a different branch; resolve `items` per item instead.
+ */
+export const resolveActiveSchema = <T extends JSONSchemaBranch>(schema: T, data: Record<string, any> | undefined): T => {
+  // Values of hidden fields must not switch on dependentRequired/dependentSchemas branches
+  const values = isPlainObject(data) ? dropHiddenFields(schema, data) : {};
+  const active = resolveLevel(schema, values);
+  for (const [key, prop] of Object.entries(active.properties || {})) {
+    if (prop.type === 'object') active.properties![key] = resolveActiveSchema(prop, values[key]);
+  }
+  return active;
+};
+
+/** Remove the values of declared fields that are hidden for this data, including inside objects and array items. */
+export const dropHiddenFields = (schema: JSONSchemaBranch, data: Record<string, any>): Record<string, any> => {
+  const active = resolveLevel(schema, data);
+  const declared = declaredProperties(schema);
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data || {})) {
+    const prop = active.properties?.[key];
+    if (!prop) {
+      if (!(key in declared)) out[key] = value; // not described by the schema at all, e.g. computed values
+      continue;
+    }
+    if (isPlainObject(value)) out[key] = dropHiddenFields(prop, value);
+    else if (Array.isArray(value) && prop.items) out[key] = value.map((item) => (isPlainObject(item) ? dropHiddenFields(prop.items!, item) : item));
+    else out[key] = value;
+  }
+  return out;
+};
+
+// ---------------- Validation ----------------
+const validateValue = (
+  value: any,
+  prop: JSONSchemaProperty,
+  path: string,
+  label: string,
+  errors: SchemaValidationError[]
+) => {
+  const fail = (keyword: SchemaKeyword, message: string) => errors.push({ path, keyword, message: `${label} ${message}` });
+
+  if (prop.type && !typeMatches(value, prop.type)) {
+    fail('type', `must be ${TYPE_NAMES[prop.type] || prop.type}`);
+    return;
+  }
+  if (prop.enum && !prop.enum.some((option) => String(option) === String(value))) {
+    fail('enum', `must be one of: ${prop.enum.join(', ')}`);
+  }
+  if (prop.const !== undefined && String(prop.const) !== String(value)) {
+    fail('const', `must be ${prop.const}`);
+  }
+
+  if (typeof value === 'string') {
+    const length = Array.from(value).length;
+    if (prop.minLength !== undefined && length < prop.minLength) fail('minLength', `must be at least ${plural(prop.minLength, 'character')}`);
+    if (prop.maxLength !== undefined && length > prop.maxLength) fail('maxLength', `must be at most ${plural(prop.maxLength, 'character')}`);
+    if (prop.pattern) {
+      let re: RegExp | null = null;
+      try {
+        re = new RegExp(prop.pattern);
+      } catch {
+        console.warn(`Ignoring invalid pattern in json_schema at "${path}": ${prop.pattern}`);
+      }
+      if (re && !re.test(value)) fail('pattern', 'is not in the expected format');
+    }
+    const format = prop.format ? FORMATS[prop.format] : undefined;
+    if (format && !format.test(value.trim())) fail('format', format.message);
+  }
+
+  if (typeof value === 'number') {
+    if (prop.minimum !== undefined && value < prop.minimum) fail('minimum', `must be at least ${prop.minimum}`);
+    if (prop.maximum !== undefined && value > prop.maximum) fail('maximum', `must be at most ${prop.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (prop.minItems !== undefined && value.length < prop.minItems) fail('minItems', `needs at least ${plural(prop.minItems, 'item')}`);
+    if (prop.maxItems !== undefined && value.length > prop.maxItems) fail('maxItems', `can have at most ${plural(prop.maxItems, 'item')}`);
+    if (prop.items) {
+      const items = prop.items;
+      value.forEach((item, i) => {
+        const itemPath = childPath(path, i);
+        const itemLabel = `${label} item ${i + 1}`;
+        if (isEmpty(item)) {
+          // Missing rows in a list of objects are skipped; a blank entry in a list of values is an error
+          if (items.type !== 'object') errors.push({ path: itemPath, keyword: 'required', message: `${itemLabel} is empty` });
+          return;
+        }
+        validateValue(item, items, itemPath, itemLabel, errors);
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    validateObject(value, prop, path, errors, label);
+  }
+};
+
+const isBlankInput = (v: unknown): boolean => isEmpty(v) || (Array.isArray(v) && v.length === 0);
+
+// Validates one object level against the branches active for its data; hidden fields are ignored. Labels of
+// nested fields start with the label of their group or list item ("Items item 2 Quantity").
+const validateObject = (
+  value: Record<string, any>,
+  schema: JSONSchemaBranch,
+  path: string,
+  errors: SchemaValidationError[],
+  parentLabel = ''
+) => {
+  const { properties = {}, required } = resolveLevel(schema, value);
+  const labelOf = (key: string) => `${parentLabel ? `${parentLabel} ` : ''}${properties[key]?.title || toLabel(key)}`;
+  for (const key of required || []) {
+    if (isBlankInput(value[key])) {
+      errors.push({ path: childPath(path, key), keyword: 'required', message: `${labelOf(key)} is required` });
+    }
+  }
+  for (const [key, prop] of Object.entries(properties)) {
+    const v = value[key];
+    // Optional fields left blank are skipped; required ones were reported above
+    if (isBlankInput(v) || !prop) continue;
+    validateValue(v, prop, childPath(path, key), labelOf(key), errors);
+  }
+};
+
+/**
+ * Validate inputs against a template's json_schema, following the conditional branches active for the data.
+ * Inputs should already be coerced with coerceToSchemaType (prepareTemplateData does this), so numeric strings
+ * from text fields count as numbers.
+ */
+export const validateAgainstSchema = (
+  schema: JSONSchema | null | undefined,
+  data: Record<string, any>
+): SchemaValidationError[] => {
+  const errors: SchemaValidationError[] = [];
+  if (!schema?.properties) return errors;
+  if (!isPlainObject(data)) {
+    errors.push({ path: '', keyword: 'type', message: 'Inputs must be an object of field values' });
+    return errors;
+  }
+  validateObject(dropHiddenFields(schema, data), schema, '', errors);
+  return errors;
+};
+
+// "Client Email must be a valid email address; Items item 2 Quantity is required"
+export const formatSchemaErrors = (errors: SchemaValidationError[]): string => errors.map((e) => e.message).join('; ');
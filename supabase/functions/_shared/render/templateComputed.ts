@@ -0,0 +1,285 @@
+// Computed fields for TemplateConfig: named arithmetic expressions evaluated over the form data.
+// Keys like `items[].line_total` are evaluated once per array item with the item as scope; other keys
+// are evaluated against the whole data object, in declaration order so later fields can use earlier ones.
+//
+//   computed: {
+//     "items[].line_total": "quantity * unit_price",
+//     "subtotal": "sum(items, line_total)",
+//     "tax": "round(subtotal * tax_rate / 100, 2)",
+//     "total": "subtotal + tax"
+//   }
+import { resolvePath, parsePath, buildItemScope, toNumber } from './templateExpressions.ts';
+
+export type ComputedFields = Record<string, string>;
+
+type Node =
+  | { k: 'num'; v: number }
+  | { k: 'str'; v: string }
+  | { k: 'path'; p: string }
+  | { k: 'unary'; op: string; a: Node }
+  | { k: 'bin'; op: string; a: Node; b: Node }
+  | { k: 'call'; name: string; args: Node[] };
+
+const PATH_RE = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*|\[\s*(?:\d+|'[^']*'|"[^"]*")\s*\])*/;
+
+// ---------------- Parser (recursive descent; no eval) ----------------
+const parse = (src: string): Node => {
+  let pos = 0;
+  const skip = () => {
+    while (pos < src.length && /\s/.test(src[pos])) pos++;
+  };
+  const peek = () => {
+    skip();
+    return src[pos];
+  };
+  const expect = (ch: string) => {
+    if (peek() !== ch) throw new Error(`Expected "${ch}" at position ${pos} in "${src}"`);
+    pos++;
+  };
+
+  const parsePrimary = (): Node => {
+    const ch = peek();
+    if (ch === '(') {
+      pos++;
+      const inner = parseAdditive();
+      expect(')');
+      return inner;
+    }
+    if (ch === "'" || ch === '"') {
+      const end = src.indexOf(ch, pos + 1);
+      if (end === -1) throw new Error(`Unterminated string in "${src}"`);
+      const v = src.slice(pos + 1, end);
+      pos = end + 1;
+      return { k: 'str', v };
+    }
+    const num = src.slice(pos).match(/^\d+(\.\d+)?|^\.\d+/);
+    if (num) {
+      pos += num[0].length;
+      return { k: 'num', v: Number(num[0]) };
+    }
+    const path = src.slice(pos).match(PATH_RE);
+    if (path) {
+      pos += path[0].length;
+      if (peek() === '(') {
+        pos++;
+        const args: Node[] = [];
+        if (peek() !== ')') {
+          args.push(parseAdditive());
+          while (peek() === ',') {
+            pos++;
+            args.push(parseAdditive());
+          }
+        }
+        expect(')');
+        return { k: 'call', name: path[0], args };
+      }
+      return { k: 'path', p: path[0] };
+    }
+    throw new Error(`Unexpected "${ch ?? 'end of input'}" at position ${pos} in "${src}"`);
+  };
+
+  const parseUnary = (): Node => {
+    const ch = peek();
+    if (ch === '-' || ch === '+') {
+      pos++;
+      return { k: 'unary', op: ch, a: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseMultiplicative = (): Node => {
+    let left = parseUnary();
+    while (['*', '/', '%'].includes(peek())) {
+      const op = src[pos++];
+      left = { k: 'bin', op, a: left, b: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseAdditive = (): Node => {
+    let left = parseMultiplicative();
+    while (['+', '-'].includes(peek())) {
+      const op = src[pos++];
+      left = { k: 'bin', op, a: left, b: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const root = parseAdditive();
+  if (peek() !== undefined) throw new Error(`Unexpected "${src[pos]}" at position ${pos} in "${src}"`);
+  return root;
+};
+
+const astCache = new Map<string, Node>();
+const parseCached = (src: string): Node => {
+  let node = astCache.get(src);
+  if (!node) {
+    node = parse(src);
+    astCache.set(src, node);
+  }
+  return node;
+};
+
+// ---------------- Evaluation ----------------
+// Blank or non-numeric inputs count as 0 so totals stay usable while a form is partially filled
+const num = (v: unknown): number => {
+  const n = toNumber(v);
+  return isNaN(n) ? 0 : n;
+};
+
+const isTruthy = (v: unknown): boolean =>
+  !(v == null || v === false || v === 0 || (typeof v === 'string' && v.trim() === '') || (Array.isArray(v) && v.length === 0));
+
+// Aggregates take an array and an optional per-item expression: sum(items, quantity * unit_price)
+const mapItems = (args: Node[], scope: Record<string, any>): any[] => {
+  const arr = evaluate(args[0], scope);
+  if (!Array.isArray(arr)) return [];
+  if (!args[1]) return arr;
+  return arr.map((item, i) => evaluate(args[1], buildItemScope(item, i, scope)));
+};
+
+const FUNCTIONS: Record<string, (args: Node[], scope: Record<string, any>) => any> = {
+  sum: (args, scope) => mapItems(args, scope).reduce((acc: number, v) => acc + num(v), 0),
+  count: (args, scope) => (args[1] ? mapItems(args, scope).filter(isTruthy).length : mapItems(args, scope).length),
+  round: (args, scope) => {
+    const factor = Math.pow(10, args[1] ? num(evaluate(args[1], scope)) : 0);
+    return Math.round(num(evaluate(args[0], scope)) * factor) / factor;
+  },
+  min: (args, scope) => {
+    const values = args.length === 1 || (args.length === 2 && Array.isArray(evaluate(args[0], scope)))
+      ? mapItems(args, scope)
+      : args.map((a) => evaluate(a, scope));
+    return values.length ? Math.min(...values.map(num)) : 0;
+  },
+  max: (args, scope) => {
+    const values = args.length === 1 || (args.length === 2 && Array.isArray(evaluate(args[0], scope)))
+      ? mapItems(args, scope)
+      : args.map((a) => evaluate(a, scope));
+    return values.length ? Math.max(...values.map(num)) : 0;
+  },
+};
+
+const evaluate = (node: Node, scope: Record<string, any>): any => {
+  switch (node.k) {
+    case 'num':
+    case 'str':
+      return node.v;
+    case 'path':
+      return resolvePath(scope, node.p);
+    case 'unary':
+      return node.op === '-' ? -num(evaluate(node.a, scope)) : num(evaluate(node.a, scope));
+    case 'bin': {
+      const a = num(evaluate(node.a, scope));
+      const b = num(evaluate(node.b, scope));
+      switch (node.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        // Division by zero yields 0 rather than Infinity, which would print as garbage in a document
+        case '/': return b === 0 ? 0 : a / b;
+        case '%': return b === 0 ? 0 : a % b;
+      }
+      return 0;
+    }
+    case 'call': {
+      // Own properties only, so `constructor(x)` is an unknown function rather than Object
+      const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+      if (!fn) throw new Error(`Unknown function "${node.name}"`);
+      return fn(node.args, scope);
+    }
+  }
+};
+
+// Trim binary floating point noise (0.1 + 0.2 -> 0.3)
+export const cleanNumber = (v: any): any => (typeof v === 'number' ? (Number.isFinite(v) ? parseFloat(v.toPrecision(12)) : 0) : v);
+
+export const evaluateComputedExpression = (expression: string, scope: Record<string, any>): any =>
+  cleanNumber(evaluate(parseCached(expression), scope));
+
+/**
+ * Data paths an expression reads. An aggregate's array is listed with a trailing `[]` and the paths of its item
+ * expression follow it: `sum(items, quantity * unit_price)` reads `items[]`, `items[].quantity` and
+ * `items[].unit_price`.
+ */
+export const computedExpressionPaths = (expression: string): string[] => {
+  const out: string[] = [];
+  const visit = (node: Node, prefix: string) => {
+    switch (node.k) {
+      case 'path': {
+        // `$parent.x` inside an item expression reads x of the enclosing scope
+        let path = node.p;
+        let scope = prefix;
+        while (path.startsWith('$parent.') && scope) {
+          path = path.slice('$parent.'.length);
+          scope = scope.replace(/[^.]+\[\]\.$/, '');
+        }
+        out.push(scope + path);
+        break;
+      }
+      case 'unary':
+        visit(node.a, prefix);
+        break;
+      case 'bin':
+        visit(node.a, prefix);
+        visit(node.b, prefix);
+        break;
+      case 'call': {
+        const [array, item] = node.args;
+        // min/max of two values look like an aggregate with an item expression, so only one-argument forms count
+        const aggregate = node.name === 'sum' || node.name === 'count' || (node.args.length === 1 && (node.name === 'min' || node.name === 'max'));
+        if (aggregate && array?.k === 'path') {
+          out.push(`${prefix}${array.p}[]`);
+          if (item) visit(item, `${prefix}${array.p}[].`);
+        } else {
+          node.args.forEach((arg) => visit(arg, prefix));
+        }
+        break;
+      }
+    }
+  };
+  visit(parseCached(expression), '');
+  return out;
+};
+
+// Key segments that would write onto Object.prototype instead of into the data
+const UNSAFE_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+export const isUnsafeComputedKey = (key: string): boolean =>
+  parsePath(key).some((segment) => typeof segment === 'string' && UNSAFE_SEGMENTS.has(segment));
+
+// Returns a copy of `obj` with `value` set at `segments`, copying containers along the way
+const setAtPath = (obj: any, segments: Array<string | number>, value: any): any => {
+  if (!segments.length) return value;
+  const [head, ...rest] = segments;
+  if (typeof head === 'string' && UNSAFE_SEGMENTS.has(head)) throw new Error(`"${head}" cannot be set`);
+  const container = Array.isArray(obj) ? [...obj] : { ...(obj && typeof obj === 'object' ? obj : {}) };
+  (container as any)[head] = setAtPath(obj?.[head], rest, value);
+  return container;
+};
+
+export const applyComputedFields = (data: Record<string, any>, computed?: ComputedFields): Record<string, any> => {
+  if (!computed) return data;
+  let out = data;
+  for (const [key, expression] of Object.entries(computed)) {
+    try {
+      if (isUnsafeComputedKey(key)) throw new Error(`"${key}" is not a valid field name`);
+      const perItem = key.match(/^(.+)\[\]\.([\w$]+)$/);
+      if (perItem) {
+        const [, arrayPath, field] = perItem;
+        const arr = resolvePath(out, arrayPath);
+        if (!Array.isArray(arr)) continue;
+        const updated = arr.map((item, i) =>
+          item && typeof item === 'object' && !Array.isArray(item)
+            ? { ...item, [field]: evaluateComputedExpression(expression, buildItemScope(item, i, out)) }
+            : item
+        );
+        out = setAtPath(out, parsePath(arrayPath), updated);
+      } else {
+        out = setAtPath(out, parsePath(key), evaluateComputedExpression(expression, out));
+      }
+    } catch (e) {
+      console.warn(`Failed to evaluate computed field "${key}":`, e);
+    }
+  }
+  return out;
+};
@@ -0,0 +1,220 @@
+// Placeholder expressions for TemplateConfig text: `{{ path | filter:arg | filter }}`
+// Paths support dot and bracket access (items[0].name, row['unit price']); filters are locale-aware.
+
+export type FilterFn = (value: any, args: any[], locale?: string) => any;
+
+// ---------------- Paths ----------------
+const pathCache = new Map<string, Array<string | number>>();
+
+export const parsePath = (path: string): Array<string | number> => {
+  const cached = pathCache.get(path);
+  if (cached) return cached;
+  const segments: Array<string | number> = [];
+  const re = /([^.[\]]+)|\[\s*(?:(\d+)|'([^']*)'|"([^"]*)")\s*\]/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(path))) {
+    if (m[1] !== undefined) segments.push(m[1].trim());
+    else if (m[2] !== undefined) segments.push(Number(m[2]));
+    else segments.push(m[3] ?? m[4] ?? '');
+  }
+  pathCache.set(path, segments);
+  return segments;
+};
+
+export const resolvePath = (obj: any, path?: string): any => {
+  if (!path) return '';
+  return parsePath(path).reduce((acc: any, key) => (acc == null ? undefined : acc[key]), obj);
+};
+
+// Binding scope for one array item (repeat blocks, per-item computed fields): the item's own keys plus
+// `$item` (the raw item, useful for arrays of primitives), `$index` (0-based) and `$parent`
+export const buildItemScope = (item: unknown, index: number, parent: Record<string, any>): Record<string, any> => ({
+  ...(item && typeof item === 'object' && !Array.isArray(item) ? (item as Record<string, any>) : {}),
+  $item: item,
+  $index: index,
+  $parent: parent,
+});
+
+// ---------------- Value helpers ----------------
+export const escapeHtml = (v: unknown): string => {
+  const s = v == null ? '' : String(v);
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+export const toNumber = (v: unknown): number => {
+  if (typeof v === 'number') return v;
+  if (typeof v === 'string' && v.trim() !== '') return Number(v.replace(/[,\s]/g, ''));
+  return NaN;
+};
+
+// Date-only ISO strings (yyyy-mm-dd) are parsed as local dates so they don't shift a day in western timezones
+export const toDate = (v: unknown): Date | null => {
+  if (v instanceof Date) return isNaN(v.getTime()) ? null : v;
+  if (typeof v === 'number') return new Date(v);
+  if (typeof v !== 'string' || !v.trim()) return null;
+  const dateOnly = v.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const d = dateOnly ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3])) : new Date(v);
+  return isNaN(d.getTime()) ? null : d;
+};
+
+const isBlank = (v: unknown): boolean =>
+  v == null || (typeof v === 'string' && v.trim() === '') || (Array.isArray(v) && v.length === 0);
+
+export const pad2 = (n: number) => String(n).padStart(2, '0');
+
+const intlPart = (d: Date, locale: string | undefined, opts: Intl.DateTimeFormatOptions): string => {
+  try {
+    return new Intl.DateTimeFormat(locale, opts).format(d);
+  } catch {
+    return new Intl.DateTimeFormat(undefined, opts).format(d);
+  }
+};
+
+// Supports yyyy, yy, MMMM, MMM, MM, M, dd, d, EEEE, EEE, HH, H, hh, h, mm, ss, a and 'quoted literals';
+// the presets short, medium, long and full map onto Intl dateStyle
+export const formatDate = (d: Date, pattern = 'medium', locale?: string): string => {
+  if (['short', 'medium', 'long', 'full'].includes(pattern)) {
+    return intlPart(d, locale, { dateStyle: pattern as 'short' | 'medium' | 'long' | 'full' });
+  }
+  const tokens: Record<string, () => string> = {
+    yyyy: () => String(d.getFullYear()),
+    yy: () => pad2(d.getFullYear() % 100),
+    MMMM: () => intlPart(d, locale, { month: 'long' }),
+    MMM: () => intlPart(d, locale, { month: 'short' }),
+    MM: () => pad2(d.getMonth() + 1),
+    M: () => String(d.getMonth() + 1),
+    dd: () => pad2(d.getDate()),
+    d: () => String(d.getDate()),
+    EEEE: () => intlPart(d, locale, { weekday: 'long' }),
+    EEE: () => intlPart(d, locale, { weekday: 'short' }),
+    HH: () => pad2(d.getHours()),
+    H: () => String(d.getHours()),
+    hh: () => pad2(d.getHours() % 12 || 12),
+    h: () => String(d.getHours() % 12 || 12),
+    mm: () => pad2(d.getMinutes()),
+    ss: () => pad2(d.getSeconds()),
+    a: () => (d.getHours() < 12 ? 'AM' : 'PM'),
+  };
+  return pattern.replace(/'([^']*)'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|ss|a/g, (m, literal) =>
+    literal !== undefined ? literal : tokens[m]()
+  );
+};
+
+// An unsupported locale falls back to the default one; options Intl rejects outright (an unknown currency code,
+// more than 20 decimals) leave the value unformatted rather than failing the whole render
+const formatNumber = (v: unknown, locale: string | undefined, opts: Intl.NumberFormatOptions): any => {
+  const n = toNumber(v);
+  if (isNaN(n)) return v;
+  for (const l of [locale, undefined]) {
+    try {
+      return new Intl.NumberFormat(l, opts).format(n);
+    } catch {
+      // try the next locale
+    }
+  }
+  return v;
+};
+
+// ---------------- Filters ----------------
+export const FILTERS: Record<string, FilterFn> = {
+  upper: (v) => (v == null ? v : String(v).toUpperCase()),
+  lower: (v) => (v == null ? v : String(v).toLowerCase()),
+  capitalize: (v) => (v == null ? v : String(v).charAt(0).toUpperCase() + String(v).slice(1)),
+  title: (v) => (v == null ? v : String(v).toLowerCase().replace(/\b\w/g, (m) => m.toUpperCase())),
+  trim: (v) => (v == null ? v : String(v).trim()),
+  default: (v, [fallback = '']) => (isBlank(v) ? fallback : v),
+  number: (v, [decimals], locale) =>
+    formatNumber(v, locale, decimals == null ? {} : { minimumFractionDigits: Number(decimals), maximumFractionDigits: Number(decimals) }),
+  currency: (v, [currency = 'USD', currencyLocale], locale) =>
+    formatNumber(v, currencyLocale || locale, { style: 'currency', currency: String(currency) }),
+  // Expects a ratio (0.15 -> 15%)
+  percent: (v, [decimals = 0], locale) =>
+    formatNumber(v, locale, { style: 'percent', maximumFractionDigits: Number(decimals) }),
+  date: (v, [pattern = 'medium'], locale) => {
+    const d = toDate(v);
+    return d ? formatDate(d, String(pattern), locale) : v;
+  },
+  join: (v, [separator = ', ']) => (Array.isArray(v) ? v.join(String(separator)) : v),
+  first: (v) => (Array.isArray(v) ? v[0] : v),
+  last: (v) => (Array.isArray(v) ? v[v.length - 1] : v),
+  length: (v) => (v == null ? 0 : Array.isArray(v) || typeof v === 'string' ? v.length : Object.keys(v).length),
+  truncate: (v, [max = 50, suffix = '…']) => {
+    if (v == null) return v;
+    const s = String(v);
+    return s.length > Number(max) ? s.slice(0, Number(max)) + suffix : s;
+  },
+};
+
+// Own keys only, so `constructor`, `toString` and the like are not taken for filters
+export const getFilter = (name: string): FilterFn | undefined =>
+  Object.prototype.hasOwnProperty.call(FILTERS, name) ? FILTERS[name] : undefined;
+
+// ---------------- Expression parsing ----------------
+// Split on a separator that is not inside single or double quotes
+const splitOutsideQuotes = (input: string, sep: string): string[] => {
+  const out: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+  for (const ch of input) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === sep) {
+      out.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  out.push(current);
+  return out.map((s) => s.trim());
+};
+
+export interface ParsedExpression {
+  head: string; // a literal or a data path
+  filters: Array<{ name: string; args: string[] }>; // args are unevaluated operands
+}
+
+/** Split `path | filter:arg | filter` into its parts; `|` and `:` inside quoted arguments are kept. */
+export const parseExpression = (expression: string): ParsedExpression => {
+  const [head, ...filters] = splitOutsideQuotes(expression, '|');
+  return {
+    head,
+    filters: filters.map((f) => {
+      const [name, ...args] = splitOutsideQuotes(f, ':');
+      return { name, args };
+    }),
+  };
+};
+
+// Literals: 'text', "text", numbers, true/false/null; anything else is a data path
+export const isLiteral = (token: string): boolean => /^'.*'$|^".*"$|^-?\d+(\.\d+)?$|^(true|false|null)$/.test(token.trim());
+
+const evaluateOperand = (token: string, data: Record<string, any>): any => {
+  const t = token.trim();
+  if (/^'.*'$|^".*"$/.test(t)) return t.slice(1, -1);
+  if (/^-?\d+(\.\d+)?$/.test(t)) return Number(t);
+  if (t === 'true') return true;
+  if (t === 'false') return false;
+  if (t === 'null') return null;
+  return resolvePath(data, t);
+};
+
+export const evaluateExpression = (expression: string, data: Record<string, any>, locale?: string): any => {
+  const { head, filters } = parseExpression(expression);
+  let value = evaluateOperand(head, data);
+  for (const { name, args } of filters) {
+    const fn = getFilter(name);
+    if (!fn) continue; // unknown filters are ignored rather than breaking the document
+    value = fn(value, args.map((a) => evaluateOperand(a, data)), locale);
+  }
+  return value;
+};
+
+export const MUSTACHE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
@@ -0,0 +1,724 @@
+// Static checks for a TemplateConfig against the template's json_schema. Run before a template is saved (admin
+// editor, save-template edge function) and by generate-document before rendering, so a broken layout is reported
+// with a location instead of producing an empty or half-rendered document.
+//
+// Every issue carries a JSON pointer into either the TemplateConfig (`/blocks/3/columns/1/path`) or the
+// json_schema (`/properties/client/properties/email`).
+import {
+  TemplateBlock,
+  TemplateConfig,
+  BlockCondition,
+  CSSStyle,
+  PageRegion,
+  PAGE_SIZES_PT,
+  SAFE_IMAGE_SRC,
+} from './templateRenderer.ts';
+import { JSONSchema, JSONSchemaProperty } from './schemaTemplate.ts';
+import { declaredProperties } from './schemaValidation.ts';
+import { parsePath, getFilter, parseExpression, isLiteral, MUSTACHE_PATTERN } from './templateExpressions.ts';
+import { evaluateComputedExpression, isUnsafeComputedKey } from './templateComputed.ts';
+import { toPoints, toHexColor } from './cssStyle.ts';
+
+export type TemplateIssueSeverity = 'error' | 'warning' | 'info';
+
+export interface TemplateIssue {
+  severity: TemplateIssueSeverity;
+  source: 'templateConfig' | 'jsonSchema'; // document the pointer refers to
+  pointer: string;
+  code: string;
+  message: string;
+}
+
+export const BLOCK_TYPES: TemplateBlock['type'][] = [
+  'heading', 'paragraph', 'line', 'list', 'table', 'keyValueTable', 'keyValueList',
+  'divider', 'spacer', 'signature', 'repeat', 'image',
+];
+const COLUMN_FORMATS = ['number', 'currency', 'percent', 'date'];
+const AGGREGATES = ['sum', 'avg', 'min', 'max', 'count'];
+const ALIGNMENTS = ['left', 'center', 'right'];
+// Names the renderer adds to the data (prepareTemplateData)
+const BUILT_IN_FIELDS = ['_template_name', '_generated_at'];
+
+// RFC 6901 escaping of one pointer segment
+const token = (segment: string | number): string => String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+const pointerTo = (base: string, ...segments: Array<string | number>): string =>
+  base + segments.map((s) => '/' + token(s)).join('');
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// ---------------- Binding scopes ----------------
+// The fields a path may start with at some point of the template: the schema properties of the data object (or of
+// one array item inside tables and repeat blocks), plus computed and built-in names the schema doesn't describe.
+// Properties declared in conditional branches (then/else/dependentSchemas) count, since they may be filled in.
+type DeclaredFields = ReturnType<typeof declaredProperties>;
+interface Scope {
+  fields: DeclaredFields;
+  extra: Set<string>;
+  open?: boolean; // no schema for this level, so any path is accepted
+  item?: { prop: JSONSchemaProperty; pointer: string }; // `$item` inside an array scope
+  parent?: Scope; // `$parent`
+}
+
+interface ResolvedPath {
+  prop?: JSONSchemaProperty; // undefined when the schema doesn't describe the value (computed, open objects)
+  pointer?: string;
+}
+
+const resolveInScope = (scope: Scope, path: string): ResolvedPath | null => {
+  const segments = parsePath(path);
+  let i = 0;
+  while (segments[i] === '$parent' && scope.parent) {
+    scope = scope.parent;
+    i++;
+  }
+  const first = segments[i];
+  if (first === undefined) return null;
+  let prop: JSONSchemaProperty | undefined;
+  let pointer: string;
+  if (first === '$item' && scope.item) {
+    ({ prop, pointer } = scope.item);
+  } else if (first === '$index' && scope.item) {
+    return i === segments.length - 1 ? { prop: { type: 'integer' } } : null;
+  } else if (typeof first === 'string' && Object.prototype.hasOwnProperty.call(scope.fields, first)) {
+    ({ prop, pointer } = scope.fields[first]);
+  } else if (scope.open || scope.extra.has(String(first))) {
+    return {};
+  } else {
+    return null;
+  }
+  for (const segment of segments.slice(i + 1)) {
+    if (prop.type === 'array') {
+      if (segment === 'length') return { prop: { type: 'integer' } };
+      if (typeof segment !== 'number' || !prop.items) return typeof segment === 'number' ? { pointer } : null;
+      prop = prop.items;
+      pointer = pointerTo(pointer, 'items');
+    } else if (prop.type === 'object') {
+      const fields = declaredProperties(prop, pointer);
+      // An object without declared properties accepts any key
+      if (!Object.keys(fields).length) return { pointer };
+      if (!Object.prototype.hasOwnProperty.call(fields, segment)) return null;
+      ({ prop, pointer } = fields[segment]);
+    } else {
+      return segment === 'length' && prop.type === 'string' ? { prop: { type: 'integer' } } : null;
+    }
+  }
+  return { prop, pointer };
+};
+
+// Scope for the items of the array at `resolved`; per-item computed fields (`items[].line_total`) are added
+const itemScope = (resolved: ResolvedPath | null, parent: Scope, extra: Set<string>): Scope => {
+  const items = resolved?.prop?.type === 'array' ? resolved.prop.items : undefined;
+  if (!items || !resolved?.pointer) return { fields: {}, extra, open: true, parent };
+  const pointer = pointerTo(resolved.pointer, 'items');
+  const fields = items.type === 'object' ? declaredProperties(items, pointer) : {};
+  return {
+    fields,
+    extra,
+    open: items.type === 'object' && !Object.keys(fields).length,
+    item: { prop: items, pointer },
+    parent,
+  };
+};
+
+// ---------------- CSS ----------------
+const LENGTH_PROPERTY = /^(font-size|width|height|(min|max)-(width|height)|margin(-(top|right|bottom|left))?|padding(-(top|right|bottom|left))?|border(-(top|right|bottom|left))?-width|border-radius|(row-|column-)?gap|top|right|bottom|left|text-indent|letter-spacing)$/;
+const COLOR_PROPERTY = /^(color|background-color|border(-(top|right|bottom|left))?-color)$/;
+const FONT_WEIGHTS = ['normal', 'bold', 'bolder', 'lighter', '100', '200', '300', '400', '500', '600', '700', '800', '900'];
+const TEXT_ALIGNS = ['left', 'center', 'right', 'justify', 'start', 'end'];
+const CSS_KEYWORD = /^(auto|inherit|initial|unset|normal|none)$/;
+const CSS_FUNCTION = /^(var|calc|min|max|clamp)\(/;
+
+const isCssLength = (part: string): boolean =>
+  toPoints(part) !== undefined || /^-?\d+(\.\d+)?%$/.test(part) || CSS_KEYWORD.test(part) || CSS_FUNCTION.test(part);
+
+const isCssColor = (value: string): boolean =>
+  toHexColor(value) !== undefined || /^(transparent|currentcolor|inherit|none)$/i.test(value.trim());
+
+// ---------------- Linter ----------------
+/**
+ * Check a TemplateConfig for problems that would break or silently blank out the rendered document.
+ * Paths are only checked when `jsonSchema` has properties; without one the layout is checked on its own.
+ */
+export const validateTemplateConfig = (config: unknown, jsonSchema?: JSONSchema | null): TemplateIssue[] => {
+  const issues: TemplateIssue[] = [];
+  const report = (severity: TemplateIssueSeverity, pointer: string, code: string, message: string) =>
+    issues.push({ severity, source: 'templateConfig', pointer, code, message });
+
+  if (!isObject(config)) {
+    report('error', '', 'invalid-config', 'templateConfig must be an object.');
+    return issues;
+  }
+  const template = config as unknown as TemplateConfig;
+  const hasSchema = isObject(jsonSchema) && isObject(jsonSchema.properties) && Object.keys(jsonSchema.properties).length > 0;
+  if (!hasSchema) {
+    report('info', '', 'no-schema', 'The template has no json_schema properties, so bind paths were not checked.');
+  }
+
+  // Schema pointers a block reads as a whole value, and every pointer on the way to one (for nested usage)
+  const usedWhole = new Set<string>();
+  const touched = new Set<string>();
+  const markUsed = (pointer: string | undefined, whole: boolean) => {
+    if (!pointer) return;
+    if (whole) usedWhole.add(pointer);
+    for (let p = pointer; p; p = p.slice(0, p.lastIndexOf('/'))) touched.add(p);
+  };
+
+  // Computed fields are valid binding targets even though the schema doesn't list them
+  const computed = isObject(template.computed) ? template.computed : {};
+  const rootExtra = new Set<string>(BUILT_IN_FIELDS);
+  const itemExtra = new Map<string, Set<string>>();
+  for (const key of Object.keys(computed)) {
+    const perItem = key.match(/^(.+)\[\]\.([\w$]+)$/);
+    if (perItem) {
+      const set = itemExtra.get(perItem[1].trim()) || new Set<string>();
+      set.add(perItem[2]);
+      itemExtra.set(perItem[1].trim(), set);
+    } else {
+      rootExtra.add(String(parsePath(key)[0]));
+    }
+  }
+  const rootScope: Scope = {
+    fields: hasSchema ? declaredProperties(jsonSchema!) : {},
+    extra: rootExtra,
+    open: !hasSchema,
+  };
+
+  const checkPath = (
+    path: unknown,
+    scope: Scope,
+    pointer: string,
+    options?: { severity?: TemplateIssueSeverity; whole?: boolean }
+  ): ResolvedPath | null => {
+    if (typeof path !== 'string' || !path.trim()) {
+      report('error', pointer, 'invalid-path', 'Expected a non-empty path string.');
+      return null;
+    }
+    const resolved = resolveInScope(scope, path);
+    if (!resolved) {
+      report(options?.severity || 'error', pointer, 'unknown-path', `"${path}" does not exist in json_schema.`);
+      return null;
+    }
+    markUsed(resolved.pointer, options?.whole ?? true);
+    return resolved;
+  };
+
+  const checkArrayPath = (path: unknown, scope: Scope, pointer: string, whole: boolean): ResolvedPath | null => {
+    const resolved = checkPath(path, scope, pointer, { whole });
+    if (resolved?.prop && resolved.prop.type !== 'array') {
+      report('warning', pointer, 'not-an-array', `"${path}" is a ${resolved.prop.type} in json_schema, but an array is expected here.`);
+    }
+    return resolved;
+  };
+
+  // `{{ path | filter:arg }}` placeholders; unknown roots only warn because a blank placeholder may be intended
+  const checkText = (text: unknown, scope: Scope, pointer: string) => {
+    if (text == null) return;
+    if (typeof text !== 'string') {
+      report('error', pointer, 'invalid-text', 'Expected a string.');
+      return;
+    }
+    for (const match of text.matchAll(MUSTACHE_PATTERN)) {
+      const { head, filters } = parseExpression(match[1]);
+      for (const { name } of filters) {
+        if (!getFilter(name)) report('warning', pointer, 'unknown-filter', `Unknown filter "${name}" is ignored when rendering.`);
+      }
+      if (isLiteral(head)) continue;
+      checkPath(head, scope, pointer, { severity: 'warning' });
+    }
+  };
+
+  const checkStyle = (style: unknown, pointer: string) => {
+    if (style == null) return;
+    if (!isObject(style)) {
+      report('error', pointer, 'invalid-style', 'A style must be an object of CSS properties.');
+      return;
+    }
+    for (const [name, value] of Object.entries(style as CSSStyle)) {
+      const at = pointerTo(pointer, name);
+      if (value == null || value === '') continue;
+      if (!/^-{0,2}[a-zA-Z][a-zA-Z0-9-]*$/.test(name)) {
+        report('error', at, 'invalid-css-property', `"${name}" is not a valid CSS property name.`);
+        continue;
+      }
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        report('error', at, 'invalid-css-value', 'CSS values must be strings or numbers.');
+        continue;
+      }
+      const text = String(value).trim();
+      // Styles are written into a style="" attribute unescaped
+      if (/[;"<>{}]/.test(text)) {
+        report('error', at, 'invalid-css-value', `"${text}" contains characters that are not allowed in an inline style.`);
+        continue;
+      }
+      const prop = name.replace(/[A-Z]/g, (m) => '-' + m.toLowerCase());
+      if (LENGTH_PROPERTY.test(prop)) {
+        if (typeof value === 'number' && value !== 0) {
+          report('warning', at, 'css-missing-unit', `${name}: ${value} has no unit; use e.g. "${value}px".`);
+        } else if (!text.split(/\s+/).every(isCssLength)) {
+          report('warning', at, 'invalid-css-length', `${name}: "${text}" is not a length the PDF and DOCX generators understand.`);
+        }
+      } else if (COLOR_PROPERTY.test(prop) || (prop === 'background' && !/^(url|linear-gradient|radial-gradient)\(/.test(text))) {
+        if (!isCssColor(text)) report('warning', at, 'invalid-css-color', `${name}: "${text}" is not a recognised color.`);
+      } else if (prop === 'font-weight') {
+        if (!FONT_WEIGHTS.includes(text.toLowerCase())) report('warning', at, 'invalid-css-value', `fontWeight: "${text}" is not a valid font weight.`);
+      } else if (prop === 'text-align') {
+        if (!TEXT_ALIGNS.includes(text.toLowerCase())) report('warning', at, 'invalid-css-value', `textAlign: "${text}" is not a valid alignment.`);
+      }
+    }
+  };
+
+  const checkConditions = (conds: unknown, scope: Scope, pointer: string) => {
+    if (conds == null) return;
+    const list = Array.isArray(conds) ? conds : [conds];
+    list.forEach((cond, i) => {
+      const at = Array.isArray(conds) ? pointerTo(pointer, i) : pointer;
+      if (!isObject(cond)) {
+        report('error', at, 'invalid-condition', 'A condition must be an object with a path.');
+        return;
+      }
+      const c = cond as unknown as BlockCondition;
+      checkPath(c.path, scope, pointerTo(at, 'path'));
+      if (c.greaterThan !== undefined && typeof c.greaterThan !== 'number') {
+        report('error', pointerTo(at, 'greaterThan'), 'invalid-condition', 'greaterThan must be a number.');
+      }
+      if (c.in !== undefined && !Array.isArray(c.in)) {
+        report('error', pointerTo(at, 'in'), 'invalid-condition', '"in" must be an array of values.');
+      }
+    });
+  };
+
+  // bind.path wins over path, as in the renderer
+  const boundPath = (x: any): unknown => (isObject(x?.bind) ? x.bind.path : x?.path);
+  const hasBinding = (x: any): boolean => isObject(x?.bind) || x?.path !== undefined;
+  const bindingPointer = (base: string, x: any): string =>
+    isObject(x?.bind) ? pointerTo(base, 'bind', 'path') : pointerTo(base, 'path');
+
+  const checkRows = (rows: unknown, scope: Scope, pointer: string) => {
+    if (!Array.isArray(rows)) {
+      report('error', pointer, 'invalid-rows', 'rows must be an array of { label, path } objects.');
+      return;
+    }
+    rows.forEach((row, i) => {
+      const at = pointerTo(pointer, i);
+      if (!isObject(row)) return report('error', at, 'invalid-row', 'A row must be an object.');
+      if (typeof row.label !== 'string') report('warning', pointerTo(at, 'label'), 'missing-label', 'The row has no label.');
+      checkPath(boundPath(row), scope, bindingPointer(at, row));
+    });
+  };
+
+  const checkTable = (b: any, scope: Scope, pointer: string) => {
+    const source = b.dataPath ?? b.sourcePath;
+    const sourceKey = b.dataPath !== undefined ? 'dataPath' : 'sourcePath';
+    // Without a data path the table has a single row: the current data object
+    const rowScope = source !== undefined
+      ? itemScope(checkArrayPath(source, scope, pointerTo(pointer, sourceKey), false), scope, itemExtra.get(String(source).trim()) || new Set())
+      : scope;
+    if (!Array.isArray(b.columns) || !b.columns.length) {
+      report('error', pointerTo(pointer, 'columns'), 'invalid-columns', 'A table needs a non-empty columns array.');
+      return;
+    }
+    const columnPaths = new Set<string>();
+    b.columns.forEach((col: any, i: number) => {
+      const at = pointerTo(pointer, 'columns', i);
+      if (!isObject(col)) return report('error', at, 'invalid-column', 'A column must be an object with header and path.');
+      if (typeof col.header !== 'string') report('warning', pointerTo(at, 'header'), 'missing-header', 'The column has no header.');
+      if (checkPath(col.path, rowScope, pointerTo(at, 'path'))) columnPaths.add(col.path);
+      if (col.format !== undefined && !COLUMN_FORMATS.includes(col.format)) {
+        report('error', pointerTo(at, 'format'), 'invalid-format', `Unknown column format "${col.format}"; expected ${COLUMN_FORMATS.join(', ')}.`);
+      }
+      if (col.align !== undefined && !ALIGNMENTS.includes(col.align)) {
+        report('error', pointerTo(at, 'align'), 'invalid-align', `Unknown alignment "${col.align}".`);
+      }
+      if (col.width !== undefined) checkStyle({ width: col.width }, at);
+    });
+    if (b.footer !== undefined && !Array.isArray(b.footer)) {
+      report('error', pointerTo(pointer, 'footer'), 'invalid-footer', 'footer must be an array of rows.');
+    }
+    (Array.isArray(b.footer) ? b.footer : []).forEach((row: any, r: number) => {
+      const rowAt = pointerTo(pointer, 'footer', r);
+      checkText(row?.label, scope, pointerTo(rowAt, 'label'));
+      checkStyle(row?.style, pointerTo(rowAt, 'style'));
+      (Array.isArray(row?.cells) ? row.cells : []).forEach((cell: any, c: number) => {
+        const at = pointerTo(rowAt, 'cells', c);
+        if (!isObject(cell)) return report('error', at, 'invalid-footer-cell', 'A footer cell must be an object.');
+        if (!b.columns.some((col: any) => col?.path === cell.column)) {
+          report('error', pointerTo(at, 'column'), 'unknown-column', `Footer cell refers to "${cell.column}", which is not a column path of this table.`);
+        }
+        if (cell.aggregate !== undefined && !AGGREGATES.includes(cell.aggregate)) {
+          report('error', pointerTo(at, 'aggregate'), 'invalid-aggregate', `Unknown aggregate "${cell.aggregate}"; expected ${AGGREGATES.join(', ')}.`);
+        } else if (cell.aggregate === undefined && hasBinding(cell)) {
+          checkPath(boundPath(cell), scope, bindingPointer(at, cell));
+        } else {
+          checkText(cell.text, scope, pointerTo(at, 'text'));
+        }
+      });
+    });
+    checkText(b.emptyMessage, scope, pointerTo(pointer, 'emptyMessage'));
+    for (const key of ['headerStyle', 'cellStyle', 'footerStyle']) checkStyle(b[key], pointerTo(pointer, key));
+  };
+
+  const checkBlocks = (blocks: unknown, scope: Scope, pointer: string) => {
+    if (!Array.isArray(blocks)) {
+      report('error', pointer, 'invalid-blocks', 'blocks must be an array.');
+      return;
+    }
+    blocks.forEach((block, i) => checkBlock(block, scope, pointerTo(pointer, i)));
+  };
+
+  const checkBlock = (block: unknown, scope: Scope, pointer: string) => {
+    if (!isObject(block)) {
+      report('error', pointer, 'invalid-block', 'A block must be an object with a type.');
+      return;
+    }
+    const b = block as any;
+    if (!BLOCK_TYPES.includes(b.type)) {
+      report('error', pointerTo(pointer, 'type'), 'unknown-block-type',
+        `Unknown block type "${b.type}"; expected one of ${BLOCK_TYPES.join(', ')}.`);
+      return;
+    }
+    checkConditions(b.when, scope, pointerTo(pointer, 'when'));
+    checkConditions(b.unless, scope, pointerTo(pointer, 'unless'));
+    checkStyle(b.style, pointerTo(pointer, 'style'));
+    switch (b.type as TemplateBlock['type']) {
+      case 'heading':
+        if (b.level !== undefined && !(Number.isInteger(b.level) && b.level >= 1 && b.level <= 6)) {
+          report('error', pointerTo(pointer, 'level'), 'invalid-heading-level', `Heading level must be an integer from 1 to 6, got ${JSON.stringify(b.level)}.`);
+        }
+        if (typeof b.text !== 'string' || !b.text.trim()) report('warning', pointerTo(pointer, 'text'), 'empty-text', 'The heading has no text.');
+        else checkText(b.text, scope, pointerTo(pointer, 'text'));
+        break;
+      case 'paragraph':
+        if (b.text != null) checkText(b.text, scope, pointerTo(pointer, 'text'));
+        else if (hasBinding(b)) checkPath(boundPath(b), scope, bindingPointer(pointer, b));
+        else report('warning', pointer, 'empty-text', 'The paragraph has neither text nor bind.path.');
+        break;
+      case 'line':
+        if (!Array.isArray(b.parts)) {
+          report('error', pointerTo(pointer, 'parts'), 'invalid-parts', 'A line needs a parts array.');
+          break;
+        }
+        b.parts.forEach((part: any, p: number) => {
+          const at = pointerTo(pointer, 'parts', p);
+          if (hasBinding(part)) checkPath(boundPath(part), scope, bindingPointer(at, part));
+        });
+        break;
+      case 'list': {
+        const source = b.dataPath ?? b.sourcePath;
+        if (source !== undefined) {
+          checkArrayPath(source, scope, pointerTo(pointer, b.dataPath !== undefined ? 'dataPath' : 'sourcePath'), true);
+        } else if (Array.isArray(b.items)) {
+          b.items.forEach((item: any, n: number) => {
+            const at = pointerTo(pointer, 'items', n);
+            if (typeof item === 'string') checkText(item, scope, at);
+            else if (hasBinding(item)) checkPath(boundPath(item), scope, bindingPointer(at, item));
+          });
+        } else {
+          report('warning', pointer, 'empty-list', 'The list has neither dataPath nor items.');
+        }
+        break;
+      }
+      case 'table':
+        checkTable(b, scope, pointer);
+        break;
+      case 'keyValueTable':
+      case 'keyValueList':
+        checkRows(b.rows, scope, pointerTo(pointer, 'rows'));
+        break;
+      case 'spacer':
+        if (b.size !== undefined && !(typeof b.size === 'number' && b.size >= 0)) {
+          report('error', pointerTo(pointer, 'size'), 'invalid-size', 'Spacer size must be a non-negative number of pixels.');
+        }
+        break;
+      case 'signature':
+        for (const key of ['name', 'title', 'image']) {
+          if (isObject(b[key])) checkPath(b[key].bind?.path, scope, pointerTo(pointer, key, 'bind', 'path'));
+        }
+        break;
+      case 'image':
+        if (hasBinding(b)) checkPath(boundPath(b), scope, bindingPointer(pointer, b));
+        else if (typeof b.src === 'string' && b.src.trim()) {
+          checkText(b.src, scope, pointerTo(pointer, 'src'));
+          // A fixed source is known now; one built from placeholders is only checked when rendering
+          if (!b.src.includes('{{') && !SAFE_IMAGE_SRC.test(b.src.trim())) {
+            report('warning', pointerTo(pointer, 'src'), 'unsupported-image-source', 'Only http(s), file and data:image sources are rendered; this image is skipped.');
+          }
+        } else report('error', pointer, 'missing-image-source', 'The image needs a src or a bound path.');
+        checkText(b.alt, scope, pointerTo(pointer, 'alt'));
+        if (b.align !== undefined && !ALIGNMENTS.includes(b.align)) {
+          report('error', pointerTo(pointer, 'align'), 'invalid-align', `Unknown alignment "${b.align}".`);
+        }
+        if (b.width !== undefined || b.height !== undefined) {
+          const size: CSSStyle = {};
+          if (b.width !== undefined) size.width = typeof b.width === 'number' ? `${b.width}px` : b.width;
+          if (b.height !== undefined) size.height = typeof b.height === 'number' ? `${b.height}px` : b.height;
+          checkStyle(size, pointer);
+        }
+        break;
+      case 'repeat': {
+        const source = b.dataPath ?? b.sourcePath;
+        if (source === undefined) {
+          report('error', pointer, 'missing-data-path', 'A repeat block needs a dataPath to an array.');
+          break;
+        }
+        const resolved = checkArrayPath(source, scope, pointerTo(pointer, b.dataPath !== undefined ? 'dataPath' : 'sourcePath'), false);
+        checkBlocks(b.blocks, itemScope(resolved, scope, itemExtra.get(String(source).trim()) || new Set()), pointerTo(pointer, 'blocks'));
+        break;
+      }
+    }
+  };
+
+  const checkComputed = () => {
+    for (const [key, expression] of Object.entries(computed)) {
+      const at = pointerTo('/computed', key);
+      if (typeof expression !== 'string') {
+        report('error', at, 'invalid-computed', 'A computed field must be an expression string.');
+        continue;
+      }
+      if (isUnsafeComputedKey(key)) {
+        report('error', at, 'invalid-computed', `"${key}" is not a valid field name.`);
+        continue;
+      }
+      try {
+        evaluateComputedExpression(expression, {});
+      } catch (e) {
+        report('error', at, 'invalid-computed', e instanceof Error ? e.message : String(e));
+        continue;
+      }
+      const perItem = key.match(/^(.+)\[\]\.([\w$]+)$/);
+      let scope = rootScope;
+      if (perItem) {
+        const resolved = resolveInScope(rootScope, perItem[1]);
+        if (!resolved) {
+          report('error', at, 'unknown-path', `"${perItem[1]}" does not exist in json_schema.`);
+          continue;
+        }
+        scope = itemScope(resolved, rootScope, itemExtra.get(perItem[1].trim()) || new Set());
+      }
+      // Paths in aggregate arguments (sum(items, quantity)) are evaluated per item of an array in the expression
+      const names = [...expression.replace(/'[^']*'|"[^"]*"/g, '').matchAll(/([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*(\()?/g)]
+        .filter((m) => !m[2])
+        .map((m) => m[1]);
+      const arrayScopes = names.flatMap((name) => {
+        const resolved = resolveInScope(scope, name);
+        return resolved?.prop?.type === 'array' ? [itemScope(resolved, scope, itemExtra.get(name) || new Set())] : [];
+      });
+      for (const name of names) {
+        const resolved = [scope, ...arrayScopes].map((s) => resolveInScope(s, name)).find(Boolean);
+        if (resolved) markUsed(resolved.pointer, resolved.prop?.type !== 'array');
+        else report('warning', at, 'unknown-path', `"${name}" does not exist in json_schema and evaluates to 0.`);
+      }
+    }
+  };
+
+  const checkRegion = (region: PageRegion | undefined, pointer: string) => {
+    if (region == null) return;
+    if (!isObject(region)) {
+      report('error', pointer, 'invalid-page-region', 'A page header or footer must be an object with blocks.');
+      return;
+    }
+    const scope: Scope = { ...rootScope, extra: new Set([...rootExtra, '$page', '$pages']) };
+    checkBlocks(region.blocks, scope, pointerTo(pointer, 'blocks'));
+    if (region.align !== undefined && !ALIGNMENTS.includes(region.align)) {
+      report('error', pointerTo(pointer, 'align'), 'invalid-align', `Unknown alignment "${region.align}".`);
+    }
+  };
+
+  const checkPage = () => {
+    const page = template.page as any;
+    if (page == null) return;
+    if (!isObject(page)) {
+      report('error', '/page', 'invalid-page', 'page must be an object.');
+      return;
+    }
+    if (page.size !== undefined && !(page.size in PAGE_SIZES_PT)) {
+      report('error', '/page/size', 'invalid-page-size', `Unknown page size "${page.size}"; expected ${Object.keys(PAGE_SIZES_PT).join(', ')}.`);
+    }
+    if (page.orientation !== undefined && !['portrait', 'landscape'].includes(page.orientation)) {
+      report('error', '/page/orientation', 'invalid-orientation', 'orientation must be "portrait" or "landscape".');
+    }
+    const margins = isObject(page.margins) ? page.margins : page.margins === undefined ? {} : { '': page.margins };
+    for (const [side, margin] of Object.entries(margins)) {
+      const at = side ? pointerTo('/page/margins', side) : '/page/margins';
+      const valid = typeof margin === 'number'
+        ? margin >= 0
+        : typeof margin === 'string' && /^\d+(\.\d+)?\s*(in|cm|mm|pt|px)?$/i.test(margin.trim());
+      if (!valid) report('error', at, 'invalid-margin', `Invalid margin ${JSON.stringify(margin)}; use inches or a length such as "2cm".`);
+    }
+    checkRegion(page.header, '/page/header');
+    checkRegion(page.footer, '/page/footer');
+    const watermark = typeof page.watermark === 'string' ? { text: page.watermark } : page.watermark;
+    if (watermark !== undefined) {
+      const at = typeof page.watermark === 'string' ? '/page/watermark' : '/page/watermark/text';
+      if (!isObject(watermark) || typeof watermark.text !== 'string') {
+        report('error', '/page/watermark', 'invalid-watermark', 'watermark must be a string or an object with text.');
+      } else {
+        checkText(watermark.text, rootScope, at);
+        if (watermark.opacity !== undefined && !(typeof watermark.opacity === 'number' && watermark.opacity >= 0 && watermark.opacity <= 1)) {
+          report('error', '/page/watermark/opacity', 'invalid-watermark', 'opacity must be a number from 0 to 1.');
+        }
+        if (watermark.color !== undefined && !isCssColor(String(watermark.color))) {
+          report('warning', '/page/watermark/color', 'invalid-css-color', `"${watermark.color}" is not a recognised color.`);
+        }
+      }
+    }
+  };
+
+  const checkStyles = () => {
+    if (template.styles == null) return;
+    if (!isObject(template.styles)) {
+      report('error', '/styles', 'invalid-style', 'styles must be an object keyed by element.');
+      return;
+    }
+    for (const [key, style] of Object.entries(template.styles)) checkStyle(style, pointerTo('/styles', key));
+  };
+
+  // Top-level schema fields (or nested ones of a partly used object or array item) that no block reads
+  const reportUnused = (fields: DeclaredFields) => {
+    for (const [key, { prop, pointer: at }] of Object.entries(fields)) {
+      if (usedWhole.has(at)) continue;
+      if (!touched.has(at)) {
+        issues.push({
+          severity: 'warning',
+          source: 'jsonSchema',
+          pointer: at,
+          code: 'unused-field',
+          message: `"${key}" is collected by the form but no block uses it.`,
+        });
+      } else if (prop?.type === 'object') {
+        reportUnused(declaredProperties(prop, at));
+      } else if (prop?.type === 'array' && prop.items?.type === 'object') {
+        if (!usedWhole.has(pointerTo(at, 'items'))) reportUnused(declaredProperties(prop.items, pointerTo(at, 'items')));
+      }
+    }
+  };
+
+  if (config.locale !== undefined && typeof config.locale !== 'string') {
+    report('error', '/locale', 'invalid-locale', 'locale must be a BCP 47 language tag such as "en-US".');
+  }
+  if (config.computed !== undefined && !isObject(config.computed)) {
+    report('error', '/computed', 'invalid-computed', 'computed must be an object of field name to expression.');
+  }
+  checkComputed();
+  checkStyles();
+  checkBlocks(template.blocks, rootScope, '/blocks');
+  checkPage();
+  if (hasSchema) reportUnused(rootScope.fields);
+  return issues;
+};
+
+const PROPERTY_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+const WIDGETS = ['textarea', 'signature'];
+const PARTY_KINDS = ['client', 'employee', 'company'];
+
+/**
+ * Structural checks of a json_schema itself: the subset of JSON Schema the form generator and validator understand,
+ * plus the `x-` extensions. Unknown keywords are ignored, as they are everywhere else.
+ */
+export const validateJsonSchema = (jsonSchema: unknown): TemplateIssue[] => {
+  const issues: TemplateIssue[] = [];
+  const report = (severity: TemplateIssueSeverity, pointer: string, code: string, message: string) =>
+    issues.push({ severity, source: 'jsonSchema', pointer, code, message });
+
+  if (!isObject(jsonSchema)) {
+    report('error', '', 'invalid-schema', 'json_schema must be an object.');
+    return issues;
+  }
+  if (jsonSchema.type !== undefined && jsonSchema.type !== 'object') {
+    report('error', '/type', 'invalid-type', 'The root of json_schema must have type "object".');
+  }
+  if (!isObject(jsonSchema.properties)) {
+    report('error', '/properties', 'missing-properties', 'json_schema needs a "properties" object listing the form fields.');
+    return issues;
+  }
+
+  const checkBranch = (branch: Record<string, any>, at: string) => {
+    if (branch.properties !== undefined && !isObject(branch.properties)) {
+      report('error', pointerTo(at, 'properties'), 'invalid-properties', 'properties must be an object of field name to definition.');
+      return;
+    }
+    const properties: Record<string, any> = branch.properties || {};
+    if (branch.required !== undefined) {
+      if (!Array.isArray(branch.required)) {
+        report('error', pointerTo(at, 'required'), 'invalid-required', 'required must be a list of field names.');
+      } else {
+        branch.required.forEach((key: unknown, i: number) => {
+          if (typeof key !== 'string' || !(key in properties)) {
+            report('warning', pointerTo(at, 'required', i), 'unknown-required', `Required field "${String(key)}" is not declared here.`);
+          }
+        });
+      }
+    }
+    for (const [key, prop] of Object.entries(properties)) checkProperty(prop, pointerTo(at, 'properties', key));
+    for (const keyword of ['if', 'then', 'else'] as const) {
+      if (branch[keyword] === undefined) continue;
+      if (isObject(branch[keyword])) checkBranch(branch[keyword], pointerTo(at, keyword));
+      else report('error', pointerTo(at, keyword), 'invalid-branch', `${keyword} must be an object.`);
+    }
+    if (Array.isArray(branch.allOf)) branch.allOf.forEach((sub: unknown, i: number) => isObject(sub) && checkBranch(sub, pointerTo(at, 'allOf', i)));
+    if (isObject(branch.dependentSchemas)) {
+      for (const [key, sub] of Object.entries(branch.dependentSchemas)) {
+        if (isObject(sub)) checkBranch(sub, pointerTo(at, 'dependentSchemas', key));
+      }
+    }
+  };
+
+  const checkProperty = (prop: unknown, at: string) => {
+    if (!isObject(prop)) {
+      report('error', at, 'invalid-property', 'A field definition must be an object.');
+      return;
+    }
+    if (prop.type !== undefined && !PROPERTY_TYPES.includes(prop.type)) {
+      report('error', pointerTo(at, 'type'), 'invalid-type', `Unknown type "${String(prop.type)}"; expected ${PROPERTY_TYPES.join(', ')}.`);
+    }
+    if (prop.enum !== undefined && (!Array.isArray(prop.enum) || prop.enum.length === 0)) {
+      report('error', pointerTo(at, 'enum'), 'invalid-enum', 'enum must be a non-empty list of options.');
+    }
+    if (prop.pattern !== undefined) {
+      try {
+        new RegExp(prop.pattern);
+      } catch {
+        report('error', pointerTo(at, 'pattern'), 'invalid-pattern', `pattern "${String(prop.pattern)}" is not a valid regular expression.`);
+      }
+    }
+    if (prop['x-widget'] !== undefined && !WIDGETS.includes(prop['x-widget'])) {
+      report('warning', pointerTo(at, 'x-widget'), 'unknown-widget', `Unknown x-widget "${String(prop['x-widget'])}"; expected ${WIDGETS.join(', ')}.`);
+    }
+    if (prop['x-party'] !== undefined && !PARTY_KINDS.includes(prop['x-party'])) {
+      report('error', pointerTo(at, 'x-party'), 'invalid-party', `x-party must be one of ${PARTY_KINDS.join(', ')}.`);
+    }
+    if (prop.type === 'array') {
+      if (!isObject(prop.items)) report('warning', pointerTo(at, 'items'), 'missing-items', 'Lists should describe their entries with "items".');
+      else checkProperty(prop.items, pointerTo(at, 'items'));
+    }
+    if (prop.type === 'object' || prop.properties !== undefined) checkBranch(prop, at);
+  };
+
+  checkBranch(jsonSchema, '');
+
+  if (jsonSchema['x-steps'] !== undefined) {
+    if (!Array.isArray(jsonSchema['x-steps'])) {
+      report('error', '/x-steps', 'invalid-steps', 'x-steps must be a list of { title, fields } steps.');
+    } else {
+      const declared = declaredProperties(jsonSchema as JSONSchema);
+      jsonSchema['x-steps'].forEach((step: any, i: number) => {
+        const at = pointerTo('/x-steps', i);
+        if (!isObject(step) || typeof step.title !== 'string' || !Array.isArray(step.fields)) {
+          report('error', at, 'invalid-step', 'Each step needs a title and a list of fields.');
+          return;
+        }
+        step.fields.forEach((field: unknown, j: number) => {
+          if (typeof field !== 'string' || !(field in declared)) {
+            report('error', pointerTo(at, 'fields', j), 'unknown-step-field', `Step field "${String(field)}" is not a top-level field.`);
+          }
+        });
+      });
+    }
+  }
+  return issues;
+};
+
+export const hasTemplateErrors = (issues: TemplateIssue[]): boolean => issues.some((i) => i.severity === 'error');
+
+// One line per issue, e.g. "error /blocks/2/level: Heading level must be ..."
+export const formatTemplateIssue = (issue: TemplateIssue): string =>
+  `${issue.severity} ${issue.source === 'jsonSchema' ? 'json_schema' : 'templateConfig'}${issue.pointer || '/'}: ${issue.message}`;
@@ -0,0 +1,78 @@
+// Safe Markdown subset for paragraph text (`markdown: true`):
+//   **bold**, *italic* or _italic_, ++underline++, [label](https://…), line breaks,
+//   "- item" / "* item" / "1. item" lists, and blank lines between paragraphs.
+// Everything else is escaped, so the output only ever contains p, br, strong, em, u, a, ul, ol and li.
+import { MUSTACHE_PATTERN, escapeHtml } from './templateExpressions.ts';
+
+const SAFE_LINK = /^(https?:\/\/|mailto:|tel:)/i;
+
+// Placeholder values are swapped for private-use markers while the Markdown is parsed,
+// so `*` or `[` inside user data can never turn into formatting
+const MARK = '\uE000';
+const MARK_PATTERN = new RegExp(`${MARK}(\\d+)${MARK}`, 'g');
+
+const restore = (s: string, values: string[]): string => s.replace(MARK_PATTERN, (_m, i) => values[Number(i)] ?? '');
+
+const renderEmphasis = (s: string): string =>
+  s
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/\+\+(?=\S)([\s\S]*?\S)\+\+/g, '<u>$1</u>')
+    .replace(/(^|[^\w*])\*(?=\S)([^*]*?\S)\*(?!\w)/g, '$1<em>$2</em>')
+    .replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?!\w)/g, '$1<em>$2</em>');
+
+// Finished links are swapped for markers too, so the emphasis rules never rewrite `_` or `*` inside an href
+const renderInline = (escaped: string, values: string[]): string =>
+  renderEmphasis(
+    escaped.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (m, label, href) => {
+      const url = restore(href, values).replace(/&amp;/g, '&');
+      if (!SAFE_LINK.test(url)) return label;
+      values.push(`<a href="${escapeHtml(url)}">${restore(renderEmphasis(label), values)}</a>`);
+      return `${MARK}${values.length - 1}${MARK}`;
+    })
+  );
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+
+/**
+ * Render Markdown source to sanitized HTML. `substitute` resolves a placeholder expression to already-escaped
+ * text; without it, `{{ … }}` is left as literal text.
+ */
+export const renderMarkdown = (
+  source: string,
+  substitute?: (expression: string) => string,
+  options?: { paragraphStyle?: string }
+): string => {
+  const values: string[] = [];
+  const withMarks = substitute
+    ? source.replace(MUSTACHE_PATTERN, (_m, expr) => {
+        values.push(substitute(String(expr)));
+        return `${MARK}${values.length - 1}${MARK}`;
+      })
+    : source;
+  const pAttr = options?.paragraphStyle ? ` style="${options.paragraphStyle}"` : '';
+
+  const out: string[] = [];
+  for (const chunk of withMarks.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    const lines = chunk.split('\n').filter((l) => l.trim() !== '');
+    let i = 0;
+    while (i < lines.length) {
+      const first = lines[i].match(LIST_ITEM);
+      if (first) {
+        const ordered = !!first[2];
+        const items: string[] = [];
+        let m: RegExpMatchArray | null;
+        while (i < lines.length && (m = lines[i].match(LIST_ITEM)) && !!m[2] === ordered) {
+          items.push(`<li>${restore(renderInline(escapeHtml(m[3]), values), values)}</li>`);
+          i++;
+        }
+        const tag = ordered ? 'ol' : 'ul';
+        out.push(`<${tag}>${items.join('')}</${tag}>`);
+        continue;
+      }
+      const text: string[] = [];
+      while (i < lines.length && !LIST_ITEM.test(lines[i])) text.push(lines[i++].trim());
+      out.push(`<p${pAttr}>${restore(renderInline(escapeHtml(text.join('\n')), values), values).replace(/\n/g, '<br/>')}</p>`);
+    }
+  }
+  return out.join('');
+};
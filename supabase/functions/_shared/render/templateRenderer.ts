@@ -0,0 +1,833 @@
+// Strongly-typed TemplateConfig renderer (supports bind.path, sourcePath/dataPath aliases, and style aliases)
+import { evaluateExpression, resolvePath, buildItemScope, toNumber, escapeHtml, getFilter, MUSTACHE_PATTERN } from './templateExpressions.ts';
+import { renderMarkdown } from './templateMarkdown.ts';
+import { applyComputedFields, cleanNumber, ComputedFields } from './templateComputed.ts';
+
+export type CSSPrimitive = string | number;
+export type CSSStyle = Record<string, CSSPrimitive>;
+
+type BindRef = { bind?: { path?: string } };
+
+// Conditions: a block is skipped when its `when` fails or its `unless` passes.
+// Every operator set on a condition must hold; with no operator, presence is checked.
+export interface BlockCondition {
+  path: string;
+  present?: boolean;
+  equals?: CSSPrimitive | boolean | null;
+  notEquals?: CSSPrimitive | boolean | null;
+  greaterThan?: number;
+  in?: Array<CSSPrimitive | boolean | null>;
+}
+export interface ConditionalBlock {
+  when?: BlockCondition | BlockCondition[];
+  unless?: BlockCondition | BlockCondition[];
+}
+
+export interface TemplateConfig {
+  title?: string;
+  locale?: string; // BCP 47 tag used by placeholder filters (currency, number, date)
+  computed?: ComputedFields; // derived values (totals, line totals) merged into the data before rendering
+  page?: PageSettings;
+  styles?: Partial<{
+    // canonical keys
+    document: CSSStyle;
+    heading: CSSStyle;
+    paragraph: CSSStyle;
+    line: CSSStyle;
+    list: CSSStyle;
+    listItem: CSSStyle;
+    table: CSSStyle;
+    th: CSSStyle;
+    td: CSSStyle;
+    tfoot: CSSStyle;
+    divider: CSSStyle;
+    signature: CSSStyle;
+    image: CSSStyle;
+    // aliases from seed data
+    page: CSSStyle;
+    h1: CSSStyle;
+    h2: CSSStyle;
+    h3: CSSStyle;
+    h4: CSSStyle;
+    h5: CSSStyle;
+    h6: CSSStyle;
+    p: CSSStyle;
+    // new styles for keyValueList
+    kvList: CSSStyle;
+    kvRow: CSSStyle;
+    kvLabel: CSSStyle;
+    kvValue: CSSStyle;
+  }> & Record<string, CSSStyle>;
+  blocks: TemplateBlock[];
+}
+
+export type TemplateBlock =
+  | HeadingBlock
+  | ParagraphBlock
+  | LineBlock
+  | ListBlock
+  | TableBlock
+  | KeyValueTableBlock
+  | KeyValueListBlock
+  | DividerBlock
+  | SpacerBlock
+  | SignatureBlock
+  | RepeatBlock
+  | ImageBlock;
+
+export interface HeadingBlock extends ConditionalBlock {
+  type: 'heading';
+  text: string;
+  level?: 1 | 2 | 3 | 4 | 5 | 6;
+  style?: CSSStyle;
+}
+export interface ParagraphBlock extends BindRef, ConditionalBlock {
+  type: 'paragraph';
+  text?: string; // can be omitted if bind.path provided
+  markdown?: boolean; // treat text (or the bound value) as the Markdown subset in templateMarkdown.ts
+  style?: CSSStyle;
+}
+export interface LinePart extends BindRef { text?: string; path?: string }
+export interface LineBlock extends ConditionalBlock {
+  type: 'line';
+  parts: LinePart[];
+  style?: CSSStyle;
+}
+export interface ListBlock extends BindRef, ConditionalBlock {
+  type: 'list';
+  items?: Array<string | LinePart>;
+  ordered?: boolean;
+  sourcePath?: string; // alias of dataPath for arrays
+  dataPath?: string; // preferred name
+  style?: CSSStyle;
+}
+export type ColumnFormat = 'number' | 'currency' | 'percent' | 'date';
+export interface TableColumn {
+  header: string;
+  path: string;
+  align?: 'left' | 'center' | 'right';
+  width?: string | number; // CSS width, e.g. '20%' or '1.5in'
+  format?: ColumnFormat;
+  currency?: string; // ISO 4217 code for format 'currency' (default USD)
+  decimals?: number; // for 'number' and 'percent'
+  datePattern?: string; // for 'date', same patterns as the date filter
+}
+export type TableAggregate = 'sum' | 'avg' | 'min' | 'max' | 'count';
+// A footer cell sits under the column whose path matches `column` and shows either an aggregate of
+// that column, a bound value (e.g. a computed total) or static text; values use the column's format
+export interface TableFooterCell extends BindRef {
+  column: string;
+  aggregate?: TableAggregate;
+  path?: string;
+  text?: string;
+}
+export interface TableFooterRow {
+  label?: string; // shown in the first column unless a cell targets it
+  cells?: TableFooterCell[];
+  style?: CSSStyle;
+}
+export interface TableBlock extends BindRef, ConditionalBlock {
+  type: 'table';
+  columns: TableColumn[];
+  dataPath?: string; // path to an array of rows
+  sourcePath?: string; // alias supported by seed data
+  footer?: TableFooterRow[];
+  emptyMessage?: string; // shown in a full-width row when there are no rows
+  style?: CSSStyle;
+  headerStyle?: CSSStyle;
+  cellStyle?: CSSStyle;
+  footerStyle?: CSSStyle;
+}
+export interface KeyValueRow extends BindRef { label: string; path?: string }
+export interface KeyValueTableBlock extends ConditionalBlock {
+  type: 'keyValueTable';
+  rows: KeyValueRow[];
+  style?: CSSStyle;
+}
+export interface KeyValueListBlock extends ConditionalBlock {
+  type: 'keyValueList';
+  rows: KeyValueRow[];
+  style?: CSSStyle;
+}
+export interface DividerBlock extends ConditionalBlock { type: 'divider'; style?: CSSStyle }
+export interface SpacerBlock extends ConditionalBlock { type: 'spacer'; size?: number }
+export interface SignatureBlock extends ConditionalBlock {
+  type: 'signature';
+  name?: string | { bind?: { path?: string } };
+  title?: string | { bind?: { path?: string } };
+  // Drawn signature above the name: a PNG data URI or URL, usually bound to an `x-widget: signature` field
+  image?: string | { bind?: { path?: string } };
+  showRegards?: boolean;
+  style?: CSSStyle;
+}
+// Renders `blocks` once per array item, with the item as the binding scope (see buildItemScope)
+export interface RepeatBlock extends ConditionalBlock {
+  type: 'repeat';
+  dataPath?: string;
+  sourcePath?: string; // alias of dataPath
+  blocks: TemplateBlock[];
+  style?: CSSStyle;
+}
+
+// `src` is a URL or data URI (placeholders allowed); a bound value may also be an upload object
+// such as { uri, base64, mimeType }. Numeric width/height are pixels; with only one set the image keeps its ratio.
+export interface ImageBlock extends BindRef, ConditionalBlock {
+  type: 'image';
+  src?: string;
+  path?: string; // alias of bind.path
+  alt?: string;
+  width?: number | string;
+  height?: number | string;
+  align?: 'left' | 'center' | 'right';
+  style?: CSSStyle;
+}
+
+// Page setup. Header and footer blocks are rendered as plain text lines on every page;
+// `{{ $page }}` and `{{ $pages }}` in their text become the page number and page count.
+export type PageSize = 'Letter' | 'A4' | 'Legal';
+export type PageMargin = number | string; // number = inches, string = CSS length (in, cm, mm, pt, px)
+export interface PageRegion {
+  blocks: TemplateBlock[];
+  align?: 'left' | 'center' | 'right'; // default for blocks without style.textAlign
+  fontSize?: number; // pt
+}
+export interface PageWatermark {
+  text: string;
+  opacity?: number;
+  color?: string; // hex, e.g. '#9ca3af'
+  fontSize?: number; // pt; fitted to the page diagonal when omitted
+}
+export interface PageSettings {
+  size?: PageSize;
+  orientation?: 'portrait' | 'landscape';
+  margins?: PageMargin | { top?: PageMargin; right?: PageMargin; bottom?: PageMargin; left?: PageMargin };
+  header?: PageRegion;
+  footer?: PageRegion;
+  watermark?: string | PageWatermark; // e.g. 'DRAFT', drawn diagonally across each page
+}
+
+// Utilities
+
+const cssToString = (style?: CSSStyle): string => {
+  if (!style) return '';
+  return Object.entries(style)
+    .filter(([, v]) => v !== undefined && v !== null && v !== '')
+    .map(([k, v]) => `${k.replace(/[A-Z]/g, m => '-' + m.toLowerCase())}:${String(v)}`)
+    .join(';');
+};
+
+const getValueAtPath = (obj: Record<string, any>, path?: string): any => resolvePath(obj, path);
+
+const extractPath = (x?: string | BindRef): string | undefined => {
+  if (!x) return undefined;
+  if (typeof x === 'string') return x;
+  const maybeBind = x as BindRef;
+  return maybeBind.bind?.path || undefined;
+};
+
+// BEGIN: normalization utilities to parse stringified JSON containers before rendering
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v) && (v as any).constructor === Object;
+
+const looksLikeJsonContainer = (s: string): boolean => {
+  const t = s.trim();
+  return (t.startsWith('{') && t.endsWith('}')) || (t.startsWith('[') && t.endsWith(']'));
+};
+
+const tryParseJson = (s: string): unknown | undefined => {
+  try {
+    return JSON.parse(s);
+  } catch {
+    return undefined;
+  }
+};
+
+export const normalizeDataForRendering = (input: unknown, seen: WeakSet<object> = new WeakSet()): any => {
+  if (typeof input === 'string') {
+    if (looksLikeJsonContainer(input)) {
+      const parsed = tryParseJson(input);
+      if (parsed && (Array.isArray(parsed) || isPlainObject(parsed))) {
+        return normalizeDataForRendering(parsed, seen);
+      }
+    }
+    return input;
+  }
+  if (Array.isArray(input)) {
+    return input.map((item) => normalizeDataForRendering(item, seen));
+  }
+  if (isPlainObject(input)) {
+    const obj = input as Record<string, unknown>;
+    if (seen.has(obj)) return obj;
+    seen.add(obj);
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(obj)) {
+      out[k] = normalizeDataForRendering(v, seen);
+    }
+    return out;
+  }
+  return input;
+};
+// END: normalization utilities
+
+const valueToDisplay = (v: any): string => {
+  if (v == null) return '';
+  if (Array.isArray(v)) return v.map((x) => (x && typeof x === 'object' ? JSON.stringify(x) : String(x))).join(', ');
+  if (typeof v === 'object') return JSON.stringify(v);
+  return String(v);
+};
+
+// Evaluate one placeholder expression to escaped display text
+const renderPlaceholder = (expr: string, data: Record<string, any>, locale?: string): string => {
+  const v = evaluateExpression(expr, data, locale);
+  if (Array.isArray(v)) return escapeHtml(v.join(', '));
+  if (v && typeof v === 'object') return escapeHtml(JSON.stringify(v));
+  return escapeHtml(v);
+};
+
+const replaceMustache = (text: string, data: Record<string, any>, locale?: string): string =>
+  text.replace(MUSTACHE_PATTERN, (_m, expr) => renderPlaceholder(String(expr), data, locale));
+
+// Condition helpers
+const isPresent = (v: unknown): boolean => {
+  if (v == null) return false;
+  if (typeof v === 'string') return v.trim() !== '';
+  if (Array.isArray(v)) return v.length > 0;
+  if (isPlainObject(v)) return Object.keys(v).length > 0;
+  return true;
+};
+
+// Form inputs often arrive as strings ("true", "5"), so primitives are compared by their string form
+const looseEquals = (a: unknown, b: unknown): boolean => {
+  if (a == null || b == null) return a == null && b == null;
+  if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  return String(a) === String(b);
+};
+
+const evaluateCondition = (cond: BlockCondition, data: Record<string, any>): boolean => {
+  const v = getValueAtPath(data, cond.path);
+  const checks: boolean[] = [];
+  if (cond.present !== undefined) checks.push(isPresent(v) === cond.present);
+  if (cond.equals !== undefined) checks.push(looseEquals(v, cond.equals));
+  if (cond.notEquals !== undefined) checks.push(!looseEquals(v, cond.notEquals));
+  if (cond.greaterThan !== undefined) {
+    const n = typeof v === 'number' ? v : typeof v === 'string' && v.trim() !== '' ? Number(v) : NaN;
+    checks.push(!isNaN(n) && n > cond.greaterThan);
+  }
+  if (cond.in !== undefined) checks.push(Array.isArray(cond.in) && cond.in.some((x) => looseEquals(v, x)));
+  return checks.length ? checks.every(Boolean) : isPresent(v);
+};
+
+const allConditionsPass = (conds: BlockCondition | BlockCondition[], data: Record<string, any>): boolean =>
+  (Array.isArray(conds) ? conds : [conds]).every((c) => evaluateCondition(c, data));
+
+export const shouldRenderBlock = (block: ConditionalBlock, data: Record<string, any>): boolean => {
+  if (block.when && !allConditionsPass(block.when, data)) return false;
+  if (block.unless && allConditionsPass(block.unless, data)) return false;
+  return true;
+};
+
+// Style helpers
+const resolveStyles = (styles?: TemplateConfig['styles']) => {
+  const s = styles || {};
+  return {
+    document: s.document || s.page,
+    heading: s.heading,
+    paragraph: s.paragraph || s.p,
+    line: s.line,
+    list: s.list,
+    listItem: s.listItem,
+    table: s.table,
+    th: s.th,
+    td: s.td,
+    tfoot: s.tfoot,
+    divider: s.divider,
+    signature: s.signature,
+    image: s.image,
+    kvList: s.kvList,
+    kvRow: s.kvRow,
+    kvLabel: s.kvLabel,
+    kvValue: s.kvValue,
+    // aliases for heading levels
+    h: {
+      1: s.h1,
+      2: s.h2,
+      3: s.h3,
+      4: s.h4,
+      5: s.h5,
+      6: s.h6,
+    } as Record<number, CSSStyle | undefined>,
+  };
+};
+
+type ResolvedStyles = ReturnType<typeof resolveStyles>;
+
+// Table helpers
+const joinCss = (...parts: string[]): string => parts.filter(Boolean).join(';');
+
+const columnCss = (c: TableColumn, withWidth: boolean): string =>
+  cssToString({
+    ...(c.align ? { textAlign: c.align } : {}),
+    ...(withWidth && c.width != null ? { width: typeof c.width === 'number' ? `${c.width}px` : c.width } : {}),
+  });
+
+const formatColumnValue = (v: any, c: TableColumn, locale?: string): string => {
+  const filter = c.format ? getFilter(c.format) : undefined;
+  if (!filter) return valueToDisplay(v);
+  const args = c.format === 'currency' ? [c.currency || 'USD'] : c.format === 'date' ? [c.datePattern || 'medium'] : [c.decimals];
+  return valueToDisplay(filter(v, args, locale));
+};
+
+const aggregateColumn = (rows: any[], path: string, aggregate: TableAggregate): number => {
+  if (aggregate === 'count') return rows.length;
+  const nums = rows.map((r) => toNumber(getValueAtPath(r, path))).filter((n) => !isNaN(n));
+  if (!nums.length) return 0;
+  switch (aggregate) {
+    case 'sum': return cleanNumber(nums.reduce((a, n) => a + n, 0));
+    case 'avg': return cleanNumber(nums.reduce((a, n) => a + n, 0) / nums.length);
+    case 'min': return Math.min(...nums);
+    case 'max': return Math.max(...nums);
+  }
+};
+
+// Image helpers: only web, file and inline image sources are emitted, never javascript: or similar
+export const SAFE_IMAGE_SRC = /^(https?:\/\/|file:\/\/|data:image\/[\w.+-]+;base64,)/i;
+
+const resolveImageSrc = (v: any): string => {
+  if (!v) return '';
+  if (typeof v === 'string') return v.trim();
+  if (typeof v === 'object') {
+    if (typeof v.base64 === 'string' && v.base64) {
+      return v.base64.startsWith('data:') ? v.base64 : `data:${v.mimeType || v.type || 'image/png'};base64,${v.base64}`;
+    }
+    return typeof v.uri === 'string' ? v.uri : typeof v.url === 'string' ? v.url : '';
+  }
+  return '';
+};
+
+const toCssLength = (v?: number | string): string | undefined =>
+  v == null || v === '' ? undefined : typeof v === 'number' ? `${v}px` : v;
+
+interface RenderContext {
+  styles: ResolvedStyles;
+  locale?: string;
+  warnings?: string[]; // parts of the layout left out because of the data, e.g. an unusable image source
+}
+
+// Rendering
+const renderBlocks = (
+  blocks: TemplateBlock[],
+  normalizedData: Record<string, any>,
+  ctx: RenderContext
+): string[] => {
+  const { styles, locale } = ctx;
+  const parts: string[] = [];
+  for (const block of blocks || []) {
+    if (!shouldRenderBlock(block, normalizedData)) continue;
+    switch (block.type) {
+      case 'heading': {
+        const b = block as HeadingBlock;
+        const level = Math.min(Math.max(b.level || 2, 1), 6);
+        const text = replaceMustache(b.text, normalizedData, locale);
+        const styleCand = b.style || styles.h[level] || styles.heading;
+        const s = cssToString(styleCand as CSSStyle);
+        parts.push(`<h${level}` + (s ? ` style="${s}"` : '') + `>${text}</h${level}>`);
+        break;
+      }
+      case 'paragraph': {
+        const b = block as ParagraphBlock;
+        const boundPath = extractPath(b);
+        const boundVal = boundPath ? getValueAtPath(normalizedData, boundPath) : undefined;
+        const s = cssToString(b.style || (styles.paragraph as CSSStyle));
+        if (b.markdown) {
+          const html = b.text != null
+            ? renderMarkdown(b.text, (expr) => renderPlaceholder(expr, normalizedData, locale), { paragraphStyle: s })
+            : renderMarkdown(valueToDisplay(boundVal), undefined, { paragraphStyle: s });
+          parts.push(`<div class="rich-text">${html}</div>`);
+          break;
+        }
+        // replaceMustache escapes its substitutions, so only the bound value needs escaping here
+        const text = b.text != null ? replaceMustache(b.text, normalizedData, locale) : escapeHtml(valueToDisplay(boundVal));
+        parts.push(`<p` + (s ? ` style="${s}"` : '') + `>${text}</p>`);
+        break;
+      }
+      case 'line': {
+        const b = block as LineBlock;
+        const text = (b.parts || [])
+          .map((p) => {
+            const pth = extractPath(p) || p.path;
+            const val = pth ? getValueAtPath(normalizedData, pth) : p.text ?? '';
+            return escapeHtml(valueToDisplay(val));
+          })
+          .join(' ');
+        const s = cssToString(b.style || (styles.line as CSSStyle));
+        parts.push(`<div` + (s ? ` style="${s}"` : '') + `>${text}</div>`);
+        break;
+      }
+      case 'list': {
+        const b = block as ListBlock;
+        const source = b.dataPath || b.sourcePath;
+        let itemsResolved: string[] = [];
+        if (source) {
+          const arr = getValueAtPath(normalizedData, source);
+          if (Array.isArray(arr)) itemsResolved = arr.map((v) => escapeHtml(valueToDisplay(v)));
+        } else if (b.items && b.items.length) {
+          itemsResolved = b.items.flatMap((it) => {
+            if (typeof it === 'string') return [replaceMustache(it, normalizedData, locale)];
+            const pth = extractPath(it) || it.path;
+            const val = pth ? getValueAtPath(normalizedData, pth) : it.text ?? '';
+            return Array.isArray(val) ? val.map((v) => escapeHtml(valueToDisplay(v))) : [escapeHtml(valueToDisplay(val))];
+          });
+        }
+        const s = cssToString(b.style || (styles.list as CSSStyle));
+        const li = itemsResolved
+          .map((t) => `<li` + (styles.listItem ? ` style="${cssToString(styles.listItem)}"` : '') + `>${t}</li>`)
+          .join('');
+        const tag = b.ordered ? 'ol' : 'ul';
+        parts.push(`<${tag}` + (s ? ` style="${s}"` : '') + `>${li}</${tag}>`);
+        break;
+      }
+      case 'table': {
+        const b = block as TableBlock;
+        const rowsSrc = b.dataPath || b.sourcePath ? getValueAtPath(normalizedData, b.dataPath || b.sourcePath) : [normalizedData];
+        const rows = Array.isArray(rowsSrc) ? rowsSrc : [];
+        const tableS = cssToString(b.style || (styles.table as CSSStyle));
+        const thS = cssToString(b.headerStyle || (styles.th as CSSStyle));
+        const tdS = cssToString(b.cellStyle || (styles.td as CSSStyle));
+        const tfS = cssToString(b.footerStyle || (styles.tfoot as CSSStyle) || { fontWeight: '600' });
+        const head = b.columns
+          .map((c) => {
+            const s = joinCss(thS, columnCss(c, true));
+            return `<th` + (s ? ` style="${s}"` : '') + `>${escapeHtml(c.header)}</th>`;
+          })
+          .join('');
+        let body = rows
+          .map((row) => {
+            const tds = b.columns
+              .map((c) => {
+                const s = joinCss(tdS, columnCss(c, false));
+                return `<td` + (s ? ` style="${s}"` : '') + `>${escapeHtml(formatColumnValue(getValueAtPath(row, c.path), c, locale))}</td>`;
+              })
+              .join('');
+            return `<tr>${tds}</tr>`;
+          })
+          .join('');
+        if (!rows.length && b.emptyMessage) {
+          const s = joinCss(tdS, 'text-align:center');
+          body = `<tr><td colspan="${b.columns.length}" style="${s}">${replaceMustache(b.emptyMessage, normalizedData, locale)}</td></tr>`;
+        }
+        const foot = (b.footer || [])
+          .map((f) => {
+            const rowS = joinCss(tfS, cssToString(f.style));
+            const tds = b.columns
+              .map((c, idx) => {
+                const cell = (f.cells || []).find((fc) => fc.column === c.path);
+                let text = '';
+                if (cell) {
+                  const pth = extractPath(cell) || cell.path;
+                  if (cell.aggregate) text = escapeHtml(formatColumnValue(aggregateColumn(rows, c.path, cell.aggregate), c, locale));
+                  else if (pth) text = escapeHtml(formatColumnValue(getValueAtPath(normalizedData, pth), c, locale));
+                  else if (cell.text != null) text = replaceMustache(cell.text, normalizedData, locale);
+                } else if (idx === 0 && f.label) {
+                  text = replaceMustache(f.label, normalizedData, locale);
+                }
+                const s = joinCss(tdS, columnCss(c, false), rowS);
+                return `<td` + (s ? ` style="${s}"` : '') + `>${text}</td>`;
+              })
+              .join('');
+            return `<tr>${tds}</tr>`;
+          })
+          .join('');
+        parts.push(
+          `<table` + (tableS ? ` style="${tableS}"` : '') + `><thead><tr>${head}</tr></thead><tbody>${body}</tbody>` +
+          (foot ? `<tfoot>${foot}</tfoot>` : '') + `</table>`
+        );
+        break;
+      }
+      case 'keyValueTable': {
+        const b = block as KeyValueTableBlock;
+        const tableS = cssToString(b.style || (styles.table as CSSStyle));
+        const thS = cssToString(styles.th as CSSStyle);
+        const tdS = cssToString(styles.td as CSSStyle);
+        const body = (b.rows || [])
+          .map((r) => {
+            const pth = extractPath(r) || r.path;
+            const v = valueToDisplay(getValueAtPath(normalizedData, pth));
+            return `<tr><th` + (thS ? ` style="${thS}"` : '') + `>${escapeHtml(r.label)}</th><td` + (tdS ? ` style="${tdS}"` : '') + `>${escapeHtml(v)}</td></tr>`;
+          })
+          .join('');
+        parts.push(`<table` + (tableS ? ` style="${tableS}"` : '') + `><tbody>${body}</tbody></table>`);
+        break;
+      }
+      case 'keyValueList': {
+        const b = block as KeyValueListBlock;
+        const listS = cssToString(b.style || (styles.kvList as CSSStyle));
+        const rowS = cssToString(styles.kvRow as CSSStyle);
+        const labelS = cssToString(styles.kvLabel as CSSStyle);
+        const valueS = cssToString(styles.kvValue as CSSStyle);
+        const rows = (b.rows || [])
+          .map((r) => {
+            const pth = extractPath(r) || r.path;
+            const v = valueToDisplay(getValueAtPath(normalizedData, pth));
+            return `<div class="kv-row"` + (rowS ? ` style="${rowS}"` : '') + `>` +
+                   `<div class="kv-label"` + (labelS ? ` style="${labelS}"` : '') + `>${escapeHtml(r.label)}</div>` +
+                   `<div class="kv-value"` + (valueS ? ` style="${valueS}"` : '') + `>${escapeHtml(v)}</div>` +
+                   `</div>`;
+          })
+          .join('');
+        parts.push(`<div class="kv-list"` + (listS ? ` style="${listS}"` : '') + `>${rows}</div>`);
+        break;
+      }
+      case 'divider': {
+        const b = block as DividerBlock;
+        const s = cssToString(b.style || (styles.divider as CSSStyle));
+        parts.push(`<hr` + (s ? ` style="${s}"` : '') + `/>`);
+        break;
+      }
+      case 'spacer': {
+        const b = block as SpacerBlock;
+        const h = b.size ?? 12;
+        parts.push(`<div style="height:${h}px"></div>`);
+        break;
+      }
+      case 'signature': {
+        const b = block as SignatureBlock;
+        const namePath = extractPath(b.name as any);
+        const titlePath = extractPath(b.title as any);
+        const name = escapeHtml(valueToDisplay(namePath ? getValueAtPath(normalizedData, namePath) : b.name));
+        const title = escapeHtml(valueToDisplay(titlePath ? getValueAtPath(normalizedData, titlePath) : b.title));
+        const s = cssToString(b.style || (styles.signature as CSSStyle));
+        const greeting = b.showRegards ? '<div>Regards,</div>' : '';
+        const imagePath = extractPath(b.image as any);
+        const imageSrc = resolveImageSrc(imagePath ? getValueAtPath(normalizedData, imagePath) : b.image);
+        const image = SAFE_IMAGE_SRC.test(imageSrc)
+          ? `<img src="${escapeHtml(imageSrc)}" alt="Signature" style="display:block;height:60px;margin-top:12px"/>`
+          : '';
+        parts.push(`<div` + (s ? ` style="${s}"` : '') + `>${greeting}${image}<div style="margin-top:12px;font-weight:600;">${name}</div>${title ? `<div>${title}</div>` : ''}</div>`);
+        break;
+      }
+      case 'image': {
+        const b = block as ImageBlock;
+        const pth = extractPath(b) || b.path;
+        const raw = pth ? resolveImageSrc(getValueAtPath(normalizedData, pth)) : '';
+        const src = raw || (b.src ? decodeEntities(replaceMustache(b.src, normalizedData, locale)) : '');
+        if (!SAFE_IMAGE_SRC.test(src)) {
+          if (src) ctx.warnings?.push(`Skipped an image with an unsupported source: ${src.slice(0, 40)}`);
+          break;
+        }
+        // Alignment via auto margins on a block-level image, which the DOCX converter also understands
+        const alignCss: CSSStyle = b.align === 'center'
+          ? { display: 'block', marginLeft: 'auto', marginRight: 'auto' }
+          : b.align === 'right'
+          ? { display: 'block', marginLeft: 'auto' }
+          : {};
+        const s = cssToString({
+          ...((styles.image as CSSStyle) || {}),
+          ...(toCssLength(b.width) ? { width: toCssLength(b.width) as string } : {}),
+          ...(toCssLength(b.height) ? { height: toCssLength(b.height) as string } : {}),
+          ...alignCss,
+          ...(b.style || {}),
+        });
+        // Placeholder values come back escaped, so they are decoded first and the whole text is escaped once
+        const alt = b.alt ? decodeEntities(replaceMustache(b.alt, normalizedData, locale)) : '';
+        parts.push(`<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}"` + (s ? ` style="${s}"` : '') + `/>`);
+        break;
+      }
+      case 'repeat': {
+        const b = block as RepeatBlock;
+        const itemsSrc = getValueAtPath(normalizedData, b.dataPath || b.sourcePath);
+        const items = Array.isArray(itemsSrc) ? itemsSrc : [];
+        const s = cssToString(b.style);
+        for (let i = 0; i < items.length; i++) {
+          const inner = renderBlocks(b.blocks || [], buildItemScope(items[i], i, normalizedData), ctx).join('\n');
+          parts.push(`<div class="repeat-item"` + (s ? ` style="${s}"` : '') + `>${inner}</div>`);
+        }
+        break;
+      }
+    }
+  }
+  return parts;
+};
+
+export const renderBlocksFromTemplateConfig = (
+  config: TemplateConfig,
+  data: Record<string, any>,
+  options?: { locale?: string; warnings?: string[] }
+): string => {
+  const styles = resolveStyles(config.styles);
+  const normalizedData = applyComputedFields(normalizeDataForRendering(data) as Record<string, any>, config.computed);
+  const locale = options?.locale || config.locale;
+  return renderBlocks(config.blocks || [], normalizedData, { styles, locale, warnings: options?.warnings }).join('\n');
+};
+
+// ---------------- Page layout ----------------
+// Resolved page setup shared by the PDF and DOCX generators; all lengths are in points
+export interface PageRegionLine {
+  text: string; // may still contain {{ $page }} / {{ $pages }}
+  align: 'left' | 'center' | 'right';
+  bold: boolean;
+  fontSize: number;
+}
+export interface PageLayout {
+  size: PageSize;
+  orientation: 'portrait' | 'landscape';
+  width: number;
+  height: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+  header: PageRegionLine[];
+  footer: PageRegionLine[];
+  watermark?: { text: string; opacity: number; color: string; fontSize?: number };
+}
+
+export const PAGE_SIZES_PT: Record<PageSize, [number, number]> = {
+  Letter: [612, 792],
+  A4: [595.28, 841.89],
+  Legal: [612, 1008],
+};
+
+export const PAGE_TOKEN_PATTERN = /\{\{\s*\$(page|pages)\s*\}\}/g;
+
+const POINTS_PER_UNIT: Record<string, number> = { in: 72, cm: 28.3465, mm: 2.83465, pt: 1, px: 0.75 };
+
+const marginToPoints = (m: PageMargin | undefined, fallback: number): number => {
+  if (m == null || m === '') return fallback;
+  if (typeof m === 'number') return m * 72;
+  const match = m.trim().match(/^(\d+(?:\.\d+)?)\s*(in|cm|mm|pt|px)?$/i);
+  if (!match) return fallback;
+  return Number(match[1]) * POINTS_PER_UNIT[(match[2] || 'in').toLowerCase()];
+};
+
+const decodeEntities = (s: string): string =>
+  s.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+
+const htmlToTextLines = (html: string): string[] =>
+  decodeEntities(
+    html
+      .replace(/<br\s*\/?\s*>/gi, '\n')
+      .replace(/<\/(h\d|p|div|li|tr)>/gi, '\n')
+      .replace(/<\/t[dh]>/gi, ' ')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map((l) => l.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+const renderRegionLines = (
+  region: PageRegion | undefined,
+  data: Record<string, any>,
+  ctx: RenderContext
+): PageRegionLine[] => {
+  if (!region?.blocks?.length) return [];
+  // Keep the page tokens in the output; generators substitute them per page
+  const scope = { ...data, $page: '{{ $page }}', $pages: '{{ $pages }}' };
+  const lines: PageRegionLine[] = [];
+  for (const block of region.blocks) {
+    const html = renderBlocks([block], scope, ctx).join('');
+    const style = ('style' in block ? block.style : undefined) as CSSStyle | undefined;
+    const align = (style?.textAlign as PageRegionLine['align']) || region.align || 'center';
+    const weight = String(style?.fontWeight ?? '');
+    const bold = block.type === 'heading' || weight === 'bold' || Number(weight) >= 600;
+    for (const text of htmlToTextLines(html)) lines.push({ text, align, bold, fontSize: region.fontSize || 9 });
+  }
+  return lines;
+};
+
+export const resolvePageLayout = (
+  config: TemplateConfig,
+  data: Record<string, any>,
+  options?: { locale?: string }
+): PageLayout => {
+  const page = config.page || {};
+  const size: PageSize = page.size && PAGE_SIZES_PT[page.size] ? page.size : 'Letter';
+  const orientation = page.orientation === 'landscape' ? 'landscape' : 'portrait';
+  const [w, h] = PAGE_SIZES_PT[size];
+  const m = page.margins;
+  const sides = typeof m === 'object' && m !== null ? m : { top: m, right: m, bottom: m, left: m };
+  const styles = resolveStyles(config.styles);
+  const normalizedData = applyComputedFields(normalizeDataForRendering(data) as Record<string, any>, config.computed);
+  const ctx: RenderContext = { styles, locale: options?.locale || config.locale };
+  const watermark = typeof page.watermark === 'string' ? { text: page.watermark } : page.watermark;
+  return {
+    size,
+    orientation,
+    width: orientation === 'landscape' ? h : w,
+    height: orientation === 'landscape' ? w : h,
+    margins: {
+      top: marginToPoints(sides.top, 72),
+      right: marginToPoints(sides.right, 72),
+      bottom: marginToPoints(sides.bottom, 72),
+      left: marginToPoints(sides.left, 72),
+    },
+    header: renderRegionLines(page.header, normalizedData, ctx),
+    footer: renderRegionLines(page.footer, normalizedData, ctx),
+    watermark: watermark?.text
+      ? {
+          text: decodeEntities(replaceMustache(watermark.text, normalizedData, ctx.locale)),
+          opacity: watermark.opacity ?? 0.15,
+          color: watermark.color || '#9ca3af',
+          fontSize: watermark.fontSize,
+        }
+      : undefined,
+  };
+};
+
+export const fillPageTokens = (text: string, page: number, pages: number): string =>
+  text.replace(PAGE_TOKEN_PATTERN, (_m, token) => String(token === 'page' ? page : pages));
+
+export const hasPageDecorations = (layout?: PageLayout): boolean =>
+  !!layout && (layout.header.length > 0 || layout.footer.length > 0 || !!layout.watermark);
+
+export const renderDocumentFromTemplateConfig = (
+  config: TemplateConfig,
+  data: Record<string, any>,
+  options?: { title?: string; locale?: string; warnings?: string[] }
+): string => {
+  const styles = resolveStyles(config.styles);
+  const docS = cssToString(styles.document as CSSStyle);
+  const locale = options?.locale || config.locale;
+  const body = renderBlocksFromTemplateConfig(config, data, { locale, warnings: options?.warnings });
+  const title = options?.title || config.title || 'Document';
+  const layout = resolvePageLayout(config, data, { locale });
+  const { top, right, bottom, left } = layout.margins;
+  const contentWidth = layout.width - left - right;
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale || 'en')}">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      @page { size: ${layout.width}pt ${layout.height}pt; margin: ${top}pt ${right}pt ${bottom}pt ${left}pt; }
+      :root { --text-color: #111827; --muted-color: #6b7280; --border-color:#e5e7eb; --bg-muted:#f9fafb; }
+      html,body{padding:0;margin:0}
+      body{font-family: system-ui, -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, 'Noto Sans', sans-serif; font-size: 12pt; line-height: 1.5; color: var(--text-color); }
+      .container{max-width: ${contentWidth}pt; margin: 0 auto;}
+      h1,h2,h3,h4,h5,h6{margin: 0 0 12pt 0; line-height: 1.25; font-weight: 700;}
+      h1{font-size: 20pt; margin-top: 0;}
+      h2{font-size: 16pt; margin-top: 16pt;}
+      h3{font-size: 14pt; margin-top: 14pt;}
+      p{margin: 0 0 10pt 0;}
+      ul,ol{margin: 0 0 10pt 1.25rem; padding: 0;}
+      li{margin: 4pt 0;}
+      table{border-collapse: collapse; width: 100%; margin: 10pt 0;}
+      th,td{border: 1px solid var(--border-color); padding: 6pt 8pt; text-align: left; vertical-align: top;}
+      thead th{background: var(--bg-muted); font-weight: 600;}
+      tbody tr:nth-child(even){background: #fafafa;}
+      img{max-width:100%; height:auto;}
+      hr{border:0; border-top: 1px solid var(--border-color); margin: 12pt 0;}
+      .kv-list{display: grid; grid-template-columns: 1.75in 1fr; gap: 6pt 12pt;}
+      .kv-label{font-weight: 600; color: var(--muted-color);}
+      .kv-row{display: contents;}
+      @media print {
+        body{-webkit-print-color-adjust: exact; print-color-adjust: exact;}
+        table, tr, td, th { page-break-inside: avoid; }
+        h1,h2,h3{ page-break-after: avoid; }
+      }
+    </style>
+  </head>
+  <body>
+    <div class="container"` + (docS ? ` style="${docS}"` : '') + `>
+      ${body}
+    </div>
+  </body>
+</html>`;
+};
\ No newline at end of file
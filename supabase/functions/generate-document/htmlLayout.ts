@@ -0,0 +1,353 @@
+// HTML -> PDF layout blocks. Walks the document produced by the shared renderer (renderTemplateDocument) the
+// same way htmlToDocx does for Word, so server PDFs, app PDFs and DOCX files all come from one HTML rendering.
+// Defaults mirror the stylesheet in renderDocumentFromTemplateConfig.
+import { HtmlElement, HtmlNode, parseHtml, findElement, hasClass } from '../_shared/render/htmlDom.ts';
+import { parseInlineStyle, isBoldWeight, boxSides, toPoints, toHexColor, parseBorder, CSS_VARS } from '../_shared/render/cssStyle.ts';
+import { Align, LayoutBlock, TableCellSpec, TextRunSpec } from './pdfLayout.ts';
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: string;
+  link?: string;
+}
+
+interface Context {
+  run: RunStyle;
+  size: number; // pt
+  align?: Align;
+  indent: number; // pt, from margin-left/padding-left of ancestors
+  inTable: boolean;
+  contentWidth: number; // pt; absolute column widths are converted to fractions of it
+}
+
+type TextBlock = Extract<LayoutBlock, { kind: 'text' }>;
+
+const INLINE_TAGS = new Set([
+  'span', 'strong', 'b', 'em', 'i', 'u', 'a', 'br', 'small', 'sub', 'sup', 's', 'del', 'strike', 'code', 'mark', 'label', 'abbr', 'cite', 'q',
+]);
+const SKIPPED_TAGS = new Set(['head', 'style', 'script', 'title', 'meta', 'link', 'colgroup']);
+
+const HEADING_SIZES: Record<number, number> = { 1: 20, 2: 16, 3: 14, 4: 12, 5: 11, 6: 10 };
+const HEADING_SPACE_BEFORE: Record<number, number> = { 1: 0, 2: 16, 3: 14, 4: 12, 5: 12, 6: 12 };
+
+const toAlign = (value?: string): Align | undefined =>
+  value === 'left' || value === 'center' || value === 'right' || value === 'justify' ? value : undefined;
+
+const runStyleFromCss = (style: Record<string, string>, parent: RunStyle): RunStyle => {
+  const next: RunStyle = { ...parent };
+  const bold = isBoldWeight(style['font-weight']);
+  if (bold !== undefined) next.bold = bold;
+  if (style['font-style']) next.italic = /italic|oblique/.test(style['font-style']);
+  const decoration = style['text-decoration'] || style['text-decoration-line'];
+  if (decoration) next.underline = /underline/.test(decoration);
+  const color = toHexColor(style['color']);
+  if (color) next.color = color;
+  return next;
+};
+
+const runStyleForTag = (tag: string, parent: RunStyle): RunStyle => {
+  switch (tag) {
+    case 'strong':
+    case 'b':
+      return { ...parent, bold: true };
+    case 'em':
+    case 'i':
+    case 'cite':
+      return { ...parent, italic: true };
+    case 'u':
+      return { ...parent, underline: true };
+    default:
+      return parent;
+  }
+};
+
+const childContext = (style: Record<string, string>, ctx: Context): Context => {
+  const margin = boxSides(style, 'margin');
+  const padding = boxSides(style, 'padding');
+  const indent = Math.max(0, toPoints(margin.left) ?? 0) + Math.max(0, toPoints(padding.left) ?? 0);
+  return {
+    ...ctx,
+    run: runStyleFromCss(style, ctx.run),
+    size: toPoints(style['font-size']) || ctx.size,
+    align: toAlign(style['text-align']) ?? ctx.align,
+    indent: ctx.indent + indent,
+  };
+};
+
+// ---------------- Inline content ----------------
+// Runs with whitespace collapsed like a browser would; <br> and block boundaries become newlines
+const collectRuns = (nodes: HtmlNode[], style: RunStyle, out: TextRunSpec[]) => {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out.push({ text: node.text.replace(/\s+/g, ' '), ...style });
+      continue;
+    }
+    if (SKIPPED_TAGS.has(node.tag)) continue;
+    if (node.tag === 'br') {
+      out.push({ text: '\n' });
+      continue;
+    }
+    if (node.tag === 'img') {
+      if (node.attrs['alt']) out.push({ text: `[${node.attrs['alt']}]`, ...style });
+      continue;
+    }
+    let next = runStyleForTag(node.tag, runStyleFromCss(parseInlineStyle(node.attrs['style']), style));
+    if (node.tag === 'a' && node.attrs['href'] && /^(https?:|mailto:|tel:)/i.test(node.attrs['href'])) {
+      next = { ...next, link: node.attrs['href'], color: next.color && next.color !== style.color ? next.color : '1D4ED8' };
+    }
+    const block = !INLINE_TAGS.has(node.tag);
+    if (block && out.length) out.push({ text: '\n' });
+    collectRuns(node.children, next, out);
+    if (block) out.push({ text: '\n' });
+  }
+};
+
+// Trim whitespace at line starts/ends and drop empty runs; returns [] when nothing visible is left
+const tidyRuns = (runs: TextRunSpec[]): TextRunSpec[] => {
+  const out: TextRunSpec[] = [];
+  let atLineStart = true;
+  for (const run of runs) {
+    let text = run.text;
+    if (text === '\n') {
+      if (out.length && !atLineStart) out.push(run);
+      atLineStart = true;
+      continue;
+    }
+    if (atLineStart) text = text.replace(/^ +/, '');
+    if (!text) continue;
+    out.push({ ...run, text });
+    atLineStart = false;
+  }
+  while (out.length && out[out.length - 1].text === '\n') out.pop();
+  return out.some((r) => r.text.trim()) ? out : [];
+};
+
+const cellRuns = (nodes: HtmlNode[], style: RunStyle): TextRunSpec[] => {
+  const runs: TextRunSpec[] = [];
+  collectRuns(nodes, style, runs);
+  return tidyRuns(runs);
+};
+
+// ---------------- Blocks ----------------
+const convertChildren = (nodes: HtmlNode[], ctx: Context, base: Partial<TextBlock> = {}): LayoutBlock[] => {
+  const out: LayoutBlock[] = [];
+  let inline: HtmlNode[] = [];
+  const flush = () => {
+    const runs = inline.length ? cellRuns(inline, ctx.run) : [];
+    if (runs.length) {
+      out.push({ kind: 'text', runs, size: ctx.size, align: ctx.align, indent: ctx.indent || undefined, ...base });
+    }
+    inline = [];
+  };
+  for (const node of nodes) {
+    if (node.type === 'text' || INLINE_TAGS.has(node.tag)) {
+      inline.push(node);
+      continue;
+    }
+    flush();
+    out.push(...convertBlock(node, ctx));
+  }
+  flush();
+  return out;
+};
+
+const setSpacing = (block: LayoutBlock | undefined, key: 'spaceBefore' | 'spaceAfter', value: number | undefined) => {
+  if (!block || value == null) return;
+  const space = Math.max(0, value);
+  if (block.kind === 'text') block[key] = space;
+  else if (block.kind === 'list' && key === 'spaceAfter') block.spaceAfter = space;
+};
+
+const paragraphSpacing = (style: Record<string, string>, defaults: { before?: number; after?: number }) => {
+  const margin = boxSides(style, 'margin');
+  return {
+    spaceBefore: toPoints(margin.top) ?? defaults.before,
+    spaceAfter: toPoints(margin.bottom) ?? defaults.after,
+  };
+};
+
+const convertList = (el: HtmlElement, ctx: Context, level: number): LayoutBlock[] => {
+  const ordered = el.tag === 'ol';
+  const listCtx = childContext(parseInlineStyle(el.attrs['style']), ctx);
+  const out: LayoutBlock[] = [];
+  let items: TextRunSpec[][] = [];
+  let start = 1;
+  const flush = () => {
+    if (items.length) out.push({ kind: 'list', items, ordered, size: listCtx.size, color: listCtx.run.color, level, start, spaceAfter: 0 });
+    start += items.length;
+    items = [];
+  };
+  for (const li of el.children) {
+    if (li.type !== 'element') continue;
+    if (li.tag === 'ul' || li.tag === 'ol') {
+      flush();
+      out.push(...convertList(li, listCtx, level + 1));
+      continue;
+    }
+    if (li.tag !== 'li') continue;
+    const itemStyle = runStyleFromCss(parseInlineStyle(li.attrs['style']), listCtx.run);
+    // Nested lists break the item's list block and continue the numbering afterwards
+    const nested = li.children.filter((c) => c.type === 'element' && (c.tag === 'ul' || c.tag === 'ol')) as HtmlElement[];
+    const content = li.children.filter((c) => !(c.type === 'element' && (c.tag === 'ul' || c.tag === 'ol')));
+    items.push(cellRuns(content, itemStyle));
+    if (nested.length) {
+      flush();
+      for (const sub of nested) out.push(...convertList(sub, listCtx, level + 1));
+    }
+  }
+  flush();
+  if (!ctx.inTable && level === 0) setSpacing(out[out.length - 1], 'spaceAfter', 10);
+  return out;
+};
+
+// Column widths as fractions of the table from the first row's cell widths
+const columnLayout = (row: HtmlElement | undefined, contentWidth: number) => {
+  const columns: { width?: number; align?: Align }[] = [];
+  for (const cell of row?.children || []) {
+    if (cell.type !== 'element' || (cell.tag !== 'td' && cell.tag !== 'th')) continue;
+    const style = parseInlineStyle(cell.attrs['style']);
+    const span = Math.max(1, Number(cell.attrs['colspan']) || 1);
+    const width = (style['width'] || '').trim();
+    const pct = width.match(/^(\d+(?:\.\d+)?)%$/);
+    const pt = pct ? undefined : toPoints(width);
+    const fraction = pct ? Number(pct[1]) / 100 : pt ? pt / contentWidth : undefined;
+    for (let i = 0; i < span; i++) {
+      columns.push({ width: fraction && fraction / span, align: span === 1 ? toAlign(style['text-align']) : undefined });
+    }
+  }
+  return columns;
+};
+
+const convertTable = (el: HtmlElement, ctx: Context): LayoutBlock[] => {
+  const tableStyle = parseInlineStyle(el.attrs['style']);
+  const tableCtx = childContext(tableStyle, ctx);
+  const sections: Record<'thead' | 'tbody' | 'tfoot', HtmlElement[]> = { thead: [], tbody: [], tfoot: [] };
+  const collectRows = (node: HtmlElement, section: 'thead' | 'tbody' | 'tfoot') => {
+    for (const child of node.children) {
+      if (child.type !== 'element') continue;
+      if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') collectRows(child, child.tag);
+      else if (child.tag === 'tr') sections[section].push(child);
+    }
+  };
+  collectRows(el, 'tbody');
+  const all = [...sections.thead, ...sections.tbody, ...sections.tfoot];
+  if (!all.length) return [];
+
+  const toCells = (tr: HtmlElement): TableCellSpec[] => {
+    const rowRun = runStyleFromCss(parseInlineStyle(tr.attrs['style']), tableCtx.run);
+    const cells: TableCellSpec[] = [];
+    for (const cell of tr.children) {
+      if (cell.type !== 'element' || (cell.tag !== 'td' && cell.tag !== 'th')) continue;
+      const style = parseInlineStyle(cell.attrs['style']);
+      const base = cell.tag === 'th' && style['font-weight'] == null ? { ...rowRun, bold: true } : rowRun;
+      const colSpan = Number(cell.attrs['colspan']) || undefined;
+      cells.push({ runs: cellRuns(cell.children, runStyleFromCss(style, base)), align: toAlign(style['text-align']), colSpan });
+    }
+    return cells;
+  };
+
+  // Only the first header row repeats on every page; any further header rows become body rows
+  const [headerRow, ...extraHeaderRows] = sections.thead;
+  const headerCell = headerRow?.children.find((c) => c.type === 'element') as HtmlElement | undefined;
+  const headerStyle = parseInlineStyle(headerCell?.attrs['style']);
+  const border = parseBorder(tableStyle['border']);
+  return [
+    {
+      kind: 'table',
+      columns: columnLayout(headerRow || all[0], ctx.contentWidth),
+      header: headerRow ? toCells(headerRow) : undefined,
+      rows: [...extraHeaderRows, ...sections.tbody].map(toCells),
+      footer: sections.tfoot.map(toCells),
+      size: tableCtx.size,
+      headerFill: toHexColor(headerStyle['background-color'] || headerStyle['background']) || CSS_VARS['--bg-muted'],
+      borderColor: border?.color,
+    },
+  ];
+};
+
+// .kv-list is a CSS grid of label/value pairs; the PDF gets a borderless two-column table
+const convertKeyValueList = (el: HtmlElement, ctx: Context): LayoutBlock[] => {
+  const listCtx = childContext(parseInlineStyle(el.attrs['style']), ctx);
+  const rows: TableCellSpec[][] = [];
+  const cellFor = (node: HtmlElement | undefined, extra: RunStyle): TableCellSpec => ({
+    runs: cellRuns(node?.children || [], runStyleFromCss(parseInlineStyle(node?.attrs['style']), { ...listCtx.run, ...extra })),
+  });
+  for (const row of el.children) {
+    if (row.type !== 'element') continue;
+    const label = row.children.find((c) => c.type === 'element' && hasClass(c, 'kv-label')) as HtmlElement | undefined;
+    const value = row.children.find((c) => c.type === 'element' && hasClass(c, 'kv-value')) as HtmlElement | undefined;
+    if (!label && !value) continue;
+    rows.push([cellFor(label, { bold: true, color: CSS_VARS['--muted-color'] }), cellFor(value, {})]);
+  }
+  if (!rows.length) return [];
+  const labelWidth = Math.min(0.5, 126 / ctx.contentWidth); // 1.75in label column
+  return [{ kind: 'table', columns: [{ width: labelWidth }, { width: 1 - labelWidth }], rows, size: listCtx.size, borderless: true }];
+};
+
+const imageBlock = (el: HtmlElement): LayoutBlock[] => {
+  const src = el.attrs['src'] || '';
+  if (!src) return [];
+  const style = parseInlineStyle(el.attrs['style']);
+  const length = (v?: string) => toPoints(v && /^\d+(\.\d+)?$/.test(v) ? `${v}px` : v);
+  // Block images are aligned through auto margins (see the image block in templateRenderer)
+  const { left, right } = boxSides(style, 'margin');
+  const align: Align | undefined = left === 'auto' && right === 'auto' ? 'center' : left === 'auto' ? 'right' : undefined;
+  return [{ kind: 'image', src, width: length(style['width']) ?? length(el.attrs['width']), height: length(style['height']) ?? length(el.attrs['height']), align }];
+};
+
+const convertBlock = (el: HtmlElement, ctx: Context): LayoutBlock[] => {
+  if (SKIPPED_TAGS.has(el.tag)) return [];
+  const style = parseInlineStyle(el.attrs['style']);
+  const heading = el.tag.match(/^h([1-6])$/);
+  if (heading) {
+    const level = Number(heading[1]);
+    const headingCtx = childContext(style, { ...ctx, run: { ...ctx.run, bold: true }, size: HEADING_SIZES[level] });
+    return convertChildren(el.children, headingCtx, {
+      ...paragraphSpacing(style, { before: HEADING_SPACE_BEFORE[level], after: 12 }),
+      keepWithNext: true,
+    });
+  }
+  switch (el.tag) {
+    case 'p':
+      return convertChildren(el.children, childContext(style, ctx), paragraphSpacing(style, { after: ctx.inTable ? 0 : 10 }));
+    case 'ul':
+    case 'ol':
+      return convertList(el, ctx, 0);
+    case 'table':
+      return convertTable(el, ctx);
+    case 'hr': {
+      const border = parseBorder(style['border-top']);
+      return [{ kind: 'rule', color: border?.color, thickness: border?.width }];
+    }
+    case 'img':
+      return imageBlock(el);
+    case 'br':
+      return [{ kind: 'spacer', height: ctx.size * 1.35 }];
+  }
+  if (hasClass(el, 'kv-list')) return convertKeyValueList(el, ctx);
+
+  // Generic container (div, body, section, ...): an empty box with a height is a spacer
+  if (!el.children.some((c) => c.type === 'element' || c.text.trim())) {
+    const height = toPoints(/^\d+(\.\d+)?$/.test(style['height'] || '') ? `${style['height']}px` : style['height']);
+    return height ? [{ kind: 'spacer', height }] : [];
+  }
+  const margin = boxSides(style, 'margin');
+  const blocks = convertChildren(el.children, childContext(style, ctx), { spaceAfter: 0 });
+  // Container margins land on its first and last blocks
+  setSpacing(blocks[0], 'spaceBefore', toPoints(margin.top));
+  setSpacing(blocks[blocks.length - 1], 'spaceAfter', toPoints(margin.bottom));
+  return blocks;
+};
+
+export interface HtmlToLayoutOptions {
+  contentWidth?: number; // pt (defaults to 6.5in)
+}
+
+export function htmlToLayoutBlocks(html: string, options?: HtmlToLayoutOptions): LayoutBlock[] {
+  const root = parseHtml(html);
+  const body = findElement(root, 'body') || root;
+  const ctx: Context = { run: {}, size: 12, indent: 0, inTable: false, contentWidth: options?.contentWidth ?? 468 };
+  return convertChildren(body.children, ctx);
+}
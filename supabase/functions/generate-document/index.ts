@@ -1,12 +1,20 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.0';
-import { PDFDocument, rgb, StandardFonts } from 'https://esm.sh/pdf-lib@1.17.1';
-import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'https://esm.sh/docx@8.2.2';
+import { PDFDocument } from 'pdf-lib';
+import { Packer } from 'docx';
+import { prepareTemplateData, renderTemplateDocument, parseTemplateSchema, RenderedDocument } from '../_shared/render/renderDocument.ts';
+import { validateAgainstSchema, formatSchemaErrors } from '../_shared/render/schemaValidation.ts';
+import { validateTemplateConfig, hasTemplateErrors, formatTemplateIssue } from '../_shared/render/templateLint.ts';
+import { buildDocxDocument } from '../_shared/render/docxDocument.ts';
+import { drawPageDecorations } from '../_shared/render/pdfDecorations.ts';
+import { PdfLayout, embedFonts } from './pdfLayout.ts';
+import { htmlToLayoutBlocks } from './htmlLayout.ts';
 
 interface DocumentRequest {
   template_id: string;
   user_inputs: Record<string, any>;
   file_type: 'PDF' | 'DOCX';
+  template_version?: number; // defaults to the published version
 }
 
 interface DocumentResponse {
@@ -15,6 +23,7 @@ interface DocumentResponse {
   file_type: string;
   download_url: string;
   created_at: string;
+  warnings?: string[];
 }
 
 const corsHeaders = {
@@ -112,7 +121,7 @@ serve(async (req: Request) => {
     }
 
     // Parse request body
-    const { template_id, user_inputs, file_type }: DocumentRequest = await req.json();
+    const { template_id, user_inputs, file_type, template_version }: DocumentRequest = await req.json();
 
     if (!template_id || !user_inputs || !file_type) {
       return new Response(
@@ -136,13 +145,13 @@ serve(async (req: Request) => {
     }
 
     // Fetch template from database
-    const { data: template, error: templateError } = await supabaseClient
+    const { data: publishedTemplate, error: templateError } = await supabaseClient
       .from('templates')
       .select('*')
       .eq('id', template_id)
       .single();
 
-    if (templateError || !template) {
+    if (templateError || !publishedTemplate) {
       return new Response(
         JSON.stringify({ error: 'Template not found' }),
         {
@@ -152,8 +161,70 @@ serve(async (req: Request) => {
       );
     }
 
-    // Generate document content by merging user inputs into template placeholders
-    const documentContent = mergeTemplateWithInputs(template, user_inputs);
+    // A pinned version renders with that version's schema and layout
+    let template = publishedTemplate;
+    if (template_version && template_version !== publishedTemplate.version) {
+      const { data: pinned } = await supabaseClient
+        .from('template_versions')
+        .select('version, json_schema, metadata')
+        .eq('template_id', template_id)
+        .eq('version', template_version)
+        .single();
+      if (!pinned) {
+        return new Response(
+          JSON.stringify({ error: `Template version ${template_version} not found` }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      template = { ...publishedTemplate, ...pinned };
+    }
+
+    // A stored layout with lint errors would render empty or half a document, so it is rejected like save-template does
+    const templateConfig = template.metadata?.templateConfig;
+    if (templateConfig) {
+      const issues = validateTemplateConfig(templateConfig, parseTemplateSchema(template));
+      if (hasTemplateErrors(issues)) {
+        console.warn('Rejected template config:', issues.map(formatTemplateIssue));
+        return new Response(
+          JSON.stringify({ error: 'Template configuration has errors', issues }),
+          {
+            status: 422,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+    }
+
+    // Inputs must satisfy the template's json_schema; only lossless coercion (numeric strings) is applied first
+    const data = prepareTemplateData(template, user_inputs);
+    const validationErrors = validateAgainstSchema(parseTemplateSchema(template), data);
+    if (validationErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Invalid inputs: ${formatSchemaErrors(validationErrors)}`, errors: validationErrors }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Render the template with the same shared core the app uses
+    let rendered: RenderedDocument;
+    try {
+      rendered = renderTemplateDocument(template, data);
+    } catch (renderError) {
+      console.error('Template render error:', renderError);
+      return new Response(
+        JSON.stringify({ error: renderError instanceof Error ? renderError.message : 'Template could not be rendered' }),
+        {
+          status: 422,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
 
     // Generate unique document ID
     const documentId = crypto.randomUUID();
@@ -167,10 +238,10 @@ serve(async (req: Request) => {
     let contentType: string;
 
     if (file_type === 'PDF') {
-      documentBuffer = await generatePDF(template, documentContent);
+      documentBuffer = await generatePDF(rendered);
       contentType = 'application/pdf';
     } else {
-      documentBuffer = await generateDOCX(template, documentContent);
+      documentBuffer = await generateDOCX(rendered);
       contentType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
     }
 
@@ -201,7 +272,10 @@ serve(async (req: Request) => {
         user_id: user.id,
         template_name: template.name,
         storage_path: storagePath,
-        file_type: file_type
+        file_type: file_type,
+        template_id: template.id,
+        template_version: template.version ?? null,
+        user_inputs: user_inputs
       })
       .select()
       .single();
@@ -219,6 +293,23 @@ serve(async (req: Request) => {
       );
     }
 
+    // First revision of the document; the rendered HTML is kept for comparing later revisions
+    const { error: revisionError } = await supabaseClient
+      .from('document_revisions')
+      .insert({
+        document_id: documentId,
+        user_id: user.id,
+        revision: 1,
+        template_version: template.version ?? null,
+        user_inputs: user_inputs,
+        storage_path: storagePath,
+        file_type: file_type,
+        html: rendered.html
+      });
+    if (revisionError) {
+      console.error('Revision insert error:', revisionError);
+    }
+
     // Generate download URL
     const { data: urlData } = await supabaseClient.storage
       .from('documents')
@@ -230,6 +321,7 @@ serve(async (req: Request) => {
       file_type: file_type,
       download_url: urlData?.signedUrl || '',
       created_at: documentRecord.created_at,
+      ...(rendered.warnings.length ? { warnings: rendered.warnings } : {}),
     };
 
     return new Response(JSON.stringify(response), {
@@ -247,217 +339,16 @@ serve(async (req: Request) => {
   }
 });
 
-function mergeTemplateWithInputs(
-  template: any,
-  userInputs: Record<string, any>
-): Record<string, any> {
-  // Handle the template's JSON schema - it might already be parsed or need parsing
-  let schema;
-  try {
-    schema = typeof template.json_schema === 'string' 
-      ? JSON.parse(template.json_schema) 
-      : template.json_schema;
-  } catch (error) {
-    console.error('Error parsing template schema:', error);
-    // Fallback to empty schema if parsing fails
-    schema = { properties: {} };
-  }
-  const content: Record<string, any> = {};
-
-  // Process each field in the user inputs according to the schema
-  for (const [key, value] of Object.entries(userInputs)) {
-    if (schema.properties && schema.properties[key]) {
-      const fieldSchema = schema.properties[key];
-      
-      // Format the value based on the field type
-      switch (fieldSchema.type) {
-        case 'string':
-          content[key] = String(value || '');
-          break;
-        case 'number':
-          content[key] = Number(value) || 0;
-          break;
-        case 'array':
-          content[key] = Array.isArray(value) ? value : [value].filter(Boolean);
-          break;
-        case 'boolean':
-          content[key] = Boolean(value);
-          break;
-        default:
-          content[key] = value;
-      }
-    }
-  }
-
-  // Add template metadata
-  content._template_name = template.name;
-  content._generated_at = new Date().toLocaleString();
-
-  return content;
-}
-
-async function generatePDF(template: any, content: Record<string, any>): Promise<Uint8Array> {
+async function generatePDF({ html, page }: RenderedDocument): Promise<Uint8Array> {
   const pdfDoc = await PDFDocument.create();
-  const page = pdfDoc.addPage([612, 792]); // Standard letter size
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-  
-  const { width, height } = page.getSize();
-  let yPosition = height - 50;
-  
-  // Title
-  page.drawText(template.name, {
-    x: 50,
-    y: yPosition,
-    size: 20,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 40;
-  
-  // Generated date
-  page.drawText(`Generated on: ${content._generated_at}`, {
-    x: 50,
-    y: yPosition,
-    size: 10,
-    font: font,
-    color: rgb(0.5, 0.5, 0.5),
-  });
-  yPosition -= 40;
-  
-  // Content
-  for (const [key, value] of Object.entries(content)) {
-    if (key.startsWith('_')) continue; // Skip metadata fields
-    
-    const formattedKey = key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-    
-    // Field label
-    page.drawText(`${formattedKey}:`, {
-      x: 50,
-      y: yPosition,
-      size: 12,
-      font: boldFont,
-      color: rgb(0, 0, 0),
-    });
-    yPosition -= 20;
-    
-    // Field value
-    let valueText = '';
-    if (Array.isArray(value)) {
-      valueText = value.join(', ');
-    } else {
-      valueText = String(value);
-    }
-    
-    // Handle long text by wrapping
-    const maxWidth = width - 100;
-    const words = valueText.split(' ');
-    let line = '';
-    
-    for (const word of words) {
-      const testLine = line + (line ? ' ' : '') + word;
-      const textWidth = font.widthOfTextAtSize(testLine, 11);
-      
-      if (textWidth > maxWidth && line) {
-        page.drawText(line, {
-          x: 70,
-          y: yPosition,
-          size: 11,
-          font: font,
-          color: rgb(0, 0, 0),
-        });
-        yPosition -= 15;
-        line = word;
-      } else {
-        line = testLine;
-      }
-    }
-    
-    if (line) {
-      page.drawText(line, {
-        x: 70,
-        y: yPosition,
-        size: 11,
-        font: font,
-        color: rgb(0, 0, 0),
-      });
-    }
-    
-    yPosition -= 30;
-    
-    // Add new page if needed
-  let page = pdfDoc.addPage([612, 792]); // Standard letter size  return await pdfDoc.save();
+  const fonts = await embedFonts(pdfDoc);
+  const blocks = htmlToLayoutBlocks(html, { contentWidth: page.width - page.margins.left - page.margins.right });
+  await new PdfLayout(pdfDoc, page, fonts).render(blocks);
+  drawPageDecorations(pdfDoc, page, fonts);
+  return await pdfDoc.save();
 }
 
-async function generateDOCX(template: any, content: Record<string, any>): Promise<Uint8Array> {
-  const doc = new Document({
-    sections: [
-      {
-        properties: {},
-        children: [
-          // Title
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: template.name,
-                bold: true,
-                size: 32,
-              }),
-            ],
-            heading: HeadingLevel.TITLE,
-          }),
-          
-          // Generated date
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: `Generated on: ${content._generated_at}`,
-                italics: true,
-                size: 20,
-              }),
-            ],
-          }),
-          
-          new Paragraph({ text: '' }), // Empty line
-          
-          // Content
-          ...Object.entries(content)
-            .filter(([key]) => !key.startsWith('_'))
-            .flatMap(([key, value]) => {
-              const formattedKey = key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-              
-              let valueText = '';
-              if (Array.isArray(value)) {
-                valueText = value.join(', ');
-              } else {
-                valueText = String(value);
-              }
-              
-              return [
-                new Paragraph({
-                  children: [
-                    new TextRun({
-                      text: `${formattedKey}:`,
-                      bold: true,
-                      size: 24,
-                    }),
-                  ],
-                }),
-                new Paragraph({
-                  children: [
-                    new TextRun({
-                      text: valueText,
-                      size: 22,
-                    }),
-                  ],
-                }),
-                new Paragraph({ text: '' }), // Empty line
-              ];
-            }),
-        ],
-      },
-    ],
-  });
-  
-  return await Packer.toBuffer(doc);
-}
\ No newline at end of file
+async function generateDOCX({ html, page }: RenderedDocument): Promise<Uint8Array> {
+  const doc = await buildDocxDocument(html, page);
+  return new Uint8Array(await Packer.toArrayBuffer(doc));
+}
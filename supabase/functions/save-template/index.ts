@@ -0,0 +1,162 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.0';
+import {
+  validateTemplateConfig,
+  validateJsonSchema,
+  hasTemplateErrors,
+  formatTemplateIssue,
+} from '../_shared/render/templateLint.ts';
+import { parseTemplateSchema } from '../_shared/render/renderDocument.ts';
+
+interface SaveTemplateRequest {
+  template_id?: string; // omitted when creating a template
+  template: {
+    name: string;
+    description?: string | null;
+    json_schema: any;
+    metadata?: any;
+  };
+  changelog?: string;
+  publish?: boolean; // defaults to true; an unpublished version can be published later
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// jsonb does not keep key order, so stored and submitted content are compared by value rather than as JSON text
+const jsonEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && jsonEqual((a as any)[key], (b as any)[key]))
+  );
+};
+
+// Creates or updates a template after checking its metadata.templateConfig against its json_schema.
+// Templates with lint errors are rejected with 422 and the list of issues; warnings are returned with the saved row.
+// A changed json_schema or metadata is stored as a new template version, which is published unless `publish` is false.
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return json({ error: 'Missing Supabase environment variables' }, 500);
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: req.headers.get('Authorization')! },
+      },
+    });
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: profile } = await supabaseClient
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+    if (profile?.role !== 'admin') {
+      return json({ error: 'Only admins can save templates' }, 403);
+    }
+
+    const { template_id, template, changelog, publish = true }: SaveTemplateRequest = await req.json();
+    if (!template || !template.name || !template.json_schema) {
+      return json({ error: 'Missing template name or json_schema' }, 400);
+    }
+
+    const issues = [
+      ...validateJsonSchema(template.json_schema),
+      ...(template.metadata?.templateConfig
+        ? validateTemplateConfig(template.metadata.templateConfig, parseTemplateSchema(template))
+        : []),
+    ];
+    if (hasTemplateErrors(issues)) {
+      console.warn('Rejected template config:', issues.map(formatTemplateIssue));
+      return json({ error: 'Template configuration has errors', issues }, 422);
+    }
+
+    const content = { json_schema: template.json_schema, metadata: template.metadata ?? {} };
+    const details = { name: template.name, description: template.description ?? null };
+
+    if (!template_id) {
+      const { data, error } = await supabaseClient
+        .from('templates')
+        .insert({ ...details, ...content, version: 1 })
+        .select()
+        .single();
+      if (error) {
+        console.error('Template save error:', error);
+        return json({ error: 'Failed to save template' }, 500);
+      }
+      const { error: versionError } = await supabaseClient.from('template_versions').insert({
+        template_id: data.id,
+        version: 1,
+        ...content,
+        changelog: changelog || 'Initial version',
+        created_by: user.id,
+      });
+      if (versionError) console.error('Template version insert error:', versionError);
+      return json({ template: data, version: 1, issues });
+    }
+
+    const { data: latest } = await supabaseClient
+      .from('template_versions')
+      .select('version, json_schema, metadata')
+      .eq('template_id', template_id)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    // Saving only the name or description does not make a new version
+    let version: number = latest?.version ?? 0;
+    const unchanged =
+      latest && jsonEqual(latest.json_schema, content.json_schema) && jsonEqual(latest.metadata, content.metadata);
+    if (!unchanged) {
+      version += 1;
+      const { error: versionError } = await supabaseClient.from('template_versions').insert({
+        template_id,
+        version,
+        ...content,
+        changelog: changelog || null,
+        created_by: user.id,
+      });
+      if (versionError) {
+        console.error('Template version insert error:', versionError);
+        return json({ error: 'Failed to save template version' }, 500);
+      }
+    }
+
+    const row = publish ? { ...details, ...content, version } : details;
+    const { data, error } = await supabaseClient.from('templates').update(row).eq('id', template_id).select().single();
+    if (error) {
+      console.error('Template save error:', error);
+      return json({ error: 'Failed to save template' }, 500);
+    }
+
+    return json({ template: data, version, issues });
+  } catch (error) {
+    console.error('Error in save-template function:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
@@ -425,4 +425,212 @@ BEGIN
     );
   END IF;
 END
-$$;
\ No newline at end of file
+$$;
+-- Form drafts: one autosaved, not yet generated set of inputs per user and template
+CREATE TABLE IF NOT EXISTS public.drafts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE NOT NULL,
+    template_name TEXT NOT NULL,
+    form_data JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, template_id)
+);
+
+ALTER TABLE public.drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own drafts" ON public.drafts;
+CREATE POLICY "Users can view own drafts" ON public.drafts
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create own drafts" ON public.drafts;
+CREATE POLICY "Users can create own drafts" ON public.drafts
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own drafts" ON public.drafts;
+CREATE POLICY "Users can update own drafts" ON public.drafts
+    FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own drafts" ON public.drafts;
+CREATE POLICY "Users can delete own drafts" ON public.drafts
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_drafts_user_updated ON public.drafts(user_id, updated_at DESC);
+
+GRANT ALL ON public.drafts TO authenticated;
+
+COMMENT ON TABLE public.drafts IS 'Autosaved form inputs per user and template, removed once a document is generated';
+
+-- Address book: parties a user fills into documents again and again (clients, employees, companies)
+CREATE TABLE IF NOT EXISTS public.parties (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('client', 'employee', 'company')),
+    name TEXT NOT NULL,
+    email TEXT,
+    phone TEXT,
+    address TEXT,
+    company TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, kind, name)
+);
+
+ALTER TABLE public.parties ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own parties" ON public.parties;
+CREATE POLICY "Users can view own parties" ON public.parties
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create own parties" ON public.parties;
+CREATE POLICY "Users can create own parties" ON public.parties
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own parties" ON public.parties;
+CREATE POLICY "Users can update own parties" ON public.parties
+    FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own parties" ON public.parties;
+CREATE POLICY "Users can delete own parties" ON public.parties
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_parties_user_kind ON public.parties(user_id, kind);
+
+GRANT ALL ON public.parties TO authenticated;
+
+COMMENT ON TABLE public.parties IS 'Per-user address book used to autocomplete fields marked with x-party';
+
+-- Template version: which version of its schema and layout a template is on, so documents can tell which one they used
+ALTER TABLE public.templates
+    ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Documents keep the inputs and template version they were generated from, so they can be edited and regenerated
+ALTER TABLE public.documents
+    ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.templates(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS template_version INTEGER,
+    ADD COLUMN IF NOT EXISTS user_inputs JSONB,
+    ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_documents_template_id ON public.documents(template_id);
+
+COMMENT ON COLUMN public.documents.user_inputs IS 'Form inputs the document was generated from; NULL for documents created before inputs were stored';
+COMMENT ON COLUMN public.documents.revision IS 'Incremented each time the document is edited and regenerated';
+
+-- Document revisions: every generated version of a document with its inputs, file and rendered HTML
+CREATE TABLE IF NOT EXISTS public.document_revisions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    revision INTEGER NOT NULL,
+    template_version INTEGER,
+    user_inputs JSONB,
+    storage_path TEXT NOT NULL,
+    file_type TEXT NOT NULL,
+    html TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (document_id, revision)
+);
+
+ALTER TABLE public.document_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own document revisions" ON public.document_revisions;
+CREATE POLICY "Users can view own document revisions" ON public.document_revisions
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create own document revisions" ON public.document_revisions;
+CREATE POLICY "Users can create own document revisions" ON public.document_revisions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own document revisions" ON public.document_revisions;
+CREATE POLICY "Users can delete own document revisions" ON public.document_revisions
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_document_revisions_document ON public.document_revisions(document_id, revision DESC);
+
+GRANT ALL ON public.document_revisions TO authenticated;
+
+COMMENT ON TABLE public.document_revisions IS 'Immutable history of generated document versions; documents holds the latest one';
+COMMENT ON COLUMN public.document_revisions.user_id IS 'Author of the revision';
+COMMENT ON COLUMN public.document_revisions.html IS 'Rendered HTML, kept for text comparison between revisions';
+
+-- Template versions: immutable snapshots of a template's schema and layout. templates.version points at the
+-- published one, whose json_schema and metadata are mirrored on the templates row for existing readers.
+CREATE TABLE IF NOT EXISTS public.template_versions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE NOT NULL,
+    version INTEGER NOT NULL,
+    json_schema JSONB NOT NULL,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    changelog TEXT,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (template_id, version)
+);
+
+ALTER TABLE public.template_versions ENABLE ROW LEVEL SECURITY;
+
+-- No update policy: versions are never edited, a change is saved as a new version
+DROP POLICY IF EXISTS "Authenticated users can view template versions" ON public.template_versions;
+CREATE POLICY "Authenticated users can view template versions" ON public.template_versions
+    FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Admins can create template versions" ON public.template_versions;
+CREATE POLICY "Admins can create template versions" ON public.template_versions
+    FOR INSERT TO authenticated WITH CHECK (
+        EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+DROP POLICY IF EXISTS "Admins can update templates" ON public.templates;
+CREATE POLICY "Admins can update templates" ON public.templates
+    FOR UPDATE TO authenticated USING (
+        EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+CREATE INDEX IF NOT EXISTS idx_template_versions_template ON public.template_versions(template_id, version DESC);
+
+GRANT ALL ON public.template_versions TO authenticated;
+
+COMMENT ON TABLE public.template_versions IS 'Immutable versions of each template; documents pin the version they were generated from';
+COMMENT ON COLUMN public.templates.version IS 'Published version (template_versions.version); json_schema and metadata mirror it';
+
+-- Existing templates become version rows of their current content
+INSERT INTO public.template_versions (template_id, version, json_schema, metadata, changelog)
+SELECT id, version, json_schema, metadata, 'Initial version'
+FROM public.templates
+ON CONFLICT (template_id, version) DO NOTHING;
+
+-- Makes a version the published one, copying its content onto the templates row
+DROP FUNCTION IF EXISTS public.publish_template_version(UUID, INTEGER);
+CREATE OR REPLACE FUNCTION public.publish_template_version(p_template_id UUID, p_version INTEGER)
+RETURNS public.templates AS $$
+DECLARE
+    published public.templates;
+BEGIN
+    UPDATE public.templates t
+    SET json_schema = v.json_schema,
+        metadata = v.metadata,
+        version = v.version
+    FROM public.template_versions v
+    WHERE t.id = p_template_id AND v.template_id = p_template_id AND v.version = p_version
+    RETURNING t.* INTO published;
+
+    IF published.id IS NULL THEN
+        RAISE EXCEPTION 'Template version % of % not found', p_version, p_template_id;
+    END IF;
+    RETURN published;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Archived templates are hidden from the template picker but keep their versions and documents
+ALTER TABLE public.templates
+    ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+DROP POLICY IF EXISTS "Admins can delete templates" ON public.templates;
+CREATE POLICY "Admins can delete templates" ON public.templates
+    FOR DELETE TO authenticated USING (
+        EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+COMMENT ON COLUMN public.templates.archived_at IS 'Set when an admin archives the template; NULL for templates users can pick';
@@ -0,0 +1,105 @@
+import { diffInputs, htmlToTextLines, diffHtmlText } from '../documentDiff';
+import { JSONSchemaBranch } from '../../supabase/functions/_shared/render/schemaTemplate';
+
+const changes = (...args: Parameters<typeof diffInputs>) =>
+  diffInputs(...args).map((c) => `${c.kind} ${c.path} (${c.label}): ${c.before} → ${c.after}`);
+
+describe('diffInputs', () => {
+  const schema: JSONSchemaBranch = {
+    properties: {
+      client: { type: 'object', title: 'Customer', properties: { email: { type: 'string', title: 'E-mail' } } },
+      signed: { type: 'boolean' },
+      items: { type: 'array', items: { type: 'object', properties: { price: { type: 'number', title: 'Unit price' } } } },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+  };
+
+  it('classifies each leaf value and labels it from the schema', () => {
+    expect(
+      changes(
+        { client: { email: 'a@x.org' }, signed: false, notes: 'old', tags: ['a'] },
+        { client: { email: 'b@x.org' }, signed: false, due_date: '', tags: ['a'], extra: 'new' },
+        schema
+      )
+    ).toEqual([
+      'changed client.email (Customer – E-mail): a@x.org → b@x.org',
+      'unchanged signed (Signed): No → No',
+      'unchanged due_date (Due Date): — → —',
+      'unchanged tags (Tags): a → a',
+      'added extra (Extra): — → new',
+      'removed notes (Notes): old → —',
+    ]);
+  });
+
+  it('compares lists of objects per item', () => {
+    expect(changes({ items: [{ price: 1 }, { price: 2 }] }, { items: [{ price: 1 }, { price: 3 }, { price: 4 }] }, schema)).toEqual([
+      'unchanged items[0].price (Items #1 – Unit price): 1 → 1',
+      'changed items[1].price (Items #2 – Unit price): 2 → 3',
+      'added items[2].price (Items #3 – Unit price): — → 4',
+    ]);
+  });
+
+  it('labels removed fields from the schema of the earlier version', () => {
+    const beforeSchema: JSONSchemaBranch = { properties: { ref: { type: 'string', title: 'Reference no.' } } };
+    expect(changes({ ref: 'R-1' }, { client: { email: 'a@x.org' } }, schema, beforeSchema)).toEqual([
+      'added client.email (Customer – E-mail): — → a@x.org',
+      'removed ref (Reference no.): R-1 → —',
+    ]);
+  });
+
+  it('shows drawn images outside signature fields as "Image"', () => {
+    expect(changes({}, { photo: 'data:image/png;base64,AAAA' })).toEqual(['added photo (Photo): — → Image']);
+  });
+
+  it('handles missing inputs', () => {
+    expect(diffInputs(null, undefined)).toEqual([]);
+  });
+});
+
+describe('htmlToTextLines', () => {
+  it('puts each block on its own line and separates table cells', () => {
+    const html =
+      '<html><head><style>p{color:red}</style></head><body><h1>Invoice</h1><p>Dear  <b>Ann</b>,<br/>thanks.</p>' +
+      '<table><tr><th>Item</th><th>Price</th></tr><tr><td>Pen</td><td>2</td></tr></table>' +
+      '<img src="x.png" alt="Logo"/></body></html>';
+    expect(htmlToTextLines(html)).toEqual(['Invoice', 'Dear Ann,', 'thanks.', 'Item | Price', 'Pen | 2', '[Logo]']);
+  });
+});
+
+describe('diffHtmlText', () => {
+  it('keeps unchanged lines and marks added and removed ones', () => {
+    const lines = diffHtmlText('<p>A</p><p>B</p>', '<p>A</p><p>B</p><p>C</p>');
+    expect(lines.map((l) => `${l.type} ${l.segments.map((s) => s.text).join('')}`)).toEqual(['same A', 'same B', 'added C']);
+  });
+
+  it('diffs an edited line word by word', () => {
+    const lines = diffHtmlText('<p>Total: 10 EUR</p>', '<p>Total: 12 EUR</p>');
+    expect(lines).toEqual([
+      {
+        type: 'removed',
+        segments: [
+          { type: 'same', text: 'Total: ' },
+          { type: 'removed', text: '10' },
+          { type: 'same', text: ' EUR' },
+        ],
+      },
+      {
+        type: 'added',
+        segments: [
+          { type: 'same', text: 'Total: ' },
+          { type: 'added', text: '12' },
+          { type: 'same', text: ' EUR' },
+        ],
+      },
+    ]);
+  });
+
+  it('lists replaced lines whole when the counts differ', () => {
+    const lines = diffHtmlText('<p>One</p>', '<p>Two</p><p>Three</p>');
+    expect(lines.map((l) => `${l.type} ${l.segments.map((s) => s.text).join('')}`)).toEqual([
+      'removed One',
+      'added Two',
+      'added Three',
+    ]);
+  });
+});
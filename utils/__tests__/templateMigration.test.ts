@@ -0,0 +1,74 @@
+import { migrateInputs } from '../templateMigration';
+import { JSONSchemaBranch } from '../../supabase/functions/_shared/render/schemaTemplate';
+
+describe('migrateInputs', () => {
+  it('keeps values that still fit and converts those that convert without loss', () => {
+    const schema: JSONSchemaBranch = {
+      properties: {
+        name: { type: 'string' },
+        qty: { type: 'integer' },
+        price: { type: 'number' },
+        agreed: { type: 'boolean' },
+        code: { type: 'string' },
+      },
+    };
+    expect(migrateInputs({ name: 'Ann', qty: '3', price: '2.5', agreed: 'true', code: 42 }, schema)).toEqual({
+      values: { name: 'Ann', qty: 3, price: 2.5, agreed: true, code: '42' },
+      dropped: [],
+      reset: [],
+    });
+  });
+
+  it('resets values that no longer fit the type or options', () => {
+    const schema: JSONSchemaBranch = {
+      properties: {
+        qty: { type: 'integer' },
+        status: { type: 'string', enum: ['draft', 'final'] },
+        tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } },
+        address: { type: 'object', properties: { city: { type: 'string' } } },
+        list: { type: 'array', items: { type: 'string' } },
+      },
+    };
+    const result = migrateInputs({ qty: '2.5', status: 'sent', tags: ['a', 'c'], address: 'Main St', list: 'x' }, schema);
+    expect(result.values).toEqual({});
+    expect(result.reset).toEqual(['qty', 'status', 'tags', 'address', 'list']);
+  });
+
+  it('reports inputs the new schema has no field for', () => {
+    const result = migrateInputs({ name: 'Ann', fax: '123', empty: '', client: { name: 'X', vat: 'DE1' } }, {
+      properties: { name: { type: 'string' }, client: { type: 'object', properties: { name: { type: 'string' } } } },
+    });
+    expect(result.values).toEqual({ name: 'Ann', client: { name: 'X' } });
+    expect(result.dropped).toEqual(['client.vat', 'fax']);
+  });
+
+  it('follows x-renamedFrom, taking each old value once', () => {
+    const schema: JSONSchemaBranch = {
+      properties: {
+        full_name: { type: 'string', 'x-renamedFrom': ['name', 'customer'] },
+        alias: { type: 'string', 'x-renamedFrom': 'name' },
+      },
+    };
+    expect(migrateInputs({ name: 'Ann', customer: 'Bob' }, schema)).toEqual({
+      values: { full_name: 'Ann' },
+      dropped: ['customer'],
+      reset: [],
+    });
+  });
+
+  it('migrates each item of a list of objects and reports items that are not objects', () => {
+    const schema: JSONSchemaBranch = {
+      properties: {
+        items: { type: 'array', items: { type: 'object', properties: { qty: { type: 'number' }, name: { type: 'string' } } } },
+      },
+    };
+    const result = migrateInputs({ items: [{ qty: '2', name: 'Pen', sku: 'P1' }, 'stray', { qty: 'many' }] }, schema);
+    expect(result.values).toEqual({ items: [{ qty: 2, name: 'Pen' }, {}] });
+    expect(result.reset).toEqual(['items[1]', 'items[2].qty']);
+    expect(result.dropped).toEqual(['items[0].sku']);
+  });
+
+  it('starts from nothing when there are no saved inputs', () => {
+    expect(migrateInputs(null, { properties: { a: { type: 'string' } } })).toEqual({ values: {}, dropped: [], reset: [] });
+  });
+});
@@ -0,0 +1,74 @@
+// Mapping between address book parties and form fields marked with `x-party` (see JSONSchemaProperty)
+import { JSONSchemaProperty } from '../supabase/functions/_shared/render/schemaTemplate';
+import { Party, PartyKind, Database } from '../lib/supabase';
+
+export type PartyField = NonNullable<JSONSchemaProperty['x-partyField']>;
+export const PARTY_FIELDS: PartyField[] = ['name', 'email', 'phone', 'address', 'company'];
+
+type PartyInsert = Database['public']['Tables']['parties']['Insert'];
+
+// Party column a field holds: its `x-partyField`, or its key when that names a column (`email`, `address`, ...)
+const fieldOf = (key: string, prop: JSONSchemaProperty): PartyField | undefined =>
+  prop['x-partyField'] || (PARTY_FIELDS.includes(key as PartyField) ? (key as PartyField) : undefined);
+
+const text = (v: unknown): string | null => (typeof v === 'string' && v.trim() ? v.trim() : null);
+
+/**
+ * Field values to set when `party` is picked. With `sameKindOnly`, only fields declaring the party's kind are
+ * filled (text fields next to each other, e.g. client_name / client_email); otherwise every sub-field of an
+ * `x-party` object whose name matches a party column.
+ */
+export const partyAssignments = (
+  properties: Record<string, JSONSchemaProperty>,
+  party: Party,
+  sameKindOnly: boolean
+): Record<string, string> => {
+  const out: Record<string, string> = {};
+  for (const [key, prop] of Object.entries(properties)) {
+    if (sameKindOnly && prop['x-party'] !== party.kind) continue;
+    const field = sameKindOnly ? prop['x-partyField'] || 'name' : fieldOf(key, prop);
+    const value = field ? party[field] : null;
+    if (value) out[key] = value;
+  }
+  return out;
+};
+
+export const matchParties = (parties: Party[], kind: PartyKind, query: string, limit = 5): Party[] => {
+  const q = query.trim().toLowerCase();
+  return parties
+    .filter((p) => p.kind === kind && (!q || p.name.toLowerCase().includes(q) || p.company?.toLowerCase().includes(q)))
+    .slice(0, limit);
+};
+
+/** Parties entered in a submitted form: `x-party` objects, and groups of same-kind text fields at the top level. */
+export const collectParties = (
+  properties: Record<string, JSONSchemaProperty>,
+  values: Record<string, any>,
+  userId: string
+): PartyInsert[] => {
+  const parties: PartyInsert[] = [];
+  // Empty fields are left out so saving does not erase details the party already has
+  const add = (kind: PartyKind, fields: Partial<Record<PartyField, string | null>>) => {
+    const filled = Object.fromEntries(Object.entries(fields).filter(([, v]) => v)) as Partial<Record<PartyField, string>>;
+    if (filled.name) parties.push({ ...filled, user_id: userId, kind, name: filled.name, updated_at: new Date().toISOString() });
+  };
+
+  const flat: Partial<Record<PartyKind, Partial<Record<PartyField, string | null>>>> = {};
+  for (const [key, prop] of Object.entries(properties)) {
+    const kind = prop['x-party'];
+    if (!kind) continue;
+    if (prop.type === 'object' && prop.properties) {
+      const inner = values?.[key] || {};
+      const fields: Partial<Record<PartyField, string | null>> = {};
+      for (const [subKey, subProp] of Object.entries(prop.properties)) {
+        const field = fieldOf(subKey, subProp);
+        if (field) fields[field] = text(inner[subKey]);
+      }
+      add(kind, fields);
+    } else {
+      flat[kind] = { ...flat[kind], [prop['x-partyField'] || 'name']: text(values?.[key]) };
+    }
+  }
+  for (const [kind, fields] of Object.entries(flat)) add(kind as PartyKind, fields!);
+  return parties;
+};
@@ -0,0 +1,224 @@
+// Comparing two revisions of a document: their form inputs field by field, and the text of their rendered HTML
+import { JSONSchemaBranch, JSONSchemaProperty, toLabel } from '../supabase/functions/_shared/render/schemaTemplate';
+import { HtmlElement, HtmlNode, parseHtml, findElement } from '../supabase/functions/_shared/render/htmlDom';
+import { formatValue } from './formSteps';
+
+export type ChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface InputChange {
+  path: string; // e.g. `client.email`, `items[1].price`
+  label: string;
+  before: string;
+  after: string;
+  kind: ChangeKind;
+}
+
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface TextDiffLine {
+  type: 'same' | 'added' | 'removed';
+  segments: DiffSegment[]; // word-level changes for a line that replaced another, otherwise one segment
+}
+
+const isEmpty = (v: unknown) => v === undefined || v === null || v === '' || (Array.isArray(v) && v.length === 0);
+
+// Leaf values keyed by path; lists of objects are split per item so one changed row does not mark the whole list
+const flatten = (value: unknown, path: string, out: Record<string, unknown>) => {
+  if (Array.isArray(value) && value.some((v) => v && typeof v === 'object')) {
+    value.forEach((item, i) => flatten(item, `${path}[${i}]`, out));
+  } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, inner] of Object.entries(value)) flatten(inner, path ? `${path}.${key}` : key, out);
+  } else if (path) {
+    out[path] = value;
+  }
+};
+
+// Schema property and display label for a flattened path
+const describePath = (schema: JSONSchemaBranch | null | undefined, path: string) => {
+  let prop: JSONSchemaProperty | undefined;
+  let branch: JSONSchemaBranch | undefined = schema || undefined;
+  const labels: string[] = [];
+  for (const part of path.match(/[^.[\]]+/g) || []) {
+    if (/^\d+$/.test(part)) {
+      labels[labels.length - 1] += ` #${Number(part) + 1}`;
+      branch = prop?.items;
+      continue;
+    }
+    prop = branch?.properties?.[part];
+    labels.push(prop?.title || toLabel(part));
+    branch = prop;
+  }
+  return { prop: prop || {}, label: labels.join(' – ') };
+};
+
+// Images (drawn signatures) outside a declared signature field are not shown as their data URI
+const display = (value: unknown, prop: JSONSchemaProperty) =>
+  !prop['x-widget'] && typeof value === 'string' && value.startsWith('data:image/') ? 'Image' : formatValue(value, prop);
+
+/**
+ * Field-by-field comparison of two sets of inputs, in the order fields appear in `after` then `before`. `schema`
+ * belongs to the template version of `after`; pass `beforeSchema` when `before` was made with another version, so
+ * removed or renamed fields keep the label and formatting they had.
+ */
+export const diffInputs = (
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined,
+  schema?: JSONSchemaBranch | null,
+  beforeSchema: JSONSchemaBranch | null | undefined = schema
+): InputChange[] => {
+  const a: Record<string, unknown> = {};
+  const b: Record<string, unknown> = {};
+  flatten(before || {}, '', a);
+  flatten(after || {}, '', b);
+  const paths = [...new Set([...Object.keys(b), ...Object.keys(a)])];
+  return paths.map((path) => {
+    const previous = describePath(beforeSchema, path);
+    const current = describePath(schema, path);
+    const [was, now] = [a[path], b[path]];
+    const kind: ChangeKind =
+      isEmpty(was) && isEmpty(now)
+        ? 'unchanged'
+        : isEmpty(was)
+          ? 'added'
+          : isEmpty(now)
+            ? 'removed'
+            : JSON.stringify(was) === JSON.stringify(now)
+              ? 'unchanged'
+              : 'changed';
+    const label = path in b ? current.label : previous.label;
+    return { path, label, before: display(was, previous.prop), after: display(now, current.prop), kind };
+  });
+};
+
+const BLOCK_TAGS = new Set(['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'tr', 'table', 'ul', 'ol', 'hr', 'section']);
+
+/** Visible text of rendered document HTML, one line per paragraph, heading, list item or table row. */
+export const htmlToTextLines = (html: string): string[] => {
+  const root = parseHtml(html);
+  const body = findElement(root, 'body') || root;
+  const lines: string[] = [];
+  let line = '';
+  const breakLine = () => {
+    const text = line.replace(/\s+/g, ' ').trim();
+    if (text) lines.push(text);
+    line = '';
+  };
+  const walk = (node: HtmlNode) => {
+    if (node.type === 'text') {
+      line += node.text;
+      return;
+    }
+    const el = node as HtmlElement;
+    if (el.tag === 'style' || el.tag === 'script') return;
+    if (el.tag === 'br') return breakLine();
+    if (el.tag === 'img' && el.attrs['alt']) line += ` [${el.attrs['alt']}] `;
+    if (BLOCK_TAGS.has(el.tag)) breakLine();
+    el.children.forEach((child, i) => {
+      if (i > 0 && (child.type === 'element' && (child.tag === 'td' || child.tag === 'th'))) line += ' | ';
+      walk(child);
+    });
+    if (BLOCK_TAGS.has(el.tag)) breakLine();
+  };
+  walk(body);
+  breakLine();
+  return lines;
+};
+
+// Above this many comparisons a changed stretch is shown as removed then added instead of being aligned
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Longest-common-subsequence diff of two token lists
+const diffSequence = (a: string[], b: string[]): DiffSegment[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const head = a.slice(0, start).map((text) => ({ type: 'same' as const, text }));
+  const tail = a.slice(endA).map((text) => ({ type: 'same' as const, text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map((text) => ({ type: 'removed' as const, text })),
+      ...midB.map((text) => ({ type: 'added' as const, text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j]: common length of midA[i..] and midB[j..]
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const middle: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i++] });
+      j++;
+    } else if (i < midA.length && (j === midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  return [...head, ...middle, ...tail];
+};
+
+// Adjacent segments of the same type joined, e.g. the words of an unchanged phrase
+const mergeSegments = (segments: DiffSegment[]): DiffSegment[] =>
+  segments.reduce<DiffSegment[]>((out, s) => {
+    const last = out[out.length - 1];
+    if (last && last.type === s.type) last.text += s.text;
+    else out.push({ ...s });
+    return out;
+  }, []);
+
+const words = (line: string) => line.match(/\s+|[^\s]+/g) || [];
+
+/**
+ * Line diff of two rendered documents. Runs of removed lines directly followed by as many added lines are treated
+ * as edited lines and get word-level segments, so a changed amount or name stands out within its paragraph.
+ */
+export const diffHtmlText = (beforeHtml: string, afterHtml: string): TextDiffLine[] => {
+  const lines = diffSequence(htmlToTextLines(beforeHtml), htmlToTextLines(afterHtml));
+  const out: TextDiffLine[] = [];
+  for (let k = 0; k < lines.length; ) {
+    if (lines[k].type !== 'removed') {
+      out.push({ type: lines[k].type, segments: [{ type: 'same', text: lines[k].text }] });
+      k++;
+      continue;
+    }
+    let removedEnd = k;
+    while (removedEnd < lines.length && lines[removedEnd].type === 'removed') removedEnd++;
+    let addedEnd = removedEnd;
+    while (addedEnd < lines.length && lines[addedEnd].type === 'added') addedEnd++;
+    const removed = lines.slice(k, removedEnd);
+    const added = lines.slice(removedEnd, addedEnd);
+    if (removed.length === added.length) {
+      const pairs = removed.map((r, n) => diffSequence(words(r.text), words(added[n].text)));
+      pairs.forEach((segments) =>
+        out.push({ type: 'removed', segments: mergeSegments(segments.filter((s) => s.type !== 'added')) })
+      );
+      pairs.forEach((segments) =>
+        out.push({ type: 'added', segments: mergeSegments(segments.filter((s) => s.type !== 'removed')) })
+      );
+    } else {
+      [...removed, ...added].forEach((l) => out.push({ type: l.type, segments: [{ type: 'same', text: l.text }] }));
+    }
+    k = addedEnd;
+  }
+  return out;
+};
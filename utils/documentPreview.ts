@@ -0,0 +1,81 @@
+// HTML for the live preview next to a template form. Text fields that are still empty are rendered as
+// highlighted placeholders carrying their form field name, so the preview shows where each value will go.
+import {
+  RenderableTemplate,
+  prepareTemplateData,
+  renderTemplateDocument,
+  parseTemplateSchema,
+} from '../supabase/functions/_shared/render/renderDocument';
+import { JSONSchemaBranch, toLabel } from '../supabase/functions/_shared/render/schemaTemplate';
+import { resolveActiveSchema } from '../supabase/functions/_shared/render/schemaValidation';
+import { escapeHtml } from '../supabase/functions/_shared/render/templateExpressions';
+
+interface UnfilledField {
+  path: string; // form field name, e.g. `client.email`
+  label: string;
+}
+
+// Digits only between the brackets so filters such as `upper` cannot alter the marker
+const marker = (index: number) => `⟦${index}⟧`;
+const MARKER_PATTERN = /⟦(\d+)⟧/g;
+
+const isBlank = (v: unknown) => v === undefined || v === null || (typeof v === 'string' && v.trim() === '');
+
+/**
+ * Replace blank text fields (top level and inside objects) with markers. Numbers, booleans and lists are left
+ * alone so computed values and tables render as they will in the document. Block conditions see a marked field
+ * as filled.
+ */
+const markUnfilled = (
+  schema: JSONSchemaBranch,
+  data: Record<string, any>,
+  prefix: string,
+  unfilled: UnfilledField[]
+): Record<string, any> => {
+  const active = resolveActiveSchema(schema, data);
+  const out = { ...data };
+  for (const [key, prop] of Object.entries(active.properties || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (prop.type === 'object' && prop.properties) {
+      const inner = out[key] && typeof out[key] === 'object' && !Array.isArray(out[key]) ? out[key] : {};
+      out[key] = markUnfilled(prop, inner, path, unfilled);
+    } else if ((prop.type === 'string' || !prop.type) && !prop.enum && prop['x-widget'] !== 'signature' && isBlank(out[key])) {
+      out[key] = marker(unfilled.length);
+      unfilled.push({ path, label: prop.title || toLabel(key) });
+    }
+  }
+  return out;
+};
+
+// Posts the field name of a tapped placeholder to React Native
+const PREVIEW_HEAD = `
+<style>
+  mark.unfilled { background: #FEF3C7; color: #92400E; border: 1px dashed #D97706; border-radius: 3px; padding: 0 3px; cursor: pointer; }
+</style>
+<script>
+  document.addEventListener('click', function (e) {
+    var mark = e.target && e.target.closest ? e.target.closest('mark.unfilled') : null;
+    if (mark && window.ReactNativeWebView) {
+      window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'focusField', path: mark.getAttribute('data-field') }));
+    }
+  });
+</script>`;
+
+export const buildPreviewHtml = (template: RenderableTemplate, values: Record<string, any>): string => {
+  const schema = parseTemplateSchema(template);
+  const data = prepareTemplateData(template, values);
+  const unfilled: UnfilledField[] = [];
+  const marked = schema ? markUnfilled(schema, data, '', unfilled) : data;
+  const { html } = renderTemplateDocument(template, marked);
+
+  const highlighted = html
+    // A marker inside an attribute (alt text, image source) cannot hold markup
+    .replace(/<[^>]*>/g, (tag) => tag.replace(MARKER_PATTERN, ''))
+    .replace(MARKER_PATTERN, (_m, index) => {
+      const field = unfilled[Number(index)];
+      return field
+        ? `<mark class="unfilled" data-field="${escapeHtml(field.path)}">${escapeHtml(field.label)}</mark>`
+        : '';
+    });
+  return highlighted.replace('</head>', `${PREVIEW_HEAD}\n</head>`);
+};
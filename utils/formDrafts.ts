@@ -0,0 +1,103 @@
+// Autosaved form drafts: written to AsyncStorage first so nothing is lost offline or on restart, then synced
+// to the `drafts` table. When both copies exist the most recently edited one wins.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getUserDrafts, upsertDraft, deleteDraft, Draft } from '../lib/supabase';
+
+export interface FormDraft {
+  templateId: string;
+  templateName: string;
+  values: Record<string, any>;
+  updatedAt: string; // ISO timestamp of the last edit
+}
+
+const KEY_PREFIX = 'formDraft';
+const draftKey = (userId: string, templateId: string) => `${KEY_PREFIX}:${userId}:${templateId}`;
+
+const fromRow = (row: Draft): FormDraft => ({
+  templateId: row.template_id,
+  templateName: row.template_name,
+  values: row.form_data || {},
+  updatedAt: row.updated_at,
+});
+
+const newer = (a: FormDraft | null, b: FormDraft | null): FormDraft | null => {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(b.updatedAt).getTime() > new Date(a.updatedAt).getTime() ? b : a;
+};
+
+const readLocal = async (key: string): Promise<FormDraft | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as FormDraft) : null;
+  } catch (error) {
+    console.log('Error reading local draft:', error);
+    return null;
+  }
+};
+
+export const saveDraft = async (userId: string, draft: FormDraft): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(draftKey(userId, draft.templateId), JSON.stringify(draft));
+  } catch (error) {
+    console.log('Error saving local draft:', error);
+  }
+
+  // The local copy is enough to resume on this device, so a failed sync is only logged
+  const { error } = await upsertDraft({
+    user_id: userId,
+    template_id: draft.templateId,
+    template_name: draft.templateName,
+    form_data: draft.values,
+    updated_at: draft.updatedAt,
+  });
+  if (error) console.warn('Draft sync failed:', error.message);
+};
+
+export const loadDraft = async (userId: string, templateId: string): Promise<FormDraft | null> => {
+  const local = await readLocal(draftKey(userId, templateId));
+  const { data } = await getUserDrafts(userId);
+  const row = (data as Draft[] | null)?.find((d) => d.template_id === templateId);
+  return newer(local, row ? fromRow(row) : null);
+};
+
+// All drafts of a user, most recently edited first
+export const listDrafts = async (userId: string): Promise<FormDraft[]> => {
+  const byTemplate = new Map<string, FormDraft>();
+
+  try {
+    const keys = (await AsyncStorage.getAllKeys()).filter((k) => k.startsWith(`${KEY_PREFIX}:${userId}:`));
+    for (const key of keys) {
+      const draft = await readLocal(key);
+      if (draft) byTemplate.set(draft.templateId, draft);
+    }
+  } catch (error) {
+    console.log('Error listing local drafts:', error);
+  }
+
+  const { data, error } = await getUserDrafts(userId);
+  if (error) console.warn('Could not load synced drafts:', error.message);
+  for (const row of (data as Draft[] | null) || []) {
+    const remote = fromRow(row);
+    byTemplate.set(remote.templateId, newer(byTemplate.get(remote.templateId) || null, remote)!);
+  }
+
+  return [...byTemplate.values()].sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+};
+
+export const discardDraft = async (userId: string, templateId: string): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(draftKey(userId, templateId));
+  } catch (error) {
+    console.log('Error removing local draft:', error);
+  }
+  const { error } = await deleteDraft(userId, templateId);
+  if (error) console.warn('Could not delete synced draft:', error.message);
+};
+
+export const formatDraftTime = (updatedAt: string): string => {
+  const d = new Date(updatedAt);
+  return `${d.toLocaleDateString()} ${d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
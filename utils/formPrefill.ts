@@ -0,0 +1,87 @@
+// Initial form values from `x-prefill` hints: the user's profile, the value they used last time in the same
+// template, or today's date. Last values are kept in AsyncStorage per user and template.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { JSONSchemaBranch, JSONSchemaProperty } from '../supabase/functions/_shared/render/schemaTemplate';
+import { declaredProperties } from '../supabase/functions/_shared/render/schemaValidation';
+import { pad2 } from '../supabase/functions/_shared/render/templateExpressions';
+import { UserProfile } from '../lib/supabase';
+
+export interface PrefillContext {
+  profile: UserProfile | null;
+  lastValues: Record<string, any> | null;
+  now?: Date;
+}
+
+const lastValuesKey = (userId: string, templateId: string) => `lastInputs:${userId}:${templateId}`;
+
+// Same stored formats as the form's date/time pickers
+const todayFor = (prop: JSONSchemaProperty, now: Date): string => {
+  const date = `${now.getFullYear()}-${pad2(now.getMonth() + 1)}-${pad2(now.getDate())}`;
+  const time = `${pad2(now.getHours())}:${pad2(now.getMinutes())}`;
+  if (prop.format === 'date-time') return `${date}T${time}`;
+  if (prop.format === 'time') return time;
+  if (prop.format === 'date') return date;
+  return now.toLocaleDateString();
+};
+
+const resolveHint = (hint: string, prop: JSONSchemaProperty, lastValue: unknown, ctx: PrefillContext): unknown => {
+  if (hint === 'today') return todayFor(prop, ctx.now || new Date());
+  if (hint === 'lastValue') return lastValue;
+  if (hint.startsWith('profile.')) {
+    const value = (ctx.profile as Record<string, any> | null)?.[hint.slice('profile.'.length)];
+    return typeof value === 'string' && value.trim() ? value : undefined;
+  }
+  console.warn(`Unknown x-prefill hint "${hint}"`);
+  return undefined;
+};
+
+/** Values for every field (including fields of nested objects) that has an `x-prefill` hint resolving to a value. */
+export const buildPrefillValues = (schema: JSONSchemaBranch, ctx: PrefillContext): Record<string, any> => {
+  const walk = (branch: JSONSchemaBranch, last: Record<string, any> | undefined): Record<string, any> => {
+    const out: Record<string, any> = {};
+    for (const [key, { prop }] of Object.entries(declaredProperties(branch))) {
+      if (prop.type === 'object' && prop.properties) {
+        const inner = walk(prop, last?.[key] && typeof last[key] === 'object' ? last[key] : undefined);
+        if (Object.keys(inner).length) out[key] = inner;
+        continue;
+      }
+      if (!prop['x-prefill']) continue;
+      const value = resolveHint(prop['x-prefill'], prop, last?.[key], ctx);
+      if (value !== undefined && value !== null && value !== '') out[key] = value;
+    }
+    return out;
+  };
+  return walk(schema, ctx.lastValues || undefined);
+};
+
+// Prefilled values with `values` (e.g. a resumed draft) on top, merging nested objects
+export const mergeFormValues = (base: Record<string, any>, values?: Record<string, any>): Record<string, any> => {
+  if (!values) return base;
+  const out: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(values)) {
+    const prev = out[key];
+    out[key] =
+      value && typeof value === 'object' && !Array.isArray(value) && prev && typeof prev === 'object' && !Array.isArray(prev)
+        ? mergeFormValues(prev, value)
+        : value;
+  }
+  return out;
+};
+
+export const loadLastValues = async (userId: string, templateId: string): Promise<Record<string, any> | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(lastValuesKey(userId, templateId));
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    console.log('Error loading last form values:', error);
+    return null;
+  }
+};
+
+export const saveLastValues = async (userId: string, templateId: string, values: Record<string, any>): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(lastValuesKey(userId, templateId), JSON.stringify(values));
+  } catch (error) {
+    console.log('Error saving last form values:', error);
+  }
+};
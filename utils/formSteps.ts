@@ -0,0 +1,98 @@
+// Splitting a template form into wizard steps, and the review summary shown before generating
+import { JSONSchema, JSONSchemaProperty, toLabel } from '../supabase/functions/_shared/render/schemaTemplate';
+import { declaredProperties } from '../supabase/functions/_shared/render/schemaValidation';
+
+export interface FormStep {
+  key: string;
+  title: string;
+  description?: string;
+  fields: string[]; // top-level field names
+}
+
+export interface ReviewRow {
+  label: string;
+  value: string;
+}
+
+/**
+ * Wizard steps for a schema, or null for a single-page form. Steps come from `x-steps`; fields no step lists are
+ * collected in a final "Other Details" step. Without `x-steps`, a schema whose top-level properties are all
+ * objects gets one step per object.
+ */
+export const getFormSteps = (schema: JSONSchema | null | undefined): FormStep[] | null => {
+  if (!schema) return null;
+  const declared = declaredProperties(schema);
+  const names = Object.keys(declared);
+
+  if (Array.isArray(schema['x-steps']) && schema['x-steps'].length) {
+    const steps: FormStep[] = schema['x-steps'].map((step, i) => ({
+      key: `step-${i}`,
+      title: step.title || `Step ${i + 1}`,
+      description: step.description,
+      fields: (step.fields || []).filter((f) => f in declared),
+    }));
+    const listed = new Set(steps.flatMap((s) => s.fields));
+    const rest = names.filter((n) => !listed.has(n));
+    if (rest.length) steps.push({ key: 'step-other', title: 'Other Details', fields: rest });
+    return steps.filter((s) => s.fields.length);
+  }
+
+  if (names.length >= 2 && names.every((n) => declared[n].prop.type === 'object')) {
+    return names.map((n) => ({
+      key: n,
+      title: declared[n].prop.title || toLabel(n),
+      description: declared[n].prop.description,
+      fields: [n],
+    }));
+  }
+  return null;
+};
+
+// Top-level field of an error path such as `client.email` or `items[2].quantity`
+export const rootField = (path: string): string => path.split(/[.[]/)[0];
+
+export const stepOfField = (steps: FormStep[], path: string): number =>
+  steps.findIndex((s) => s.fields.includes(rootField(path)));
+
+export const formatValue = (value: unknown, prop: JSONSchemaProperty): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (prop['x-widget'] === 'signature') return 'Signed';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (prop.format === 'currency' && !isNaN(Number(value))) {
+    const amount = Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return prop['x-currency'] ? `${prop['x-currency']} ${amount}` : amount;
+  }
+  if (Array.isArray(value)) {
+    if (prop.items?.type === 'object') return `${value.length} item${value.length === 1 ? '' : 's'}`;
+    return value.filter((v) => v !== '' && v != null).join(', ') || '—';
+  }
+  if (prop.format === 'date' && typeof value === 'string') {
+    const d = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00` : value);
+    return isNaN(d.getTime()) ? value : d.toLocaleDateString();
+  }
+  if (prop.format === 'date-time' && typeof value === 'string') {
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? value : d.toLocaleString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/** Label/value rows for the given fields of an (active) schema; object fields list their sub-fields. */
+export const buildReviewRows = (
+  properties: Record<string, JSONSchemaProperty>,
+  fields: string[],
+  values: Record<string, any>
+): ReviewRow[] =>
+  fields.flatMap((field) => {
+    const prop = properties[field];
+    if (!prop) return [];
+    const label = prop.title || toLabel(field);
+    if (prop.type === 'object' && prop.properties) {
+      const inner = values?.[field] || {};
+      return Object.entries(prop.properties).map(([key, child]) => ({
+        label: `${label} – ${child.title || toLabel(key)}`,
+        value: formatValue(inner[key], child),
+      }));
+    }
+    return [{ label, value: formatValue(values?.[field], prop) }];
+  });
@@ -1,10 +1,13 @@
 import * as FileSystem from 'expo-file-system/legacy';
 import * as Print from 'expo-print';
 import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import { PageLayout, hasPageDecorations } from '../../supabase/functions/_shared/render/templateRenderer';
+import { drawPageDecorations } from '../../supabase/functions/_shared/render/pdfDecorations';
 
 export interface CreatePdfParams {
   html: string;
   fileName: string; // without extension
+  page?: PageLayout; // page size plus running header/footer and watermark (from resolvePageLayout)
 }
 
 export interface CreatePdfResult {
@@ -20,13 +23,39 @@ function stripHtmlToPlainText(html: string): string {
   return withNewlines.replace(/<[^>]+>/g, '');
 }
 
-export async function createPdf({ html, fileName }: CreatePdfParams): Promise<CreatePdfResult> {
+// Running header/footer lines and the watermark, drawn with the standard fonts
+async function stampPageDecorations(pdfDoc: PDFDocument, layout: PageLayout): Promise<void> {
+  const fonts = {
+    regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+  };
+  drawPageDecorations(pdfDoc, layout, fonts);
+}
+
+export async function createPdf({ html, fileName, page }: CreatePdfParams): Promise<CreatePdfResult> {
   // Use expo-print as the primary, Expo-native method
   try {
-    const { uri, base64 } = await Print.printToFileAsync({ html, base64: true });
+    const { uri, base64: printedBase64 } = await Print.printToFileAsync({
+      html,
+      base64: true,
+      ...(page ? { width: page.width, height: page.height } : {}),
+    });
+    let base64 = printedBase64;
 
     // Ensure local file name matches desired fileName for consistency (e.g., when sharing)
     const desiredUri = `${FileSystem.documentDirectory}${fileName}.pdf`;
+
+    // Running headers, footers and watermarks are stamped onto the printed pages with pdf-lib
+    if (page && hasPageDecorations(page)) {
+      const source = base64 ?? (await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }));
+      const pdfDoc = await PDFDocument.load(source);
+      await stampPageDecorations(pdfDoc, page);
+      base64 = await pdfDoc.saveAsBase64({ dataUri: false });
+      await FileSystem.writeAsStringAsync(desiredUri, base64, { encoding: FileSystem.EncodingType.Base64 });
+      try { await FileSystem.deleteAsync(uri, { idempotent: true }); } catch {}
+      return { fileUri: desiredUri, base64 };
+    }
+
     try {
       // Remove existing target if any to avoid move failures
       try { await FileSystem.deleteAsync(desiredUri, { idempotent: true }); } catch {}
@@ -43,21 +72,22 @@ export async function createPdf({ html, fileName }: CreatePdfParams): Promise<Cr
     try {
       const plainText = stripHtmlToPlainText(html);
       const pdfDoc = await PDFDocument.create();
-      const page = pdfDoc.addPage();
+      const pdfPage = page ? pdfDoc.addPage([page.width, page.height]) : pdfDoc.addPage();
       const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-      
-      page.drawText(plainText, {
-        x: 50,
-        y: page.getHeight() - 50,
+
+      pdfPage.drawText(plainText, {
+        x: page ? page.margins.left : 50,
+        y: pdfPage.getHeight() - (page ? page.margins.top : 50),
         font,
         size: 12,
         lineHeight: 14,
         color: rgb(0, 0, 0),
       });
+      if (page && hasPageDecorations(page)) await stampPageDecorations(pdfDoc, page);
 
       const pdfBytes = await pdfDoc.saveAsBase64({ dataUri: false });
       const fileUri = `${FileSystem.documentDirectory}${fileName}.pdf`;
-      
+
       await FileSystem.writeAsStringAsync(fileUri, pdfBytes, {
         encoding: FileSystem.EncodingType.Base64,
       });
@@ -68,4 +98,4 @@ export async function createPdf({ html, fileName }: CreatePdfParams): Promise<Cr
       throw fallbackError;
     }
   }
-}
\ No newline at end of file
+}
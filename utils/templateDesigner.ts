@@ -0,0 +1,160 @@
+// Building blocks of the admin layout designer: the palette of block types, new blocks prefilled from the
+// template's fields, the bindable fields of a json_schema and one-line summaries of blocks.
+import {
+  TemplateBlock,
+  KeyValueRow,
+  TableColumn,
+  LinePart,
+} from '../supabase/functions/_shared/render/templateRenderer';
+import { JSONSchemaBranch, JSONSchemaProperty, toLabel } from '../supabase/functions/_shared/render/schemaTemplate';
+import { declaredProperties } from '../supabase/functions/_shared/render/schemaValidation';
+
+export type DesignerBlockType =
+  | 'heading'
+  | 'paragraph'
+  | 'line'
+  | 'list'
+  | 'table'
+  | 'keyValueTable'
+  | 'keyValueList'
+  | 'divider'
+  | 'spacer'
+  | 'signature';
+
+export const PALETTE: Array<{ type: DesignerBlockType; label: string; icon: string }> = [
+  { type: 'heading', label: 'Heading', icon: 'format-header-pound' },
+  { type: 'paragraph', label: 'Paragraph', icon: 'format-paragraph' },
+  { type: 'line', label: 'Line', icon: 'format-text' },
+  { type: 'list', label: 'List', icon: 'format-list-bulleted' },
+  { type: 'table', label: 'Table', icon: 'table' },
+  { type: 'keyValueTable', label: 'Key-value table', icon: 'table-column' },
+  { type: 'keyValueList', label: 'Key-value list', icon: 'format-list-text' },
+  { type: 'divider', label: 'Divider', icon: 'minus' },
+  { type: 'spacer', label: 'Spacer', icon: 'arrow-expand-vertical' },
+  { type: 'signature', label: 'Signature', icon: 'draw' },
+];
+
+export interface SchemaField {
+  path: string; // relative to the scope it was listed for, e.g. `client.email` or `price` inside `items`
+  label: string;
+  type?: JSONSchemaProperty['type'];
+  depth: number;
+  prop: JSONSchemaProperty;
+}
+
+/**
+ * Every field of a schema level in form order, objects followed by their sub-fields. Fields of conditional
+ * branches are included. Array items are not descended into; list them with `itemFields`.
+ */
+export const schemaFields = (schema: JSONSchemaBranch | null | undefined, prefix = '', depth = 0): SchemaField[] => {
+  if (!schema) return [];
+  const out: SchemaField[] = [];
+  for (const [key, { prop }] of Object.entries(declaredProperties(schema))) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    out.push({ path, label: prop.title || toLabel(key), type: prop.type, depth, prop });
+    if (prop.type === 'object') out.push(...schemaFields(prop, path, depth + 1));
+  }
+  return out;
+};
+
+/** Fields of one item of the array at `arrayPath`, as table columns and list items refer to them. */
+export const itemFields = (schema: JSONSchemaBranch | null | undefined, arrayPath?: string): SchemaField[] => {
+  const array = schemaFields(schema).find((f) => f.path === arrayPath && f.type === 'array');
+  const items = array?.prop.items;
+  return items?.type === 'object' ? schemaFields(items) : [];
+};
+
+const isValueField = (f: SchemaField) =>
+  f.type !== 'object' && f.type !== 'array' && f.prop['x-widget'] !== 'signature';
+
+// New blocks point at the first fields that suit them, so they show something in the preview straight away
+export const createBlock = (type: DesignerBlockType, schema?: JSONSchemaBranch | null): TemplateBlock => {
+  const fields = schemaFields(schema);
+  const values = fields.filter(isValueField);
+  const firstArray = (objects: boolean) =>
+    fields.find((f) => f.type === 'array' && (f.prop.items?.type === 'object') === objects);
+  switch (type) {
+    case 'heading':
+      return { type: 'heading', text: 'Heading', level: 2 };
+    case 'paragraph':
+      return values[0] ? { type: 'paragraph', text: `${values[0].label}: {{ ${values[0].path} }}` } : { type: 'paragraph', text: 'Text' };
+    case 'line': {
+      const parts: LinePart[] = values[0] ? [{ text: `${values[0].label}:` }, { bind: { path: values[0].path } }] : [{ text: 'Text' }];
+      return { type: 'line', parts };
+    }
+    case 'list': {
+      const array = firstArray(false);
+      return array ? { type: 'list', dataPath: array.path } : { type: 'list', items: ['First item', 'Second item'] };
+    }
+    case 'table': {
+      const array = firstArray(true);
+      const columns: TableColumn[] = itemFields(schema, array?.path)
+        .filter(isValueField)
+        .map((f) => ({ header: f.label, path: f.path }));
+      return { type: 'table', dataPath: array?.path || '', columns: columns.length ? columns : [{ header: 'Column', path: 'value' }] };
+    }
+    case 'keyValueTable':
+    case 'keyValueList': {
+      // Without value fields there is nothing to bind yet; the properties panel asks for fields first
+      const rows: KeyValueRow[] = values.slice(0, 3).map((f) => ({ label: f.label, bind: { path: f.path } }));
+      return { type, rows };
+    }
+    case 'divider':
+      return { type: 'divider' };
+    case 'spacer':
+      return { type: 'spacer', size: 16 };
+    case 'signature': {
+      const signature = fields.find((f) => f.prop['x-widget'] === 'signature');
+      return signature
+        ? { type: 'signature', image: { bind: { path: signature.path } }, name: '', title: signature.label }
+        : { type: 'signature', name: 'Name', title: 'Title' };
+    }
+  }
+};
+
+// Path of a `{ bind: { path } }` reference or the plain string, for showing either in one text input
+export const boundPath = (value: string | { bind?: { path?: string } } | undefined): string | undefined =>
+  typeof value === 'object' ? value?.bind?.path : undefined;
+
+const truncate = (s: string, max = 60) => (s.length > max ? `${s.slice(0, max - 1)}…` : s);
+
+/** One-line description of a block for the designer's outline. */
+export const describeBlock = (block: TemplateBlock): string => {
+  switch (block.type) {
+    case 'heading':
+      return truncate(`H${block.level || 2} · ${block.text}`);
+    case 'paragraph':
+      return truncate(block.text ?? (block.bind?.path ? `{{ ${block.bind.path} }}` : ''));
+    case 'line':
+      return truncate((block.parts || []).map((p) => p.text ?? `{{ ${p.bind?.path || p.path} }}`).join(' '));
+    case 'list':
+      return block.dataPath || block.sourcePath ? `Items of ${block.dataPath || block.sourcePath}` : `${(block.items || []).length} item(s)`;
+    case 'table':
+      return `${block.columns?.length || 0} column(s) of ${block.dataPath || block.sourcePath || '(no list)'}`;
+    case 'keyValueTable':
+    case 'keyValueList':
+      return truncate((block.rows || []).map((r) => r.label).join(', ') || 'No rows');
+    case 'divider':
+      return 'Horizontal rule';
+    case 'spacer':
+      return `${block.size ?? 12}px`;
+    case 'signature': {
+      const name = typeof block.name === 'string' ? block.name : boundPath(block.name);
+      return truncate([name, typeof block.title === 'string' ? block.title : boundPath(block.title)].filter(Boolean).join(' · ') || 'Signature');
+    }
+    case 'repeat':
+      return `${block.blocks?.length || 0} block(s) per item of ${block.dataPath || block.sourcePath || '(no list)'}`;
+    case 'image':
+      return truncate(block.alt || block.bind?.path || block.path || block.src || 'Image');
+    default:
+      return '';
+  }
+};
+
+/** Copy of `list` with the entry at `from` moved to index `to`. */
+export const moveItem = <T>(list: T[], from: number, to: number): T[] => {
+  const out = [...list];
+  const [item] = out.splice(from, 1);
+  out.splice(Math.max(0, Math.min(to, out.length)), 0, item);
+  return out;
+};
@@ -0,0 +1,88 @@
+// Carrying inputs saved with one template version over to another version's schema. Fields are matched by name
+// (or `x-renamedFrom`); values are converted where that loses nothing and left out where they no longer fit.
+import { JSONSchemaBranch, JSONSchemaProperty } from '../supabase/functions/_shared/render/schemaTemplate';
+import { declaredProperties } from '../supabase/functions/_shared/render/schemaValidation';
+
+export interface InputMigration {
+  values: Record<string, any>;
+  dropped: string[]; // paths of inputs the new schema has no field for
+  reset: string[]; // paths of fields whose old value does not fit the new type or options
+}
+
+const isPlainObject = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+const join = (prefix: string, key: string) => (prefix ? `${prefix}.${key}` : key);
+
+const NO_VALUE = Symbol('no value');
+
+const convert = (value: unknown, prop: JSONSchemaProperty, path: string, out: InputMigration): unknown => {
+  if (value === undefined || value === null || value === '') return NO_VALUE;
+  const fits = (ok: boolean, converted: unknown) => {
+    if (ok) return converted;
+    out.reset.push(path);
+    return NO_VALUE;
+  };
+
+  switch (prop.type) {
+    case 'object':
+      return prop.properties ? fits(isPlainObject(value), isPlainObject(value) && migrateBranch(value, prop, path, out)) : value;
+    case 'array': {
+      if (!Array.isArray(value)) return fits(false, null);
+      if (prop.items?.type === 'object' && prop.items.properties) {
+        // An item that isn't an object has no fields to carry over, so it is left out and reported
+        return value.flatMap((item, i) => {
+          if (isPlainObject(item)) return [migrateBranch(item, prop.items!, `${path}[${i}]`, out)];
+          out.reset.push(`${path}[${i}]`);
+          return [];
+        });
+      }
+      const options = prop.items?.enum;
+      const kept = options ? value.filter((v) => options.includes(v)) : value;
+      return fits(kept.length === value.length, kept);
+    }
+    case 'number':
+    case 'integer': {
+      const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      return fits(typeof n === 'number' && Number.isFinite(n) && (prop.type === 'number' || Number.isInteger(n)), n);
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      return fits(value === 'true' || value === 'false', value === 'true');
+    case 'string':
+    default: {
+      const text = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+      return fits(typeof text === 'string' && (!prop.enum || prop.enum.includes(text)), text);
+    }
+  }
+};
+
+const migrateBranch = (
+  values: Record<string, any>,
+  schema: JSONSchemaBranch,
+  prefix: string,
+  out: InputMigration
+): Record<string, any> => {
+  const result: Record<string, any> = {};
+  const used = new Set<string>();
+  for (const [key, { prop }] of Object.entries(declaredProperties(schema))) {
+    const renamedFrom = prop['x-renamedFrom'];
+    const sources = [key, ...(Array.isArray(renamedFrom) ? renamedFrom : renamedFrom ? [renamedFrom] : [])];
+    const source = sources.find((s) => values[s] !== undefined && !used.has(s));
+    if (!source) continue;
+    used.add(source);
+    const value = convert(values[source], prop, join(prefix, key), out);
+    if (value !== NO_VALUE) result[key] = value;
+  }
+  for (const key of Object.keys(values)) {
+    const value = values[key];
+    if (!used.has(key) && value !== undefined && value !== null && value !== '') out.dropped.push(join(prefix, key));
+  }
+  return result;
+};
+
+/** Inputs saved with an earlier template version, fitted to `schema` (usually the published version's). */
+export const migrateInputs = (values: Record<string, any> | null | undefined, schema: JSONSchemaBranch): InputMigration => {
+  const out: InputMigration = { values: {}, dropped: [], reset: [] };
+  out.values = migrateBranch(values || {}, schema, '', out);
+  return out;
+};
@@ -0,0 +1,66 @@
+// Placeholder inputs for test-rendering a template in the admin editor: one plausible value per field, two rows
+// per list, so every block of the layout has something to show.
+import { JSONSchemaBranch, JSONSchemaProperty, toLabel } from '../supabase/functions/_shared/render/schemaTemplate';
+import { pad2 } from '../supabase/functions/_shared/render/templateExpressions';
+
+const sampleString = (prop: JSONSchemaProperty, label: string, now: Date): string | undefined => {
+  const date = `${now.getFullYear()}-${pad2(now.getMonth() + 1)}-${pad2(now.getDate())}`;
+  switch (prop.format) {
+    case 'date':
+      return date;
+    case 'date-time':
+      return `${date}T09:30`;
+    case 'time':
+      return '09:30';
+    case 'email':
+      return 'jane.doe@example.com';
+    case 'tel':
+      return '+1 555 0100';
+    case 'uri':
+      return 'https://example.com';
+    case 'currency':
+      return '1250.00';
+    case 'textarea':
+      return `Sample ${label.toLowerCase()}. This longer text shows how a paragraph wraps in the document.`;
+  }
+  return prop.maxLength !== undefined && prop.maxLength < 20 ? label.slice(0, prop.maxLength) : `Sample ${label}`;
+};
+
+const sampleValue = (prop: JSONSchemaProperty, key: string, now: Date): unknown => {
+  const label = prop.title || toLabel(key);
+  if (prop.const !== undefined) return prop.const;
+  if (prop.enum?.length) return prop.enum[0];
+  if (prop['x-widget'] === 'signature') return undefined;
+  switch (prop.type) {
+    case 'object':
+      return buildSampleData(prop, now);
+    case 'array': {
+      const items = prop.items;
+      if (!items) return [];
+      const count = Math.max(2, prop.minItems || 0);
+      if (items.enum?.length) return items.enum.slice(0, Math.min(count, items.enum.length));
+      return Array.from({ length: count }, (_, i) =>
+        items.type === 'object' ? buildSampleData(items, now) : sampleValue(items, `${key} ${i + 1}`, now)
+      );
+    }
+    case 'number':
+    case 'integer': {
+      const value = prop.minimum !== undefined ? Math.max(prop.minimum, 10) : 10;
+      return prop.maximum !== undefined ? Math.min(value, prop.maximum) : value;
+    }
+    case 'boolean':
+      return true;
+    default:
+      return sampleString(prop, label, now);
+  }
+};
+
+/** Sample inputs for the (unconditional) fields of a schema. */
+export const buildSampleData = (schema: JSONSchemaBranch, now: Date = new Date()): Record<string, any> => {
+  const out: Record<string, any> = {};
+  for (const [key, prop] of Object.entries(schema.properties || {})) {
+    const value = sampleValue(prop, key, now);
+    if (value !== undefined) out[key] = value;
+  }
+  return out;
+};